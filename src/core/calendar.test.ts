@@ -0,0 +1,83 @@
+import FibonacciBilling from './fibonacci-billing';
+import {
+  addMonths,
+  daysInMonth,
+  fromZonedDateTime,
+  getReminderDate,
+  toStartOfDay,
+  toZonedDateTime,
+} from './calendar';
+
+const isoDates = (dates: Date[]) => dates.map((date) => date.toISOString().slice(0, 10));
+
+describe('calendar', () => {
+  describe('addMonths', () => {
+    it('should clamp to the end of the month and handle leap years', () => {
+      const jan31 = toStartOfDay('2024-01-31', 'UTC');
+      expect(addMonths(jan31, 1)).toMatchObject({ year: 2024, month: 2, day: 29 });
+      expect(addMonths(jan31, 13)).toMatchObject({ year: 2025, month: 2, day: 28 });
+      expect(addMonths(jan31, 2)).toMatchObject({ year: 2024, month: 3, day: 31 });
+    });
+
+    it('should count days per month correctly', () => {
+      expect(daysInMonth(2024, 2)).toBe(29);
+      expect(daysInMonth(1900, 2)).toBe(28);
+      expect(daysInMonth(2000, 2)).toBe(29);
+    });
+  });
+
+  describe('time zones', () => {
+    it('should convert local midnight to the correct instant', () => {
+      const midnight = fromZonedDateTime(
+        toStartOfDay('2024-07-01', 'Europe/Berlin'),
+        'Europe/Berlin'
+      );
+      expect(midnight.toISOString()).toBe('2024-06-30T22:00:00.000Z');
+      expect(toZonedDateTime(midnight, 'Europe/Berlin')).toMatchObject({ day: 1, hour: 0 });
+    });
+
+    it('should keep the local time of reminders across DST changes', () => {
+      const renewal = new Date('2024-03-12T14:00:00.000Z'); // 10:00 EDT
+      const reminder = getReminderDate(renewal, 7, 'America/New_York');
+      expect(reminder.toISOString()).toBe('2024-03-05T15:00:00.000Z'); // 10:00 EST
+    });
+  });
+
+  describe('generateCalendarSchedule', () => {
+    it('should return period and charge dates for each cycle', () => {
+      const billing = new FibonacciBilling({ basePrice: 10 });
+      const schedule = billing.generateCalendarSchedule({ startDate: '2024-01-31', cycles: 4 });
+
+      expect(isoDates(schedule.map((item) => item.periodStart))).toEqual([
+        '2024-01-31',
+        '2024-02-29',
+        '2024-04-30',
+        '2024-07-31',
+      ]);
+      expect(schedule[3].periodEnd.toISOString().slice(0, 10)).toBe('2024-12-31');
+      expect(schedule[1].chargeDate).toEqual(schedule[1].periodStart);
+      expect(schedule[1].periodEnd).toEqual(schedule[2].periodStart);
+    });
+
+    it('should renew on the billing anchor day in the schedule time zone', () => {
+      const billing = new FibonacciBilling({ basePrice: 10 });
+      const schedule = billing.generateCalendarSchedule({
+        startDate: '2024-01-10',
+        anchorDay: 1,
+        timeZone: 'Asia/Tokyo',
+        cycles: 2,
+      });
+
+      expect(schedule[0].periodStart.toISOString()).toBe('2024-01-09T15:00:00.000Z');
+      expect(schedule[0].periodEnd.toISOString()).toBe('2024-01-31T15:00:00.000Z');
+      expect(schedule[1].periodEnd.toISOString()).toBe('2024-03-31T15:00:00.000Z');
+    });
+
+    it('should reject invalid anchor days', () => {
+      const billing = new FibonacciBilling();
+      expect(() =>
+        billing.generateCalendarSchedule({ startDate: '2024-01-01', anchorDay: 32 })
+      ).toThrow();
+    });
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Calendar helpers for Fibonacci Billing
+ *
+ * Billing periods are calculated on calendar dates in the customer's time
+ * zone, then converted to instants. Month arithmetic clamps to the end of the
+ * month (Jan 31 + 1 month = Feb 28, or Feb 29 in leap years) while keeping the
+ * billing anchor day for later months.
+ */
+
+import { ZonedDateTime } from '../types';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Cached formatters, one per time zone
+ */
+const formatters: { [timeZone: string]: Intl.DateTimeFormat } = {};
+
+/**
+ * Checks whether a year is a leap year
+ * @param year - Gregorian year
+ * @returns True for leap years
+ */
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+/**
+ * Gets the number of days in a month
+ * @param year - Gregorian year
+ * @param month - Month of the year (1-12)
+ * @returns Number of days in the month
+ */
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Adds months to a calendar date, landing on the anchor day or the last day
+ * of the month when the anchor day does not exist
+ * @param date - Starting wall-clock date
+ * @param months - Number of months to add
+ * @param anchorDay - Day of the month to land on (defaults to the starting day)
+ * @returns The resulting wall-clock date (time of day is preserved)
+ */
+export function addMonths(
+  date: ZonedDateTime,
+  months: number,
+  anchorDay = date.day
+): ZonedDateTime {
+  const monthIndex = date.year * 12 + (date.month - 1) + months;
+  const year = Math.floor(monthIndex / 12);
+  const month = (monthIndex % 12) + 1;
+
+  return {
+    ...date,
+    year,
+    month,
+    day: Math.min(anchorDay, daysInMonth(year, month)),
+  };
+}
+
+/**
+ * Adds days to a calendar date
+ * @param date - Starting wall-clock date
+ * @param days - Number of days to add (may be negative)
+ * @returns The resulting wall-clock date (time of day is preserved)
+ */
+export function addDays(date: ZonedDateTime, days: number): ZonedDateTime {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day) + days * MS_PER_DAY);
+
+  return {
+    ...date,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Gets the wall-clock date and time of an instant in a time zone
+ * @param instant - Point in time
+ * @param timeZone - IANA time zone name (e.g. 'Europe/Berlin')
+ * @returns The wall-clock date and time
+ */
+export function toZonedDateTime(instant: Date, timeZone: string): ZonedDateTime {
+  const parts: { [type: string]: number } = {};
+  getFormatter(timeZone)
+    .formatToParts(instant)
+    .forEach((part) => {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value, 10);
+      }
+    });
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour === 24 ? 0 : parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+    millisecond: instant.getUTCMilliseconds(),
+  };
+}
+
+/**
+ * Converts a wall-clock date and time in a time zone to an instant. Times that
+ * fall in a daylight saving gap resolve to the later offset.
+ * @param dateTime - Wall-clock date and time
+ * @param timeZone - IANA time zone name
+ * @returns The instant
+ */
+export function fromZonedDateTime(dateTime: ZonedDateTime, timeZone: string): Date {
+  const wallClock = Date.UTC(
+    dateTime.year,
+    dateTime.month - 1,
+    dateTime.day,
+    dateTime.hour,
+    dateTime.minute,
+    dateTime.second,
+    dateTime.millisecond
+  );
+
+  // Guess with the offset at the wall-clock time, then correct once for DST
+  let instant = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  const corrected = wallClock - getTimeZoneOffset(new Date(instant), timeZone);
+  if (corrected !== instant) {
+    instant = Math.max(instant, corrected);
+  }
+
+  return new Date(instant);
+}
+
+/**
+ * Gets the offset of a time zone from UTC at an instant
+ * @param instant - Point in time
+ * @param timeZone - IANA time zone name
+ * @returns Offset in milliseconds (positive east of UTC)
+ */
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const zoned = toZonedDateTime(instant, timeZone);
+  const wallClock = Date.UTC(
+    zoned.year,
+    zoned.month - 1,
+    zoned.day,
+    zoned.hour,
+    zoned.minute,
+    zoned.second,
+    zoned.millisecond
+  );
+  return wallClock - instant.getTime();
+}
+
+/**
+ * Parses a start date into a wall-clock date at midnight
+ * @param date - Date instance, or an ISO date string ('YYYY-MM-DD' is read in the time zone)
+ * @param timeZone - IANA time zone name
+ * @returns Wall-clock date at midnight
+ */
+export function toStartOfDay(date: Date | string, timeZone: string): ZonedDateTime {
+  const match = typeof date === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(date) : null;
+  const zoned = match
+    ? {
+        year: parseInt(match[1], 10),
+        month: parseInt(match[2], 10),
+        day: parseInt(match[3], 10),
+      }
+    : toZonedDateTime(new Date(date), timeZone);
+
+  if (!zoned.year || !zoned.month || !zoned.day) {
+    throw new Error(`Invalid date: ${String(date)}`);
+  }
+
+  return { ...zoned, hour: 0, minute: 0, second: 0, millisecond: 0 };
+}
+
+/**
+ * Gets the reminder date for a renewal, the same local time a number of
+ * calendar days earlier
+ * @param renewalDate - When the renewal is charged
+ * @param daysBefore - Number of days before the renewal
+ * @param timeZone - IANA time zone name (defaults to 'UTC')
+ * @returns The reminder date
+ */
+export function getReminderDate(renewalDate: Date, daysBefore: number, timeZone = 'UTC'): Date {
+  return fromZonedDateTime(addDays(toZonedDateTime(renewalDate, timeZone), -daysBefore), timeZone);
+}
+
+/**
+ * Gets a cached formatter for a time zone
+ * @param timeZone - IANA time zone name
+ * @returns Formatter producing numeric date and time parts
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  if (!formatters[timeZone]) {
+    formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  }
+  return formatters[timeZone];
+}
@@ -0,0 +1,71 @@
+import { simulateCohort } from './cohort-simulator';
+import { ProRataRefundPolicy } from './refund-policies';
+import { CohortSimulationOptions } from '../types';
+
+// Half of the customers renew after each term: $10, then $19 for 2 months, then $27 for 3
+const options: CohortSimulationOptions = {
+  plan: { basePrice: 10, refundPolicy: new ProRataRefundPolicy() },
+  cohortSize: 100,
+  renewalRates: [0.5],
+  startDate: '2024-01-01',
+  cycles: 3,
+};
+
+describe('simulateCohort', () => {
+  it('should forecast expected revenue, cash flow and lifetime value', () => {
+    const forecast = simulateCohort(options);
+
+    expect(forecast.cycles.map((cycle) => cycle.customers)).toEqual([100, 50, 25]);
+    expect(forecast.cycles.map((cycle) => cycle.revenue.amount)).toEqual([100000, 95000, 67500]);
+    expect(forecast.expectedRevenue.amount).toBe(262500);
+    expect(forecast.ltv.amount).toBe(2625);
+    expect(forecast.ltvPercentiles).toBeUndefined();
+
+    expect(forecast.months.map((month) => month.month)).toEqual([
+      '2024-01',
+      '2024-02',
+      '2024-03',
+      '2024-04',
+      '2024-05',
+      '2024-06',
+    ]);
+    expect(forecast.months.map((month) => month.cashCollected.amount)).toEqual([
+      100000, 95000, 0, 67500, 0, 0,
+    ]);
+    expect(forecast.months.map((month) => month.activeCustomers)).toEqual([
+      100, 50, 50, 25, 25, 25,
+    ]);
+  });
+
+  it('should report the refunds owed if active customers cancelled', () => {
+    const forecast = simulateCohort(options);
+
+    // At the end of February, 50 customers have 31 of 60 days left of a $19 term
+    expect(forecast.months[1].refundLiability.amount).toBe(49100);
+    expect(forecast.months[2].refundLiability.amount).toBe(0);
+    expect(
+      simulateCohort({ ...options, plan: { basePrice: 10 } }).months[1].refundLiability.amount
+    ).toBe(0);
+  });
+
+  it('should reproduce Monte Carlo runs from a seed', () => {
+    const monteCarlo = { ...options, mode: 'monte-carlo' as const, runs: 2000, seed: 42 };
+    const forecast = simulateCohort(monteCarlo);
+
+    expect(simulateCohort(monteCarlo)).toEqual(forecast);
+    expect(forecast.cycles[0].customers).toBe(100);
+    expect(forecast.cycles[1].customers).toBeCloseTo(50, 0);
+    expect(forecast.ltv.amount).toBeGreaterThan(2500);
+    expect(forecast.ltv.amount).toBeLessThan(2750);
+
+    const { p10, p50, p90 } = forecast.ltvPercentiles!;
+    expect(p10.amount).toBeLessThan(p50.amount);
+    expect(p50.amount).toBeLessThan(p90.amount);
+  });
+
+  it('should reject invalid cohorts and renewal rates', () => {
+    expect(() => simulateCohort({ ...options, cohortSize: 0 })).toThrow(RangeError);
+    expect(() => simulateCohort({ ...options, renewalRates: [] })).toThrow(RangeError);
+    expect(() => simulateCohort({ ...options, renewalRates: [1.5] })).toThrow(RangeError);
+  });
+});
@@ -0,0 +1,310 @@
+/**
+ * Cohort simulation for Fibonacci Billing
+ *
+ * Follows a cohort of customers who sign up together through the term
+ * sequence, with a chance of churning at each renewal, to forecast revenue,
+ * monthly cash flow, lifetime value and the refunds owed if active customers
+ * cancelled. Deterministic mode uses expected customer counts; Monte Carlo
+ * mode averages seeded random runs and reports the spread of lifetime value.
+ */
+
+import {
+  CalendarBillingCycleInfo,
+  CohortForecast,
+  CohortForecastCycle,
+  CohortForecastMonth,
+  CohortSimulationMode,
+  CohortSimulationOptions,
+  LtvPercentiles,
+} from '../types';
+import FibonacciBilling from './fibonacci-billing';
+import { buildRevenueSchedule } from './revenue-recognition';
+import {
+  addMoney,
+  createMoney,
+  divideMoney,
+  multiplyMoney,
+  roundToInteger,
+  sumMoney,
+} from './money';
+
+/**
+ * Simulates a cohort of customers on a plan
+ * @param options - Plan, cohort size, renewal rates, start date and simulation mode
+ * @returns Expected revenue, cash flow, lifetime value and refund liability
+ */
+export function simulateCohort(options: CohortSimulationOptions): CohortForecast {
+  validateCohortOptions(options);
+
+  const mode: CohortSimulationMode = options.mode || 'deterministic';
+  const cycles = options.cycles === undefined ? 10 : options.cycles;
+  const billing = new FibonacciBilling(options.plan);
+  const schedule = billing.generateCalendarSchedule({
+    startDate: options.startDate,
+    timeZone: options.timeZone,
+    cycles,
+  });
+
+  if (mode === 'deterministic') {
+    return buildForecast(billing, schedule, getExpectedCustomers(options, cycles), options, mode);
+  }
+
+  const runs = options.runs === undefined ? 1000 : options.runs;
+  const random = mulberry32(options.seed === undefined ? 1 : options.seed);
+  const prices = schedule.map((item) => (item.tax ? item.tax.net : item.amounts.final).amount);
+  const totals: number[] = new Array(cycles).fill(0);
+  const ltvs: number[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const customers = simulateRun(options, cycles, random);
+    let revenue = 0;
+
+    customers.forEach((count, index) => {
+      totals[index] += count;
+      revenue += count * prices[index];
+    });
+    ltvs.push(revenue / options.cohortSize);
+  }
+
+  const forecast = buildForecast(
+    billing,
+    schedule,
+    totals.map((total) => total / runs),
+    options,
+    mode
+  );
+  forecast.ltvPercentiles = getLtvPercentiles(ltvs, forecast.currency, options);
+
+  return forecast;
+}
+
+/**
+ * Checks that cohort simulation options are usable
+ * @param options - Options to check
+ * @throws RangeError if a count or rate is out of range
+ */
+function validateCohortOptions(options: CohortSimulationOptions): void {
+  if (!Number.isInteger(options.cohortSize) || options.cohortSize < 1) {
+    throw new RangeError(`cohortSize must be a positive whole number, got ${options.cohortSize}`);
+  }
+
+  if (!options.renewalRates.length) {
+    throw new RangeError('At least one renewal rate is required');
+  }
+
+  options.renewalRates.forEach((rate) => {
+    if (!Number.isFinite(rate) || rate < 0 || rate > 1) {
+      throw new RangeError(`Renewal rates must be between 0 and 1, got ${rate}`);
+    }
+  });
+
+  if (options.cycles !== undefined && (!Number.isInteger(options.cycles) || options.cycles < 1)) {
+    throw new RangeError(`cycles must be a positive whole number, got ${options.cycles}`);
+  }
+
+  if (options.runs !== undefined && (!Number.isInteger(options.runs) || options.runs < 1)) {
+    throw new RangeError(`runs must be a positive whole number, got ${options.runs}`);
+  }
+
+  if (options.mode !== undefined && !['deterministic', 'monte-carlo'].includes(options.mode)) {
+    throw new Error(`Unknown cohort simulation mode: ${options.mode}`);
+  }
+}
+
+/**
+ * Gets the renewal rate after a term
+ * @param options - Simulation options
+ * @param index - Term that is ending (0-indexed)
+ * @returns Probability of renewing into the next term
+ */
+function getRenewalRate(options: CohortSimulationOptions, index: number): number {
+  const rates = options.renewalRates;
+  return rates[Math.min(index, rates.length - 1)];
+}
+
+/**
+ * Calculates the expected number of customers paying for each term
+ * @param options - Simulation options
+ * @param cycles - Number of terms
+ * @returns Expected customers per term
+ */
+function getExpectedCustomers(options: CohortSimulationOptions, cycles: number): number[] {
+  const customers = [options.cohortSize];
+
+  for (let i = 1; i < cycles; i++) {
+    customers.push(customers[i - 1] * getRenewalRate(options, i - 1));
+  }
+
+  return customers;
+}
+
+/**
+ * Simulates one run, deciding at random whether each customer renews
+ * @param options - Simulation options
+ * @param cycles - Number of terms
+ * @param random - Random number generator returning values in [0, 1)
+ * @returns Customers paying for each term
+ */
+function simulateRun(
+  options: CohortSimulationOptions,
+  cycles: number,
+  random: () => number
+): number[] {
+  const customers = [options.cohortSize];
+
+  for (let i = 1; i < cycles; i++) {
+    const rate = getRenewalRate(options, i - 1);
+    let renewed = 0;
+
+    for (let c = 0; c < customers[i - 1]; c++) {
+      if (random() < rate) {
+        renewed++;
+      }
+    }
+    customers.push(renewed);
+  }
+
+  return customers;
+}
+
+/**
+ * Builds a forecast from the number of customers paying for each term
+ * @param billing - Plan being simulated
+ * @param schedule - Calendar schedule of the plan
+ * @param customers - Customers per term
+ * @param options - Simulation options
+ * @param mode - Simulation mode
+ * @returns Cohort forecast
+ */
+function buildForecast(
+  billing: FibonacciBilling,
+  schedule: CalendarBillingCycleInfo[],
+  customers: number[],
+  options: CohortSimulationOptions,
+  mode: CohortSimulationMode
+): CohortForecast {
+  const roundingMode = options.plan.roundingMode;
+  const currency = billing.getCurrency();
+
+  const cycles: CohortForecastCycle[] = schedule.map((item, index) => {
+    const pricePerCustomer = item.tax ? item.tax.net : item.amounts.final;
+
+    return {
+      cycle: item.cycle,
+      termMonths: item.termMonths,
+      chargeDate: item.chargeDate,
+      customers: customers[index],
+      pricePerCustomer,
+      revenue: multiplyMoney(pricePerCustomer, customers[index], roundingMode),
+    };
+  });
+
+  const revenue = buildRevenueSchedule({
+    entries: cycles.map((cycle, index) => ({
+      id: `cycle-${cycle.cycle}`,
+      amount: cycle.revenue,
+      chargeDate: cycle.chargeDate,
+      periodStart: schedule[index].periodStart,
+      periodEnd: schedule[index].periodEnd,
+    })),
+    timeZone: options.timeZone,
+    roundingMode,
+  });
+
+  const months: CohortForecastMonth[] = revenue.periods.map((period) => {
+    const monthStart = period.periodStart.getTime();
+    const monthEnd = period.periodEnd.getTime();
+    let activeCustomers = 0;
+    let cashCollected = createMoney(0, currency);
+    let refundLiability = createMoney(0, currency);
+
+    schedule.forEach((item, index) => {
+      const chargeTime = item.chargeDate.getTime();
+      if (chargeTime >= monthStart && chargeTime < monthEnd) {
+        const paid = item.tax ? item.tax.gross : item.amounts.final;
+        cashCollected = addMoney(
+          cashCollected,
+          multiplyMoney(paid, customers[index], roundingMode)
+        );
+      }
+
+      // Customers whose term runs through the end of the month could still cancel it
+      if (item.periodStart.getTime() < monthEnd && monthEnd <= item.periodEnd.getTime()) {
+        const refund = billing.calculateRefund({
+          cycle: index,
+          periodStart: item.periodStart,
+          periodEnd: item.periodEnd,
+          cancelDate: period.periodEnd,
+        });
+
+        activeCustomers += customers[index];
+        refundLiability = addMoney(
+          refundLiability,
+          multiplyMoney(refund.refundAmount, customers[index], roundingMode)
+        );
+      }
+    });
+
+    return {
+      month: period.month,
+      activeCustomers,
+      cashCollected,
+      recognizedRevenue: period.recognized,
+      deferredRevenue: period.deferredBalance,
+      refundLiability,
+    };
+  });
+
+  const expectedRevenue = sumMoney(
+    cycles.map((cycle) => cycle.revenue),
+    currency
+  );
+
+  return {
+    mode,
+    currency,
+    cohortSize: options.cohortSize,
+    cycles,
+    months,
+    expectedRevenue,
+    ltv: divideMoney(expectedRevenue, options.cohortSize, roundingMode),
+  };
+}
+
+/**
+ * Gets the 10th, 50th and 90th percentiles of lifetime value across runs
+ * @param ltvs - Lifetime value of each run in minor units
+ * @param currency - ISO 4217 currency code
+ * @param options - Simulation options
+ * @returns Nearest-rank percentiles
+ */
+function getLtvPercentiles(
+  ltvs: number[],
+  currency: string,
+  options: CohortSimulationOptions
+): LtvPercentiles {
+  const sorted = [...ltvs].sort((a, b) => a - b);
+  const percentile = (q: number) => {
+    const value = sorted[Math.max(Math.ceil(q * sorted.length) - 1, 0)];
+    return createMoney(roundToInteger(value, options.plan.roundingMode), currency);
+  };
+
+  return { p10: percentile(0.1), p50: percentile(0.5), p90: percentile(0.9) };
+}
+
+/**
+ * Creates a seeded mulberry32 random number generator, so Monte Carlo runs
+ * are reproducible
+ * @param seed - 32-bit seed
+ * @returns Function returning values in [0, 1)
+ */
+function mulberry32(seed: number): () => number {
+  let state = seed | 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
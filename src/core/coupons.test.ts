@@ -0,0 +1,126 @@
+import FibonacciBilling from './fibonacci-billing';
+import { applyCoupons, isCouponEligible, validateCoupon } from './coupons';
+import { createMoney } from './money';
+import { Coupon } from '../types';
+
+const finals = (billing: FibonacciBilling, cycles: number) =>
+  billing.generateBillingSchedule(cycles).map((item) => item.amounts.final.amount);
+
+describe('coupons', () => {
+  it('should take 20% off the first term only', () => {
+    const billing = new FibonacciBilling({
+      coupons: [{ id: 'WELCOME20', type: 'percent', value: 0.2, duration: 'once' }],
+    });
+    const [first, second] = billing.generateBillingSchedule(2);
+
+    expect(first.amounts.subtotal.amount).toBe(1000);
+    expect(first.amounts.final.amount).toBe(800);
+    expect(first.coupons).toEqual([
+      {
+        couponId: 'WELCOME20',
+        description: 'WELCOME20 (20% off)',
+        amount: { amount: 200, currency: 'USD' },
+        replacedTermDiscount: false,
+      },
+    ]);
+    expect(second.coupons).toEqual([]);
+    expect(second.amounts.final.amount).toBe(1900);
+  });
+
+  it('should take $50 off any term of 8 months or more', () => {
+    const billing = new FibonacciBilling({
+      coupons: [
+        {
+          id: 'LONG50',
+          type: 'fixed',
+          value: 50,
+          duration: 'forever',
+          eligibility: { minTermMonths: 8 },
+        },
+      ],
+    });
+
+    // The 8- and 13-month terms cost $52 and $65 after the term discount
+    expect(finals(billing, 6)).toEqual([1000, 1900, 2700, 4000, 200, 1500]);
+  });
+
+  it('should count repeating coupons from the first eligible cycle', () => {
+    const billing = new FibonacciBilling({
+      coupons: [
+        {
+          id: 'TEN',
+          type: 'fixed',
+          value: 10,
+          duration: 'repeating',
+          durationInCycles: 2,
+          eligibility: { minCycle: 3 },
+        },
+      ],
+    });
+
+    expect(finals(billing, 5)).toEqual([1000, 1900, 1700, 3000, 5200]);
+  });
+
+  it('should replace the term discount only when a best-of coupon saves more', () => {
+    const billing = new FibonacciBilling({
+      coupons: [
+        { id: 'FLAT30', type: 'percent', value: 0.3, duration: 'forever', stacking: 'best-of' },
+      ],
+    });
+    const schedule = billing.generateBillingSchedule(5);
+
+    expect(schedule[0].amounts.final.amount).toBe(700);
+    expect(schedule[0].coupons?.[0].replacedTermDiscount).toBe(true);
+    expect(schedule[0].discount).toBe(0);
+
+    // 35% term discount beats the coupon on the 8-month term
+    expect(schedule[4].amounts.final.amount).toBe(5200);
+    expect(schedule[4].coupons).toEqual([]);
+    expect(schedule[4].discount).toBe(35);
+  });
+
+  it('should compound coupons in order without going below zero', () => {
+    const coupons: Coupon[] = [
+      { id: 'TENPCT', type: 'percent', value: 0.1, duration: 'forever' },
+      { id: 'FIVE', type: 'fixed', value: 5, duration: 'forever' },
+      { id: 'HUNDRED', type: 'fixed', value: 100, duration: 'forever' },
+    ];
+    const usd = (amount: number) => createMoney(amount, 'USD');
+    const result = applyCoupons(coupons, usd(1000), usd(1000));
+
+    expect(result.lineItems.map((item) => item.amount.amount)).toEqual([100, 500, 400]);
+    expect(result.final.amount).toBe(0);
+  });
+
+  it('should include coupons in the billing summary savings', () => {
+    const billing = new FibonacciBilling({
+      coupons: [{ id: 'WELCOME20', type: 'percent', value: 0.2, duration: 'once' }],
+    });
+    const summary = billing.getBillingSummary(2);
+
+    expect(summary.amounts.total.amount).toBe(2700);
+    expect(summary.amounts.totalSavings.amount).toBe(300);
+  });
+
+  it('should check eligibility and reject invalid coupons', () => {
+    const coupon: Coupon = {
+      id: 'MID',
+      type: 'percent',
+      value: 0.1,
+      duration: 'forever',
+      eligibility: { minCycle: 2, maxCycle: 4, maxTermMonths: 3 },
+    };
+
+    expect([1, 2, 3].map((cycle) => isCouponEligible(coupon, cycle, cycle))).toEqual([
+      false,
+      true,
+      true,
+    ]);
+    expect(isCouponEligible(coupon, 4, 5)).toBe(false);
+    expect(() => validateCoupon({ ...coupon, value: 1.5 })).toThrow();
+    expect(() => validateCoupon({ ...coupon, duration: 'repeating' })).toThrow();
+    expect(
+      () => new FibonacciBilling({ coupons: [{ ...coupon, type: 'fixed', value: -1 }] })
+    ).toThrow();
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Coupons for Fibonacci Billing
+ *
+ * Coupons are applied after the plan's term discount. 'compound' coupons take
+ * their cut from what is left after the term discount; 'best-of' coupons
+ * replace the term discount when they save more than it does.
+ */
+
+import { Coupon, CouponApplication, CouponLineItem, Money, RoundingMode } from '../types';
+import { createMoney, multiplyMoney, subtractMoney, toMinorUnits } from './money';
+
+/**
+ * Checks that a coupon definition is usable
+ * @param coupon - Coupon to check
+ * @throws Error if the coupon is invalid
+ */
+export function validateCoupon(coupon: Coupon): void {
+  if (!coupon.id) {
+    throw new Error('Coupon id is required');
+  }
+
+  if (coupon.type === 'percent') {
+    if (!Number.isFinite(coupon.value) || coupon.value < 0 || coupon.value > 1) {
+      throw new Error(
+        `Percent coupon ${coupon.id} must have a value between 0 and 1, got ${coupon.value}`
+      );
+    }
+  } else if (coupon.type === 'fixed') {
+    if (!Number.isFinite(coupon.value) || coupon.value < 0) {
+      throw new Error(
+        `Fixed coupon ${coupon.id} must have a non-negative value, got ${coupon.value}`
+      );
+    }
+  } else {
+    throw new Error(`Unknown coupon type for ${coupon.id}: ${coupon.type}`);
+  }
+
+  if (
+    coupon.duration === 'repeating' &&
+    (!Number.isInteger(coupon.durationInCycles) || (coupon.durationInCycles as number) < 1)
+  ) {
+    throw new Error(`Repeating coupon ${coupon.id} needs a positive whole durationInCycles`);
+  }
+}
+
+/**
+ * Checks whether a coupon's eligibility rules allow it on a cycle
+ * @param coupon - Coupon to check
+ * @param cycle - Billing cycle (1-indexed)
+ * @param termMonths - Term length of the cycle in months
+ * @returns Whether the cycle is eligible
+ */
+export function isCouponEligible(coupon: Coupon, cycle: number, termMonths: number): boolean {
+  const rules = coupon.eligibility || {};
+
+  return (
+    (rules.minCycle === undefined || cycle >= rules.minCycle) &&
+    (rules.maxCycle === undefined || cycle <= rules.maxCycle) &&
+    (rules.minTermMonths === undefined || termMonths >= rules.minTermMonths) &&
+    (rules.maxTermMonths === undefined || termMonths <= rules.maxTermMonths)
+  );
+}
+
+/**
+ * Gets the number of eligible cycles a coupon lasts for
+ * @param coupon - Coupon definition
+ * @returns Number of eligible cycles (Infinity for 'forever')
+ */
+export function getCouponCycleLimit(coupon: Coupon): number {
+  switch (coupon.duration) {
+    case 'once':
+      return 1;
+    case 'repeating':
+      return coupon.durationInCycles as number;
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * Calculates how much a coupon takes off an amount, never more than the amount
+ * @param coupon - Coupon to apply
+ * @param amount - Amount the coupon applies to
+ * @param roundingMode - Rounding mode for percent coupons
+ * @returns Amount taken off
+ */
+export function getCouponAmount(coupon: Coupon, amount: Money, roundingMode?: RoundingMode): Money {
+  const off =
+    coupon.type === 'percent'
+      ? multiplyMoney(amount, coupon.value, roundingMode)
+      : toMinorUnits(coupon.value, amount.currency, roundingMode);
+
+  return createMoney(Math.min(Math.max(off.amount, 0), amount.amount), amount.currency);
+}
+
+/**
+ * Applies coupons to a term. At most one 'best-of' coupon is used (the one
+ * saving the most), and only if it beats the term discount; 'compound' coupons
+ * then apply in order to the running amount.
+ * @param coupons - Coupons active on the term
+ * @param base - Amount before any discount
+ * @param discounted - Amount after the term discount
+ * @param roundingMode - Rounding mode for percent coupons
+ * @returns Amounts and line items after coupons
+ */
+export function applyCoupons(
+  coupons: Coupon[],
+  base: Money,
+  discounted: Money,
+  roundingMode?: RoundingMode
+): CouponApplication {
+  const lineItems: CouponLineItem[] = [];
+  let subtotal = discounted;
+  let termDiscountReplaced = false;
+
+  let running = discounted;
+  let best: { coupon: Coupon; amount: Money } | undefined;
+
+  for (const coupon of coupons) {
+    if (coupon.stacking === 'best-of') {
+      const amount = getCouponAmount(coupon, base, roundingMode);
+      if (!best || amount.amount > best.amount.amount) {
+        best = { coupon, amount };
+      }
+    }
+  }
+
+  if (best && best.amount.amount > base.amount - discounted.amount) {
+    subtotal = base;
+    running = subtractMoney(base, best.amount);
+    termDiscountReplaced = true;
+    lineItems.push(buildLineItem(best.coupon, best.amount, true));
+  }
+
+  coupons
+    .filter((coupon) => coupon.stacking !== 'best-of')
+    .forEach((coupon) => {
+      const amount = getCouponAmount(coupon, running, roundingMode);
+      running = subtractMoney(running, amount);
+      lineItems.push(buildLineItem(coupon, amount, false));
+    });
+
+  return { subtotal, final: running, termDiscountReplaced, lineItems };
+}
+
+/**
+ * Builds the schedule line for a coupon
+ * @param coupon - Coupon applied
+ * @param amount - Amount taken off
+ * @param replacedTermDiscount - Whether the coupon replaced the term discount
+ * @returns Coupon line item
+ */
+function buildLineItem(
+  coupon: Coupon,
+  amount: Money,
+  replacedTermDiscount: boolean
+): CouponLineItem {
+  const label = coupon.name || coupon.id;
+  const off =
+    coupon.type === 'percent'
+      ? `${parseFloat((coupon.value * 100).toFixed(2))}% off`
+      : `${coupon.value} ${amount.currency} off`;
+
+  return {
+    couponId: coupon.id,
+    description: `${label} (${off}${replacedTermDiscount ? ', instead of term discount' : ''})`,
+    amount,
+    replacedTermDiscount,
+  };
+}
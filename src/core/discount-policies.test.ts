@@ -0,0 +1,78 @@
+import FibonacciBilling from './fibonacci-billing';
+import {
+  LinearDiscountPolicy,
+  SteppedDiscountPolicy,
+  CycleTableDiscountPolicy,
+  ExponentialDecayDiscountPolicy,
+} from './discount-policies';
+
+const context = (termMonths: number, cycle = 0, basePrice = 10) => ({
+  cycle,
+  termMonths,
+  basePrice,
+});
+
+describe('discount policies', () => {
+  describe('LinearDiscountPolicy', () => {
+    it('should grow linearly up to the ceiling', () => {
+      const policy = new LinearDiscountPolicy({ rate: 0.05, ceiling: 0.3 });
+      expect(policy.discountFor(context(1))).toBe(0);
+      expect(policy.discountFor(context(5))).toBeCloseTo(0.2);
+      expect(policy.discountFor(context(13))).toBe(0.3);
+    });
+
+    it('should default the ceiling to 50%', () => {
+      const policy = new LinearDiscountPolicy({ rate: 0.1 });
+      expect(policy.discountFor(context(21))).toBe(0.5);
+    });
+  });
+
+  describe('SteppedDiscountPolicy', () => {
+    it('should pick the highest tier reached by the term length', () => {
+      const policy = new SteppedDiscountPolicy([
+        { minTermMonths: 13, discount: 0.25 },
+        { minTermMonths: 5, discount: 0.1 },
+      ]);
+      expect(policy.discountFor(context(3))).toBe(0);
+      expect(policy.discountFor(context(8))).toBe(0.1);
+      expect(policy.discountFor(context(21))).toBe(0.25);
+    });
+  });
+
+  describe('CycleTableDiscountPolicy', () => {
+    it('should look up discounts by cycle and repeat the last entry', () => {
+      const policy = new CycleTableDiscountPolicy([0, 0.05, 0.15]);
+      expect(policy.discountFor(context(2, 1))).toBe(0.05);
+      expect(policy.discountFor(context(34, 7))).toBe(0.15);
+    });
+
+    it('should reject discounts outside 0-1', () => {
+      expect(() => new CycleTableDiscountPolicy([1.5])).toThrow();
+    });
+  });
+
+  describe('ExponentialDecayDiscountPolicy', () => {
+    it('should decay the monthly rate towards the floor price', () => {
+      const policy = new ExponentialDecayDiscountPolicy({ floorPrice: 6, decayRate: 0.2 });
+      expect(policy.discountFor(context(1))).toBe(0);
+      expect(policy.discountFor(context(144))).toBeCloseTo(0.4);
+      expect(policy.discountFor(context(5))).toBeLessThan(policy.discountFor(context(8)));
+    });
+  });
+
+  it('should be selectable through FibonacciBillingOptions', () => {
+    const billing = new FibonacciBilling({
+      basePrice: 20,
+      discountPolicy: new SteppedDiscountPolicy([{ minTermMonths: 5, discount: 0.1 }]),
+    });
+
+    expect(billing.calculateNextBilling(2).discount).toBe(0);
+    expect(billing.calculateNextBilling(3).discount).toBe(10);
+    expect(billing.calculateNextBilling(3).finalAmount).toBe(90);
+  });
+
+  it('should keep the linear 50% ceiling by default', () => {
+    const billing = new FibonacciBilling({ basePrice: 20, discountRate: 0.1 });
+    expect(billing.calculateNextBilling(7).discount).toBe(50);
+  });
+});
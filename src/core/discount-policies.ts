@@ -0,0 +1,201 @@
+/**
+ * Discount policies for Fibonacci Billing
+ *
+ * A discount policy decides how much of the base price is taken off a term.
+ * Any strategy implementing `DiscountPolicy` can be plugged into
+ * `FibonacciBilling`.
+ */
+
+import {
+  DiscountContext,
+  DiscountPolicy,
+  DiscountPolicyDefinition,
+  DiscountTier,
+  ExponentialDecayDiscountPolicyOptions,
+  LinearDiscountPolicyOptions,
+} from '../types';
+
+/**
+ * Discount grows by a fixed rate per month beyond the first, up to a ceiling
+ */
+export class LinearDiscountPolicy implements DiscountPolicy {
+  readonly name = 'linear';
+  private rate: number;
+  private ceiling: number;
+
+  /**
+   * Creates a new linear discount policy
+   * @param options - Rate and ceiling
+   */
+  constructor(options: LinearDiscountPolicyOptions) {
+    assertFraction('rate', options.rate);
+    const ceiling = options.ceiling === undefined ? 0.5 : options.ceiling;
+    assertFraction('ceiling', ceiling);
+    this.rate = options.rate;
+    this.ceiling = ceiling;
+  }
+
+  /**
+   * Gets the discount for a term
+   * @param context - Term being priced
+   * @returns Discount as a fraction (0-1)
+   */
+  discountFor(context: DiscountContext): number {
+    return Math.min(this.rate * Math.max(context.termMonths - 1, 0), this.ceiling);
+  }
+
+  /**
+   * Describes the policy for a plan definition
+   * @returns Discount policy definition
+   */
+  toJSON(): DiscountPolicyDefinition {
+    return { type: 'linear', rate: this.rate, ceiling: this.ceiling };
+  }
+}
+
+/**
+ * Fixed discounts by term length, e.g. 10% from 5 months and 20% from 13
+ */
+export class SteppedDiscountPolicy implements DiscountPolicy {
+  readonly name = 'stepped';
+  private tiers: DiscountTier[];
+
+  /**
+   * Creates a new stepped discount policy
+   * @param tiers - Discount tiers; terms below every tier get no discount
+   */
+  constructor(tiers: DiscountTier[]) {
+    tiers.forEach((tier) => {
+      if (!Number.isFinite(tier.minTermMonths) || tier.minTermMonths < 1) {
+        throw new Error(`Tier minTermMonths must be at least 1, got ${tier.minTermMonths}`);
+      }
+      assertFraction('tier discount', tier.discount);
+    });
+    this.tiers = [...tiers].sort((a, b) => a.minTermMonths - b.minTermMonths);
+  }
+
+  /**
+   * Gets the discount for a term
+   * @param context - Term being priced
+   * @returns Discount as a fraction (0-1)
+   */
+  discountFor(context: DiscountContext): number {
+    let discount = 0;
+    for (const tier of this.tiers) {
+      if (context.termMonths >= tier.minTermMonths) {
+        discount = tier.discount;
+      }
+    }
+    return discount;
+  }
+
+  /**
+   * Describes the policy for a plan definition
+   * @returns Discount policy definition
+   */
+  toJSON(): DiscountPolicyDefinition {
+    return {
+      type: 'stepped',
+      tiers: this.tiers.map((tier) => ({ ...tier })),
+    };
+  }
+}
+
+/**
+ * Explicit discount per cycle. Cycles past the end of the table repeat the last entry.
+ */
+export class CycleTableDiscountPolicy implements DiscountPolicy {
+  readonly name = 'cycle-table';
+  private discounts: number[];
+
+  /**
+   * Creates a new cycle table discount policy
+   * @param discounts - Discount for each cycle (0-indexed)
+   */
+  constructor(discounts: number[]) {
+    if (!discounts.length) {
+      throw new Error('Cycle discount table requires at least one entry');
+    }
+    discounts.forEach((discount) => assertFraction('cycle discount', discount));
+    this.discounts = [...discounts];
+  }
+
+  /**
+   * Gets the discount for a term
+   * @param context - Term being priced
+   * @returns Discount as a fraction (0-1)
+   */
+  discountFor(context: DiscountContext): number {
+    return this.discounts[Math.min(Math.max(context.cycle, 0), this.discounts.length - 1)];
+  }
+
+  /**
+   * Describes the policy for a plan definition
+   * @returns Discount policy definition
+   */
+  toJSON(): DiscountPolicyDefinition {
+    return { type: 'cycle-table', discounts: [...this.discounts] };
+  }
+}
+
+/**
+ * Effective monthly rate decays exponentially from the base price towards a floor price
+ */
+export class ExponentialDecayDiscountPolicy implements DiscountPolicy {
+  readonly name = 'exponential-decay';
+  private floorPrice: number;
+  private decayRate: number;
+
+  /**
+   * Creates a new exponential decay discount policy
+   * @param options - Floor price and decay rate
+   */
+  constructor(options: ExponentialDecayDiscountPolicyOptions) {
+    if (!Number.isFinite(options.floorPrice) || options.floorPrice < 0) {
+      throw new Error(`floorPrice must be a non-negative number, got ${options.floorPrice}`);
+    }
+    if (!Number.isFinite(options.decayRate) || options.decayRate < 0) {
+      throw new Error(`decayRate must be a non-negative number, got ${options.decayRate}`);
+    }
+    this.floorPrice = options.floorPrice;
+    this.decayRate = options.decayRate;
+  }
+
+  /**
+   * Gets the discount for a term
+   * @param context - Term being priced
+   * @returns Discount as a fraction (0-1)
+   */
+  discountFor(context: DiscountContext): number {
+    if (context.basePrice <= this.floorPrice) {
+      return 0;
+    }
+
+    const decay = Math.exp(-this.decayRate * Math.max(context.termMonths - 1, 0));
+    const monthlyRate = this.floorPrice + (context.basePrice - this.floorPrice) * decay;
+    return 1 - monthlyRate / context.basePrice;
+  }
+
+  /**
+   * Describes the policy for a plan definition
+   * @returns Discount policy definition
+   */
+  toJSON(): DiscountPolicyDefinition {
+    return {
+      type: 'exponential-decay',
+      floorPrice: this.floorPrice,
+      decayRate: this.decayRate,
+    };
+  }
+}
+
+/**
+ * Ensures a value is a fraction between 0 and 1
+ * @param label - Name used in the error message
+ * @param value - Value to check
+ */
+function assertFraction(label: string, value: number): void {
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error(`Discount ${label} must be between 0 and 1, got ${value}`);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Error types for Fibonacci Billing
+ */
+
+import { BillingOptionsIssue } from '../types';
+
+/**
+ * Thrown when a term length no longer fits in a safe JavaScript integer
+ */
+export class TermOverflowError extends Error {
+  /**
+   * Position in the sequence that overflowed (0-indexed)
+   */
+  readonly index: number;
+
+  /**
+   * Creates a new term overflow error
+   * @param sequenceName - Name of the sequence that overflowed
+   * @param index - Position in the sequence that overflowed
+   */
+  constructor(sequenceName: string, index: number) {
+    super(
+      `Term ${index} of the ${sequenceName} sequence exceeds Number.MAX_SAFE_INTEGER; ` +
+        'cap the term length or use a slower-growing sequence'
+    );
+    this.name = 'TermOverflowError';
+    this.index = index;
+  }
+}
+
+/**
+ * Thrown when billing options are invalid, listing every problem found
+ */
+export class InvalidBillingOptionsError extends Error {
+  /**
+   * Problems found, one per offending option
+   */
+  readonly issues: BillingOptionsIssue[];
+
+  /**
+   * Creates a new invalid billing options error
+   * @param issues - Problems found
+   */
+  constructor(issues: BillingOptionsIssue[]) {
+    super(`Invalid billing options: ${issues.map((issue) => issue.message).join('; ')}`);
+    this.name = 'InvalidBillingOptionsError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when a plan definition does not match the plan definition schema or
+ * describes invalid billing options, listing every problem found
+ */
+export class InvalidPlanDefinitionError extends Error {
+  /**
+   * Problems found, one per offending field
+   */
+  readonly issues: BillingOptionsIssue[];
+
+  /**
+   * Creates a new invalid plan definition error
+   * @param issues - Problems found
+   */
+  constructor(issues: BillingOptionsIssue[]) {
+    super(`Invalid plan definition: ${issues.map((issue) => issue.message).join('; ')}`);
+    this.name = 'InvalidPlanDefinitionError';
+    this.issues = issues;
+  }
+}
@@ -1,4 +1,5 @@
 import FibonacciBilling from './fibonacci-billing';
+import { TermOverflowError } from './errors';
 
 describe('FibonacciBilling', () => {
   describe('constructor', () => {
@@ -48,6 +49,24 @@ describe('FibonacciBilling', () => {
       expect(billing.getNextTerm(4)).toBe(6); // Would be 8, but capped at 6
       expect(billing.getNextTerm(5)).toBe(6); // Would be 13, but capped at 6
     });
+
+    it('should return correct terms regardless of lookup order', () => {
+      const billing = new FibonacciBilling();
+      expect(billing.getNextTerm(20)).toBe(17711);
+      expect(billing.getNextTerm(6)).toBe(21);
+      expect(new FibonacciBilling().getNextTerm(6)).toBe(21);
+    });
+
+    it('should throw once an uncapped term exceeds the safe integer range', () => {
+      const billing = new FibonacciBilling();
+      expect(billing.getNextTerm(76)).toBe(8944394323791464);
+      expect(() => billing.getNextTerm(77)).toThrow(TermOverflowError);
+    });
+
+    it('should keep returning the cap past the safe integer range', () => {
+      const billing = new FibonacciBilling({ capTerm: true, maxTerm: 24 });
+      expect(billing.getNextTerm(5000)).toBe(24);
+    });
   });
 
   describe('calculateNextBilling', () => {
@@ -96,6 +115,161 @@ describe('FibonacciBilling', () => {
       expect(schedule[1].cycle).toBe(2);
       expect(schedule[2].cycle).toBe(3);
     });
+
+    it('should generate long capped schedules quickly', () => {
+      const billing = new FibonacciBilling({ capTerm: true, maxTerm: 12 });
+      const started = Date.now();
+      const schedule = billing.generateBillingSchedule(5000);
+
+      expect(schedule.length).toBe(5000);
+      expect(schedule[4999].termMonths).toBe(12);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+  });
+
+  describe('trials', () => {
+    it('should charge the intro price for the first term only', () => {
+      const billing = new FibonacciBilling({ basePrice: 10, trial: { introPrice: 5 } });
+      const [first, second] = billing.generateBillingSchedule(2);
+
+      expect(first.amounts.final.amount).toBe(500);
+      expect(first.discount).toBe(50);
+      expect(first.introductory).toBe(true);
+      expect(second.amounts.final.amount).toBe(1900);
+      expect(second.introductory).toBeUndefined();
+    });
+
+    it('should start the first billing period when the free trial ends', () => {
+      const billing = new FibonacciBilling({ trial: { days: 14 } });
+      const [first] = billing.generateCalendarSchedule({ startDate: '2024-01-25', cycles: 1 });
+
+      expect(billing.getTrialDays()).toBe(14);
+      expect(first.periodStart.toISOString()).toBe('2024-02-08T00:00:00.000Z');
+      expect(first.periodEnd.toISOString()).toBe('2024-03-08T00:00:00.000Z');
+    });
+
+    it('should reject invalid trial settings', () => {
+      expect(() => new FibonacciBilling({ trial: { days: 1.5 } })).toThrow();
+      expect(() => new FibonacciBilling({ trial: { introPrice: -1 } })).toThrow();
+    });
+  });
+
+  describe('calculateTermChange', () => {
+    it('should step back to a shorter term, keeping or reverting the earned discount', () => {
+      const billing = new FibonacciBilling({ basePrice: 10 });
+
+      const kept = billing.calculateTermChange({ cycle: 4, progression: 'step-down' });
+      expect(kept.termMonths).toBe(5);
+      expect(kept.discount).toBe(35);
+      expect(kept.amounts.final.amount).toBe(3250);
+      expect(kept.discountCycle).toBe(5);
+
+      const reverted = billing.calculateTermChange({
+        cycle: 4,
+        progression: 'step-down',
+        discount: 'revert',
+      });
+      expect(reverted.discount).toBe(20);
+      expect(reverted.amounts.final.amount).toBe(4000);
+      expect(reverted.discountCycle).toBeUndefined();
+    });
+
+    it('should carry a kept discount until the sequence catches up', () => {
+      const billing = new FibonacciBilling({ basePrice: 10 });
+
+      const held = billing.calculateTermChange({ cycle: 3, discountCycle: 4, progression: 'hold' });
+      expect(held.termMonths).toBe(5);
+      expect(held.discount).toBe(35);
+      expect(held.discountCycle).toBe(5);
+
+      const advanced = billing.calculateTermChange({ cycle: 3, discountCycle: 4 });
+      expect(advanced).toEqual(billing.calculateNextBilling(4));
+    });
+
+    it('should never repeat the intro price and reject invalid steps', () => {
+      const billing = new FibonacciBilling({ basePrice: 10, trial: { introPrice: 1 } });
+      const first = billing.calculateTermChange({ cycle: 4, progression: 'step-down', steps: 10 });
+
+      expect(first.cycle).toBe(1);
+      expect(first.introductory).toBeUndefined();
+      expect(first.amounts.final.amount).toBe(650);
+      expect(() =>
+        billing.calculateTermChange({ cycle: 4, progression: 'step-down', steps: 0 })
+      ).toThrow('steps must be a positive whole number, got 0');
+    });
+  });
+
+  describe('pause and resume', () => {
+    it('should credit the unused part of the paused term', () => {
+      const billing = new FibonacciBilling({ basePrice: 10 });
+      const pause = billing.calculatePause({
+        cycle: 2,
+        periodStart: new Date('2024-01-01T00:00:00Z'),
+        periodEnd: new Date('2024-04-01T00:00:00Z'),
+        pauseDate: new Date('2024-02-01T00:00:00Z'),
+      });
+
+      expect(pause.billing.termMonths).toBe(3);
+      expect(pause.billing.amounts.final.amount).toBe(2700);
+      expect(pause.remainingFraction).toBeCloseTo(60 / 91);
+      expect(pause.unusedCredit.amount).toBe(1780);
+      expect(pause.amountDueOnResume.amount).toBe(920);
+      expect(pause.resumePeriod).toBeUndefined();
+    });
+
+    it('should restart the same term from the resume date', () => {
+      const billing = new FibonacciBilling({ basePrice: 10 });
+      const pause = billing.calculatePause({
+        cycle: 2,
+        periodStart: new Date('2024-01-01T00:00:00Z'),
+        periodEnd: new Date('2024-04-01T00:00:00Z'),
+        pauseDate: new Date('2024-02-01T00:00:00Z'),
+        resumeDate: new Date('2024-03-15T00:00:00Z'),
+      });
+
+      expect(pause.resumePeriod?.periodStart.toISOString()).toBe('2024-03-15T00:00:00.000Z');
+      expect(pause.resumePeriod?.periodEnd.toISOString()).toBe('2024-06-15T00:00:00.000Z');
+      expect(() =>
+        billing.calculatePause({
+          cycle: 2,
+          periodStart: new Date('2024-01-01T00:00:00Z'),
+          periodEnd: new Date('2024-04-01T00:00:00Z'),
+          pauseDate: new Date('2024-02-01T00:00:00Z'),
+          resumeDate: new Date('2024-01-15T00:00:00Z'),
+        })
+      ).toThrow(RangeError);
+    });
+
+    it('should not credit a renewed first term at the intro price', () => {
+      const billing = new FibonacciBilling({ basePrice: 10, trial: { introPrice: 1 } });
+      const request = {
+        cycle: 0,
+        periodStart: new Date('2024-01-01T00:00:00Z'),
+        periodEnd: new Date('2024-02-01T00:00:00Z'),
+        pauseDate: new Date('2024-01-16T00:00:00Z'),
+      };
+      const steppedDown = billing.calculateTermChange({ cycle: 1, progression: 'step-down' });
+      const renewed = billing.calculatePause({ ...request, renewed: true });
+
+      expect(billing.calculatePause(request).billing.introductory).toBe(true);
+      expect(billing.calculatePause({ ...request, discountCycle: 1 }).billing).toEqual(steppedDown);
+      expect(renewed.billing.introductory).toBeUndefined();
+      expect(renewed.billing.amounts.final.amount).toBe(1000);
+    });
+
+    it('should schedule from a later cycle without the trial', () => {
+      const billing = new FibonacciBilling({ basePrice: 10, trial: { days: 14 } });
+      const schedule = billing.generateCalendarSchedule({
+        startDate: '2024-01-31',
+        startCycle: 2,
+        cycles: 2,
+      });
+
+      expect(schedule.map((item) => item.termMonths)).toEqual([3, 5]);
+      expect(schedule[0].periodStart.toISOString()).toBe('2024-01-31T00:00:00.000Z');
+      expect(schedule[0].periodEnd.toISOString()).toBe('2024-04-30T00:00:00.000Z');
+      expect(schedule[1].periodEnd.toISOString()).toBe('2024-09-30T00:00:00.000Z');
+    });
   });
 
   describe('getBillingSummary', () => {
@@ -5,48 +5,233 @@
  * @license MIT
  */
 
-import { FibonacciBillingOptions, BillingCycleInfo, BillingSummary } from '../types';
+import {
+  FibonacciBillingOptions,
+  BillingCycleInfo,
+  BillingSummary,
+  CalendarBillingCycleInfo,
+  CalendarScheduleOptions,
+  TermSequence,
+  Money,
+  RoundingMode,
+  DiscountPolicy,
+  RefundBreakdown,
+  RefundPolicy,
+  RefundRequest,
+  TaxBreakdown,
+  TaxOptions,
+  Coupon,
+  TrialOptions,
+  SeatPricingOptions,
+  SeatChangeOptions,
+  ProrationResult,
+  TermPeriod,
+  UsageCharge,
+  UsageComponent,
+  UsageRecord,
+  PlanDefinition,
+  PauseRequest,
+  PauseResult,
+  TermChangeRequest,
+} from '../types';
+import { resolveTermSequence } from './term-sequences';
+import { TermOverflowError } from './errors';
+import { LinearDiscountPolicy } from './discount-policies';
+import { addDays, addMonths, fromZonedDateTime, toStartOfDay } from './calendar';
+import { NoRefundPolicy } from './refund-policies';
+import { calculateProration, getRemainingFraction } from './proration';
+import { TaxRateTable, calculateTax } from './tax';
+import { applyCoupons, getCouponCycleLimit, isCouponEligible } from './coupons';
+import { calculateSeatPrice } from './seats';
+import { calculateUsageCharge, getUsagePeriods } from './usage';
+import { assertValidBillingOptions } from './validation';
+import {
+  PLAN_DEFINITION_VERSION,
+  describeStrategy,
+  getUndescribedOptions,
+  parsePlanDefinition,
+} from './plan-definition';
+import {
+  toMinorUnits,
+  toMajorUnits,
+  subtractMoney,
+  multiplyMoney,
+  divideMoney,
+  sumMoney,
+} from './money';
 
 class FibonacciBilling {
+  private options: Partial<FibonacciBillingOptions>;
   private basePrice: number;
   private discountRate: number;
   private capTerm: boolean;
   private maxTerm: number;
-  private sequence: number[];
+  private sequence: TermSequence;
+  private currency: string;
+  private roundingMode: RoundingMode;
+  private discountPolicy: DiscountPolicy;
+  private refundPolicy: RefundPolicy;
+  private tax?: TaxOptions;
+  private taxRates?: TaxRateTable;
+  private coupons: Coupon[];
+  private trial: TrialOptions;
+  private quantity: number;
+  private seats?: SeatPricingOptions;
+  private usage: UsageComponent[];
 
   /**
    * Creates a new Fibonacci billing plan
    * @param options - Configuration options
    */
   constructor(options: Partial<FibonacciBillingOptions> = {}) {
-    this.basePrice = options.basePrice || 10;
-    this.discountRate = options.discountRate || 0.05;
-    this.capTerm = options.capTerm || false;
-    this.maxTerm = options.maxTerm || 0;
-    this.sequence = [1, 2, 3, 5, 8, 13, 21, 34, 55, 89, 144];
+    // Report every problem at once; explicit zeros are valid and kept below
+    assertValidBillingOptions(options);
+
+    this.options = options;
+    this.basePrice = options.basePrice ?? 10;
+    this.discountRate = options.discountRate ?? 0.05;
+    this.capTerm = options.capTerm ?? false;
+    this.maxTerm = options.maxTerm ?? 0;
+    this.sequence = resolveTermSequence(options.sequence);
+    this.currency = (options.currency ?? 'USD').toUpperCase();
+    this.roundingMode = options.roundingMode ?? 'half-up';
+    this.discountPolicy =
+      options.discountPolicy ?? new LinearDiscountPolicy({ rate: this.discountRate, ceiling: 0.5 });
+    this.refundPolicy = options.refundPolicy ?? new NoRefundPolicy();
+    this.tax = options.tax;
+    this.taxRates = options.tax ? new TaxRateTable(options.tax.rates) : undefined;
+    this.coupons = options.coupons ?? [];
+    this.trial = options.trial ?? {};
+    this.quantity = options.quantity ?? 1;
+    this.seats = options.seats;
+    this.usage = options.usage ?? [];
+  }
+
+  /**
+   * Gets the base price per month of one seat, before any discount
+   * @returns Base price in major units
+   */
+  getBasePrice(): number {
+    return this.basePrice;
+  }
+
+  /**
+   * Gets the currency all amounts are expressed in
+   * @returns ISO 4217 currency code
+   */
+  getCurrency(): string {
+    return this.currency;
+  }
+
+  /**
+   * Gets the number of free trial days before the first term
+   * @returns Trial length in days (0 without a trial)
+   */
+  getTrialDays(): number {
+    return this.trial.days || 0;
+  }
+
+  /**
+   * Gets the number of seats or units billed
+   * @returns Quantity
+   */
+  getQuantity(): number {
+    return this.quantity;
+  }
+
+  /**
+   * Creates a copy of this plan for a different number of seats
+   * @param quantity - Number of seats
+   * @returns Billing engine with the same options and the new quantity
+   */
+  withQuantity(quantity: number): FibonacciBilling {
+    return new FibonacciBilling({ ...this.options, quantity });
+  }
+
+  /**
+   * Creates a billing engine from a plan definition
+   * @param json - Plan definition, or its JSON text
+   * @returns Billing engine for the plan
+   * @throws InvalidPlanDefinitionError if the definition does not match the schema
+   */
+  static fromJSON(json: string | PlanDefinition): FibonacciBilling {
+    return new FibonacciBilling(parsePlanDefinition(json));
+  }
+
+  /**
+   * Describes the plan as a plan definition. The number of seats belongs to
+   * each subscription, so it is not part of the definition.
+   * @returns Plan definition
+   * @throws Error if the plan uses options or strategies a definition cannot describe
+   */
+  toJSON(): PlanDefinition {
+    const undescribed = getUndescribedOptions(this.options);
+    if (undescribed.length) {
+      throw new Error(`Plan definitions cannot describe these options: ${undescribed.join(', ')}`);
+    }
+
+    return {
+      schemaVersion: PLAN_DEFINITION_VERSION,
+      basePrice: this.basePrice,
+      currency: this.currency,
+      roundingMode: this.roundingMode,
+      sequence: describeStrategy(this.sequence, 'term sequence'),
+      discountPolicy: describeStrategy(this.discountPolicy, 'discount policy'),
+      ...(this.capTerm && this.maxTerm > 0 && { maxTerm: this.maxTerm }),
+    };
+  }
+
+  /**
+   * Gets the monthly price of all seats before any discount
+   * @returns Monthly price in the plan currency
+   */
+  getMonthlyPrice(): Money {
+    if (this.seats) {
+      return calculateSeatPrice(this.seats, this.quantity, this.currency, this.roundingMode);
+    }
+
+    return multiplyMoney(this.toMoney(this.basePrice), this.quantity);
+  }
+
+  /**
+   * Gets the metered usage components billed alongside the term
+   * @returns Usage components
+   */
+  getUsageComponents(): UsageComponent[] {
+    return [...this.usage];
+  }
+
+  /**
+   * Converts a major-unit amount (e.g. dollars) to money in the plan currency
+   * @param amount - Amount in major units
+   * @returns Money in minor units, rounded with the plan rounding mode
+   */
+  toMoney(amount: number): Money {
+    return toMinorUnits(amount, this.currency, this.roundingMode);
   }
 
   /**
    * Gets the next billing term in months
    * @param currentCycle - The current billing cycle (0-indexed)
    * @returns The next billing term in months
+   * @throws TermOverflowError if an uncapped term exceeds Number.MAX_SAFE_INTEGER
    */
   getNextTerm(currentCycle: number): number {
-    if (currentCycle < 0) {
-      return this.sequence[0];
-    }
-    
-    if (currentCycle >= this.sequence.length) {
-      // Calculate next Fibonacci number if beyond pre-calculated sequence
-      const nextFib = this.sequence[this.sequence.length - 1] + 
-                      this.sequence[this.sequence.length - 2];
-      this.sequence.push(nextFib);
+    const capped = this.capTerm && this.maxTerm > 0;
+    let nextTerm: number;
+
+    try {
+      nextTerm = this.sequence.termAt(Math.max(currentCycle, 0));
+    } catch (error) {
+      // A term too large to represent is certainly past the cap
+      if (capped && error instanceof TermOverflowError) {
+        return this.maxTerm;
+      }
+      throw error;
     }
     
-    let nextTerm = this.sequence[Math.min(currentCycle, this.sequence.length - 1)];
-    
     // Apply cap if enabled
-    if (this.capTerm && this.maxTerm > 0) {
+    if (capped) {
       nextTerm = Math.min(nextTerm, this.maxTerm);
     }
     
@@ -56,24 +241,227 @@ class FibonacciBilling {
   /**
    * Calculates the price for the next billing cycle
    * @param currentCycle - The current billing cycle (0-indexed)
+   * @param chargeDate - When the term is charged, used to pick tax rates (defaults to now)
+   * @param discountCycle - Cycle (0-indexed) whose discount the term kept after a hold or step-down
    * @returns Billing information for next cycle
    */
-  calculateNextBilling(currentCycle: number): BillingCycleInfo {
+  calculateNextBilling(
+    currentCycle: number,
+    chargeDate?: Date,
+    discountCycle = currentCycle
+  ): BillingCycleInfo {
+    return this.priceTerm(currentCycle, discountCycle, currentCycle <= 0, chargeDate);
+  }
+
+  /**
+   * Prices the term that follows the current one at renewal. The subscription
+   * can advance as usual, hold at its current term length, or step back to a
+   * shorter term. A held or shorter term keeps the discount earned at the
+   * furthest position reached unless the discount is reverted, and the
+   * returned billing records that position as `discountCycle` so later
+   * renewals can keep it too.
+   * @param request - Current term, the discount it kept, and how to move through the sequence
+   * @returns Billing information for the next term
+   */
+  calculateTermChange(request: TermChangeRequest): BillingCycleInfo {
+    const steps = request.steps === undefined ? 1 : request.steps;
+
+    if (!Number.isInteger(request.cycle) || request.cycle < 0) {
+      throw new Error(`cycle must be a non-negative whole number, got ${request.cycle}`);
+    }
+
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(`steps must be a positive whole number, got ${steps}`);
+    }
+
+    let nextCycle: number;
+
+    switch (request.progression || 'advance') {
+      case 'advance':
+        nextCycle = request.cycle + 1;
+        break;
+      case 'hold':
+        nextCycle = request.cycle;
+        break;
+      case 'step-down':
+        nextCycle = Math.max(request.cycle - steps, 0);
+        break;
+      default:
+        throw new Error(`Unknown term progression: ${request.progression}`);
+    }
+
+    // An earlier hold or step-down may have kept a discount from further along the sequence
+    const earnedCycle = Math.max(
+      request.discountCycle === undefined ? request.cycle : request.discountCycle,
+      request.cycle
+    );
+    const discountCycle =
+      request.discount === 'revert' ? nextCycle : Math.max(earnedCycle, nextCycle);
+
+    // Renewals are never introductory, even when held at or stepped back to the first term
+    return this.priceTerm(nextCycle, discountCycle, false, request.chargeDate);
+  }
+
+  /**
+   * Prices a term that is already running. Only the term a customer subscribed
+   * on is introductory: a kept discount or a renewal means the term was reached
+   * by renewing, even when it is the first term of the sequence.
+   * @param request - Running term, the discount it kept and whether it was renewed
+   * @returns Billing information for the term
+   */
+  private priceRunningTerm(
+    request: Pick<RefundRequest | PauseRequest, 'cycle' | 'discountCycle' | 'renewed'>
+  ): BillingCycleInfo {
+    const { cycle, discountCycle, renewed } = request;
+
+    if (discountCycle !== undefined) {
+      return this.priceTerm(cycle, discountCycle, false);
+    }
+
+    return this.priceTerm(cycle, cycle, cycle <= 0 && !renewed);
+  }
+
+  /**
+   * Prices a term, taking the discount from another cycle when it was kept
+   * @param currentCycle - Cycle being priced (0-indexed)
+   * @param discountCycle - Cycle whose discount applies (0-indexed)
+   * @param firstTerm - Whether the intro price may apply
+   * @param chargeDate - When the term is charged, used to pick tax rates (defaults to now)
+   * @returns Billing information for the term
+   */
+  private priceTerm(
+    currentCycle: number,
+    discountCycle: number,
+    firstTerm: boolean,
+    chargeDate?: Date
+  ): BillingCycleInfo {
     const termMonths = this.getNextTerm(currentCycle);
-    const baseAmount = this.basePrice * termMonths;
-    
-    // Apply progressive discount based on term length
-    const discount = Math.min(this.discountRate * (termMonths - 1), 0.5);
-    const discountedAmount = baseAmount * (1 - discount);
-    
-    return {
+    const base = multiplyMoney(this.getMonthlyPrice(), termMonths);
+
+    const introductory = firstTerm && this.trial.introPrice !== undefined;
+    let termDiscount: number;
+    let discounted: Money;
+
+    if (introductory) {
+      // The intro price stands in for the discounted first term of each seat
+      discounted = multiplyMoney(this.toMoney(this.trial.introPrice as number), this.quantity);
+      termDiscount =
+        base.amount > 0 ? Math.min(Math.max(1 - discounted.amount / base.amount, 0), 1) : 0;
+    } else {
+      // Apply the plan's discount policy, clamped to a valid fraction
+      const policyDiscount = this.discountPolicy.discountFor({
+        cycle: Math.max(discountCycle, 0),
+        termMonths: discountCycle === currentCycle ? termMonths : this.getNextTerm(discountCycle),
+        basePrice: this.basePrice,
+      });
+      termDiscount = Math.min(Math.max(policyDiscount, 0), 1);
+      discounted = multiplyMoney(base, 1 - termDiscount, this.roundingMode);
+    }
+
+    // Coupons apply on top of the term discount, or replace it ('best-of')
+    const { subtotal, final, termDiscountReplaced, lineItems } = applyCoupons(
+      this.getActiveCoupons(currentCycle, termMonths),
+      base,
+      discounted,
+      this.roundingMode
+    );
+    const discount = termDiscountReplaced ? 0 : termDiscount;
+    const savings = subtractMoney(base, final);
+    const effectiveMonthlyRate = divideMoney(final, termMonths, this.roundingMode);
+
+    const billing: BillingCycleInfo = {
       cycle: currentCycle + 1,
       termMonths: termMonths,
-      baseAmount: parseFloat(baseAmount.toFixed(2)),
+      baseAmount: toMajorUnits(base),
       discount: parseFloat((discount * 100).toFixed(2)),
-      finalAmount: parseFloat(discountedAmount.toFixed(2)),
-      savingsAmount: parseFloat((baseAmount - discountedAmount).toFixed(2)),
-      effectiveMonthlyRate: parseFloat((discountedAmount / termMonths).toFixed(2))
+      finalAmount: toMajorUnits(final),
+      savingsAmount: toMajorUnits(savings),
+      effectiveMonthlyRate: toMajorUnits(effectiveMonthlyRate),
+      currency: this.currency,
+      quantity: this.quantity,
+      amounts: {
+        base,
+        subtotal,
+        final,
+        savings,
+        effectiveMonthlyRate,
+      },
+    };
+
+    if (this.coupons.length) {
+      billing.coupons = lineItems;
+    }
+
+    if (introductory) {
+      billing.introductory = true;
+    }
+
+    if (discountCycle !== currentCycle) {
+      billing.discountCycle = discountCycle + 1;
+    }
+
+    if (this.tax) {
+      billing.tax = this.calculateTermTax(final, chargeDate || new Date());
+    }
+
+    return billing;
+  }
+
+  /**
+   * Gets the coupons that apply to a cycle: those it is eligible for and whose
+   * duration has not been used up by earlier eligible cycles
+   * @param currentCycle - The current billing cycle (0-indexed)
+   * @param termMonths - Term length of the cycle in months
+   * @returns Active coupons, in the order they were configured
+   */
+  private getActiveCoupons(currentCycle: number, termMonths: number): Coupon[] {
+    const cycle = Math.max(currentCycle, 0);
+
+    return this.coupons.filter((coupon) => {
+      if (!isCouponEligible(coupon, cycle + 1, termMonths)) {
+        return false;
+      }
+
+      const limit = getCouponCycleLimit(coupon);
+      if (limit === Infinity) {
+        return true;
+      }
+
+      // Count earlier eligible cycles, stopping as soon as the coupon is used up
+      let used = 0;
+      for (let i = 0; i < cycle && used < limit; i++) {
+        if (isCouponEligible(coupon, i + 1, this.getNextTerm(i))) {
+          used++;
+        }
+      }
+
+      return used < limit;
+    });
+  }
+
+  /**
+   * Calculates tax on a term using the rate in effect on its charge date
+   * @param amount - Discounted amount of the term
+   * @param chargeDate - When the term is charged
+   * @returns Tax breakdown for the term
+   */
+  private calculateTermTax(amount: Money, chargeDate: Date): TaxBreakdown {
+    const tax = this.tax as TaxOptions;
+    const rate = (this.taxRates as TaxRateTable).getRate(tax.region, chargeDate);
+
+    if (!rate) {
+      throw new Error(`No tax rate for region ${tax.region} on ${chargeDate.toISOString()}`);
+    }
+
+    return {
+      ...calculateTax(
+        amount,
+        rate.rate,
+        tax.mode || 'exclusive',
+        tax.reverseCharge,
+        this.roundingMode
+      ),
+      region: rate.region.toUpperCase(),
     };
   }
 
@@ -92,6 +480,173 @@ class FibonacciBilling {
     return schedule;
   }
 
+  /**
+   * Generates a billing schedule with real period and charge dates
+   * @param options - Start date, billing anchor day, time zone and number of cycles
+   * @returns Array of billing information with dates for each cycle
+   */
+  generateCalendarSchedule(options: CalendarScheduleOptions): CalendarBillingCycleInfo[] {
+    const timeZone = options.timeZone || 'UTC';
+    const cycles = options.cycles === undefined ? 10 : options.cycles;
+    const startCycle = options.startCycle === undefined ? 0 : options.startCycle;
+
+    if (!Number.isInteger(startCycle) || startCycle < 0) {
+      throw new Error(`startCycle must be a non-negative whole number, got ${startCycle}`);
+    }
+
+    // Billing starts once the free trial is over
+    const trialDays = startCycle === 0 ? this.getTrialDays() : 0;
+    const start = addDays(toStartOfDay(options.startDate, timeZone), trialDays);
+    const anchorDay = options.anchorDay === undefined ? start.day : options.anchorDay;
+
+    if (!Number.isInteger(anchorDay) || anchorDay < 1 || anchorDay > 31) {
+      throw new Error(`anchorDay must be a whole number between 1 and 31, got ${anchorDay}`);
+    }
+
+    const schedule: CalendarBillingCycleInfo[] = [];
+    let periodStart = fromZonedDateTime(start, timeZone);
+    let elapsedMonths = 0;
+
+    for (let i = startCycle; i < startCycle + cycles; i++) {
+      const billing = this.calculateNextBilling(i, periodStart);
+
+      // Always count months from the original start so clamped days do not drift
+      elapsedMonths += billing.termMonths;
+      const periodEnd = fromZonedDateTime(addMonths(start, elapsedMonths, anchorDay), timeZone);
+
+      schedule.push({
+        ...billing,
+        periodStart,
+        periodEnd,
+        chargeDate: periodStart,
+      });
+
+      periodStart = periodEnd;
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Calculates the refund for cancelling a prepaid term early, using the plan's refund policy
+   * @param request - Cancelled term, its billing period and the cancellation date
+   * @returns Itemized refund
+   */
+  calculateRefund(request: RefundRequest): RefundBreakdown {
+    const remaining = getRemainingFraction(
+      request.periodStart,
+      request.periodEnd,
+      request.cancelDate || new Date()
+    );
+
+    return this.refundPolicy.calculateRefund({
+      billing: this.priceRunningTerm(request),
+      usedFraction: 1 - remaining,
+      roundingMode: this.roundingMode,
+    });
+  }
+
+  /**
+   * Calculates the credit for pausing part way through a term. The customer
+   * keeps their place in the sequence: the same term starts again in full on
+   * resume, less the credit for the part left unused when they paused.
+   * @param request - Paused term, its billing period, and the pause and resume dates
+   * @returns Credit, amount due on resume and the resumed term
+   */
+  calculatePause(request: PauseRequest): PauseResult {
+    const pauseDate = request.pauseDate || new Date();
+    const billing = this.priceRunningTerm(request);
+    const remainingFraction = getRemainingFraction(
+      request.periodStart,
+      request.periodEnd,
+      pauseDate
+    );
+    const unusedCredit = multiplyMoney(billing.amounts.final, remainingFraction, this.roundingMode);
+
+    const pause: PauseResult = {
+      billing,
+      pauseDate,
+      remainingFraction,
+      unusedCredit,
+      amountDueOnResume: subtractMoney(billing.amounts.final, unusedCredit),
+    };
+
+    if (request.resumeDate) {
+      if (request.resumeDate.getTime() < pauseDate.getTime()) {
+        throw new RangeError('resumeDate must not be before pauseDate');
+      }
+
+      // Reschedule the paused term from the resume date
+      const [resumed] = this.generateCalendarSchedule({
+        startDate: request.resumeDate,
+        startCycle: request.cycle,
+        timeZone: request.timeZone,
+        cycles: 1,
+      });
+
+      pause.resumeDate = request.resumeDate;
+      pause.resumePeriod = { periodStart: resumed.periodStart, periodEnd: resumed.periodEnd };
+    }
+
+    return pause;
+  }
+
+  /**
+   * Prorates a mid-term change in seats. Added seats are co-termed to the end
+   * of the current period, so they are charged at the discounted rate of the
+   * running term for the time remaining; removed seats are credited the same way.
+   * @param options - Running term, seat counts, current period and change date
+   * @returns Credit for the old seats, charge for the new seats and the net amount
+   */
+  calculateSeatChange(options: SeatChangeOptions): ProrationResult {
+    const fromQuantity = options.fromQuantity === undefined ? this.quantity : options.fromQuantity;
+
+    return calculateProration({
+      currentBilling: this.withQuantity(fromQuantity).calculateNextBilling(
+        options.cycle,
+        undefined,
+        options.discountCycle
+      ),
+      newBilling: this.withQuantity(options.toQuantity).calculateNextBilling(
+        options.cycle,
+        undefined,
+        options.discountCycle
+      ),
+      periodStart: options.periodStart,
+      periodEnd: options.periodEnd,
+      changeDate: options.changeDate,
+      roundingMode: this.roundingMode,
+    });
+  }
+
+  /**
+   * Calculates usage charges for a term, per usage component and usage period
+   * @param term - Start and end of the prepaid term
+   * @param records - Usage records reported during the term
+   * @param timeZone - IANA time zone monthly usage periods are counted in (defaults to 'UTC')
+   * @returns Usage charges, in component order and then period order
+   * @throws Error if a record refers to an unknown usage component
+   */
+  calculateUsageCharges(term: TermPeriod, records: UsageRecord[], timeZone = 'UTC'): UsageCharge[] {
+    records.forEach((record) => {
+      if (!this.usage.some((component) => component.id === record.componentId)) {
+        throw new Error(`Unknown usage component: ${record.componentId}`);
+      }
+    });
+
+    const charges: UsageCharge[] = [];
+
+    for (const component of this.usage) {
+      for (const period of getUsagePeriods(component, term, timeZone)) {
+        charges.push(
+          calculateUsageCharge(component, records, period, this.currency, this.roundingMode)
+        );
+      }
+    }
+
+    return charges;
+  }
+
   /**
    * Provides a summary of total costs over specified number of cycles
    * @param cycles - Number of cycles to summarize
@@ -100,19 +655,58 @@ class FibonacciBilling {
   getBillingSummary(cycles = 10): BillingSummary {
     const schedule = this.generateBillingSchedule(cycles);
     const totalMonths = schedule.reduce((sum, item) => sum + item.termMonths, 0);
-    const totalAmount = schedule.reduce((sum, item) => sum + item.finalAmount, 0);
-    const totalBaseAmount = schedule.reduce((sum, item) => sum + item.baseAmount, 0);
-    const totalSavings = schedule.reduce((sum, item) => sum + item.savingsAmount, 0);
-    
-    return {
+
+    // Sum exact minor units so totals match what is actually charged
+    const total = sumMoney(
+      schedule.map((item) => item.amounts.final),
+      this.currency
+    );
+    const totalBase = sumMoney(
+      schedule.map((item) => item.amounts.base),
+      this.currency
+    );
+    const totalSavings = subtractMoney(totalBase, total);
+    const effectiveMonthlyRate =
+      totalMonths > 0 ? divideMoney(total, totalMonths, this.roundingMode) : total;
+    const savingsPercentage =
+      totalBase.amount > 0 ? (totalSavings.amount / totalBase.amount) * 100 : 0;
+
+    const summary: BillingSummary = {
       cycles: cycles,
       totalMonths: totalMonths,
-      totalAmount: parseFloat(totalAmount.toFixed(2)),
-      totalBaseAmount: parseFloat(totalBaseAmount.toFixed(2)),
-      totalSavings: parseFloat(totalSavings.toFixed(2)),
-      savingsPercentage: parseFloat(((totalSavings / totalBaseAmount) * 100).toFixed(2)),
-      effectiveMonthlyRate: parseFloat((totalAmount / totalMonths).toFixed(2))
+      totalAmount: toMajorUnits(total),
+      totalBaseAmount: toMajorUnits(totalBase),
+      totalSavings: toMajorUnits(totalSavings),
+      savingsPercentage: parseFloat(savingsPercentage.toFixed(2)),
+      effectiveMonthlyRate: toMajorUnits(effectiveMonthlyRate),
+      currency: this.currency,
+      amounts: {
+        total,
+        totalBase,
+        totalSavings,
+        effectiveMonthlyRate,
+      },
     };
+
+    if (this.tax) {
+      const taxes = schedule.map((item) => item.tax as TaxBreakdown);
+      summary.tax = {
+        totalNet: sumMoney(
+          taxes.map((tax) => tax.net),
+          this.currency
+        ),
+        totalTax: sumMoney(
+          taxes.map((tax) => tax.tax),
+          this.currency
+        ),
+        totalGross: sumMoney(
+          taxes.map((tax) => tax.gross),
+          this.currency
+        ),
+      };
+    }
+
+    return summary;
   }
 }
 
@@ -4,4 +4,106 @@
 import FibonacciBilling from './fibonacci-billing';
 
 export default FibonacciBilling;
-export { FibonacciBilling }; 
\ No newline at end of file
+export { FibonacciBilling };
+export {
+  AdditiveSequence,
+  FibonacciSequence,
+  LucasSequence,
+  FibonacciSkipOneSequence,
+  GeometricSequence,
+  CustomSequence,
+  resolveTermSequence,
+} from './term-sequences';
+export {
+  TermOverflowError,
+  InvalidBillingOptionsError,
+  InvalidPlanDefinitionError,
+} from './errors';
+export {
+  CURRENCY_EXPONENTS,
+  getCurrencyExponent,
+  roundToInteger,
+  createMoney,
+  toMinorUnits,
+  toMajorUnits,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  divideMoney,
+  sumMoney,
+  formatMoney,
+} from './money';
+export {
+  LinearDiscountPolicy,
+  SteppedDiscountPolicy,
+  CycleTableDiscountPolicy,
+  ExponentialDecayDiscountPolicy,
+} from './discount-policies';
+export {
+  isLeapYear,
+  daysInMonth,
+  addMonths,
+  addDays,
+  toZonedDateTime,
+  fromZonedDateTime,
+  getTimeZoneOffset,
+  toStartOfDay,
+  getReminderDate,
+} from './calendar';
+export { getRemainingFraction, calculateProration } from './proration';
+export {
+  NoRefundPolicy,
+  ProRataRefundPolicy,
+  DiscountClawbackRefundPolicy,
+  MinimumFeeRefundPolicy,
+} from './refund-policies';
+export { TaxRateTable, calculateTax } from './tax';
+export {
+  validateCoupon,
+  isCouponEligible,
+  getCouponCycleLimit,
+  getCouponAmount,
+  applyCoupons,
+} from './coupons';
+export { assertQuantity, validateSeatPricing, calculateSeatPrice } from './seats';
+export { validateUsageComponent, getUsagePeriods, calculateUsageCharge } from './usage';
+export {
+  createRevenueEntries,
+  prorationToRevenueEntry,
+  buildRevenueSchedule,
+  revenueScheduleToJSON,
+  revenueScheduleToCSV,
+} from './revenue-recognition';
+export { simulateCohort } from './cohort-simulator';
+export { comparePlans } from './plan-comparison';
+export { PlanCatalog, getPlanMetadata, getPlanReference } from './plan-catalog';
+export { validateBillingOptions, assertValidBillingOptions } from './validation';
+export {
+  PLAN_DEFINITION_SCHEMA,
+  PLAN_DEFINITION_VERSION,
+  validatePlanDefinition,
+  parsePlanDefinition,
+} from './plan-definition';
+export { solvePricing } from './pricing-solver';
+export { SUBSCRIPTION_TRANSITIONS, SubscriptionLifecycle, isCurrentCycle } from './lifecycle';
+export {
+  MemorySubscriptionStore,
+  getSubscriptionRecordFromMetadata,
+  applySubscriptionRecord,
+} from './subscription-store';
+export { SqliteSubscriptionStore } from './sqlite-subscription-store';
+export {
+  DEFAULT_REMINDER_DAYS,
+  NO_STORE_REMINDER_REASON,
+  ReminderScheduler,
+  getReminderOffset,
+  createReminder,
+  saveReminder,
+} from './reminder-scheduler';
+export {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NotificationRenderer,
+  createNotificationTemplate,
+  escapeHtml,
+} from './notifications';
+export { ConsoleNotificationTransport, FileNotificationTransport } from './notification-transports';
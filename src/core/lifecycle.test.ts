@@ -0,0 +1,66 @@
+import { SubscriptionLifecycle } from './lifecycle';
+import { LifecycleEvent, LifecycleEventType, LifecycleTransitionEvent } from '../types';
+
+const at = (type: LifecycleEventType, day: number, cycle?: number): LifecycleEvent => ({
+  type,
+  occurredAt: new Date(Date.UTC(2024, 0, day)),
+  subscriptionId: 'sub_1',
+  cycle,
+});
+
+describe('SubscriptionLifecycle', () => {
+  it('should move through trial, renewal, dunning and cancellation', () => {
+    const lifecycle = new SubscriptionLifecycle();
+    const transitions: LifecycleTransitionEvent[] = [];
+    lifecycle.onTransition((transition) => transitions.push(transition));
+
+    lifecycle.send(at('trial-started', 1, 1));
+    lifecycle.send(at('renewal-due', 11, 1));
+    lifecycle.send(at('payment-succeeded', 14, 1));
+    lifecycle.send(at('renewal-due', 20, 1));
+    lifecycle.send(at('payment-failed', 21, 2));
+    lifecycle.send(at('payment-succeeded', 23, 2));
+    lifecycle.send(at('canceled', 25, 2));
+
+    expect(transitions.map((transition) => transition.to)).toEqual([
+      'trialing',
+      'awaiting-renewal',
+      'active',
+      'awaiting-renewal',
+      'past-due',
+      'active',
+      'canceled',
+    ]);
+    expect(lifecycle.isTerminal()).toBe(true);
+    expect(lifecycle.send(at('activated', 26))).toBeUndefined();
+    expect(lifecycle.getSnapshot()).toEqual({
+      state: 'canceled',
+      cycle: 2,
+      updatedAt: new Date(Date.UTC(2024, 0, 25)),
+    });
+  });
+
+  it('should ignore stale events and results for earlier cycles', () => {
+    const lifecycle = new SubscriptionLifecycle({ state: 'past-due', cycle: 3 });
+
+    expect(lifecycle.can(at('payment-succeeded', 10, 2))).toBe(false);
+    expect(lifecycle.send(at('payment-succeeded', 10, 2))).toBeUndefined();
+    expect(lifecycle.send(at('paused', 12))?.to).toBe('paused');
+    expect(lifecycle.send(at('resumed', 11))).toBeUndefined();
+    expect(lifecycle.getState()).toBe('paused');
+  });
+
+  it('should restore from a snapshot and accept custom transitions', () => {
+    const lifecycle = new SubscriptionLifecycle({
+      state: 'canceled',
+      transitions: [{ from: ['canceled'], event: 'activated', to: 'active' }],
+    });
+
+    expect(lifecycle.isTerminal()).toBe(false);
+    expect(lifecycle.send(at('activated', 1))).toEqual({
+      from: 'canceled',
+      to: 'active',
+      event: at('activated', 1),
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Subscription lifecycle for Fibonacci Billing
+ *
+ * A provider-agnostic state machine for a single subscription. Integrations
+ * normalize their webhooks into lifecycle events (`result.lifecycleEvent`),
+ * and sending those events to the machine moves the subscription through an
+ * explicit table of transitions, so the app reacts to one consistent model
+ * whichever provider bills the customer.
+ */
+
+import {
+  LifecycleEvent,
+  LifecycleGuard,
+  LifecycleTransition,
+  LifecycleTransitionEvent,
+  SubscriptionLifecycleOptions,
+  SubscriptionLifecycleSnapshot,
+  SubscriptionState,
+} from '../types';
+
+/**
+ * States a subscription can still leave
+ */
+const OPEN_STATES: SubscriptionState[] = [
+  'pending',
+  'trialing',
+  'active',
+  'awaiting-renewal',
+  'past-due',
+  'paused',
+];
+
+/**
+ * Passes unless the event is for an earlier cycle than the latest one seen,
+ * so a late result for an old invoice does not override the current term
+ */
+export const isCurrentCycle: LifecycleGuard = (snapshot, event) =>
+  event.cycle === undefined || snapshot.cycle === undefined || event.cycle >= snapshot.cycle;
+
+/**
+ * Default subscription lifecycle. Terminal states (canceled, expired) have
+ * no outgoing transitions.
+ */
+export const SUBSCRIPTION_TRANSITIONS: ReadonlyArray<Readonly<LifecycleTransition>> = [
+  { from: ['pending'], event: 'trial-started', to: 'trialing' },
+  { from: ['pending', 'trialing', 'past-due', 'paused'], event: 'activated', to: 'active' },
+  {
+    from: ['trialing', 'active', 'awaiting-renewal'],
+    event: 'renewal-due',
+    to: 'awaiting-renewal',
+  },
+  {
+    from: ['pending', 'trialing', 'active', 'awaiting-renewal', 'past-due'],
+    event: 'payment-succeeded',
+    to: 'active',
+    guard: isCurrentCycle,
+  },
+  {
+    from: ['trialing', 'active', 'awaiting-renewal', 'past-due'],
+    event: 'payment-failed',
+    to: 'past-due',
+    guard: isCurrentCycle,
+  },
+  {
+    from: ['trialing', 'active', 'awaiting-renewal', 'past-due'],
+    event: 'paused',
+    to: 'paused',
+  },
+  { from: ['paused'], event: 'resumed', to: 'active' },
+  { from: OPEN_STATES, event: 'canceled', to: 'canceled' },
+  { from: OPEN_STATES, event: 'expired', to: 'expired' },
+];
+
+/**
+ * Lifecycle state machine for one subscription
+ */
+export class SubscriptionLifecycle {
+  private snapshot: SubscriptionLifecycleSnapshot;
+  private transitions: ReadonlyArray<Readonly<LifecycleTransition>>;
+  private listeners: Array<(transition: LifecycleTransitionEvent) => void> = [];
+
+  /**
+   * Creates a new subscription lifecycle
+   * @param options - Snapshot to restore (defaults to a new, pending subscription) and the allowed transitions
+   */
+  constructor(options: SubscriptionLifecycleOptions = {}) {
+    const { transitions = SUBSCRIPTION_TRANSITIONS, ...snapshot } = options;
+    this.transitions = transitions;
+    this.snapshot = { ...snapshot, state: snapshot.state || 'pending' };
+  }
+
+  /**
+   * Gets the current state
+   * @returns Current state
+   */
+  getState(): SubscriptionState {
+    return this.snapshot.state;
+  }
+
+  /**
+   * Gets the state, latest cycle and last update, for persisting and restoring the lifecycle
+   * @returns Copy of the current snapshot
+   */
+  getSnapshot(): SubscriptionLifecycleSnapshot {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * Checks whether the subscription has reached a state it cannot leave
+   * @returns Whether no transition leaves the current state
+   */
+  isTerminal(): boolean {
+    return !this.transitions.some((transition) => transition.from.includes(this.snapshot.state));
+  }
+
+  /**
+   * Checks whether an event would move the subscription
+   * @param event - Lifecycle event
+   * @returns Whether a transition would be taken
+   */
+  can(event: LifecycleEvent): boolean {
+    return this.findTransition(event) !== undefined;
+  }
+
+  /**
+   * Applies an event. Webhooks can arrive late, twice or out of order, so an
+   * event with no transition from the current state, a failed guard, or an
+   * occurrence time before the last applied event is ignored rather than thrown.
+   * @param event - Lifecycle event
+   * @returns The transition taken, or undefined if the event was ignored
+   */
+  send(event: LifecycleEvent): LifecycleTransitionEvent | undefined {
+    const transition = this.findTransition(event);
+
+    if (!transition) {
+      return undefined;
+    }
+
+    const taken: LifecycleTransitionEvent = {
+      from: this.snapshot.state,
+      to: transition.to,
+      event,
+    };
+
+    this.snapshot = {
+      state: transition.to,
+      cycle:
+        event.cycle === undefined
+          ? this.snapshot.cycle
+          : Math.max(event.cycle, this.snapshot.cycle || 0),
+      updatedAt: event.occurredAt,
+    };
+
+    this.listeners.forEach((listener) => listener(taken));
+    return taken;
+  }
+
+  /**
+   * Registers a listener called after every transition, including self-transitions
+   * @param listener - Called with the transition taken
+   * @returns Function that removes the listener
+   */
+  onTransition(listener: (transition: LifecycleTransitionEvent) => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      this.listeners = this.listeners.filter((existing) => existing !== listener);
+    };
+  }
+
+  /**
+   * Finds the first transition from the current state that the event triggers
+   * @param event - Lifecycle event
+   * @returns Matching transition, or undefined if none applies
+   */
+  private findTransition(event: LifecycleEvent): Readonly<LifecycleTransition> | undefined {
+    const { updatedAt } = this.snapshot;
+
+    if (updatedAt && event.occurredAt.getTime() < updatedAt.getTime()) {
+      return undefined;
+    }
+
+    return this.transitions.find(
+      (transition) =>
+        transition.event === event.type &&
+        transition.from.includes(this.snapshot.state) &&
+        (!transition.guard || transition.guard(this.getSnapshot(), event))
+    );
+  }
+}
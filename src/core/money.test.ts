@@ -0,0 +1,109 @@
+import FibonacciBilling from './fibonacci-billing';
+import {
+  getCurrencyExponent,
+  roundToInteger,
+  toMinorUnits,
+  toMajorUnits,
+  createMoney,
+  addMoney,
+  divideMoney,
+  sumMoney,
+  formatMoney,
+} from './money';
+
+describe('money', () => {
+  describe('getCurrencyExponent', () => {
+    it('should use per-currency exponents', () => {
+      expect(getCurrencyExponent('USD')).toBe(2);
+      expect(getCurrencyExponent('jpy')).toBe(0);
+      expect(getCurrencyExponent('KWD')).toBe(3);
+    });
+  });
+
+  describe('roundToInteger', () => {
+    it('should round halves according to the mode', () => {
+      expect(roundToInteger(2.5, 'half-up')).toBe(3);
+      expect(roundToInteger(-2.5, 'half-up')).toBe(-3);
+      expect(roundToInteger(2.5, 'half-even')).toBe(2);
+      expect(roundToInteger(3.5, 'half-even')).toBe(4);
+      expect(roundToInteger(2.9, 'floor')).toBe(2);
+    });
+
+    it('should ignore floating point noise', () => {
+      expect(roundToInteger(1999 * 0.92, 'floor')).toBe(1839);
+      expect(roundToInteger(0.1 * 3 * 100, 'floor')).toBe(30);
+    });
+  });
+
+  describe('conversions', () => {
+    it('should convert between major and minor units', () => {
+      expect(toMinorUnits(19.99, 'USD')).toEqual({ amount: 1999, currency: 'USD' });
+      expect(toMinorUnits(1500, 'JPY')).toEqual({ amount: 1500, currency: 'JPY' });
+      expect(toMinorUnits(1.2345, 'KWD')).toEqual({ amount: 1235, currency: 'KWD' });
+      expect(toMajorUnits(createMoney(1235, 'KWD'))).toBe(1.235);
+    });
+
+    it('should reject amounts outside the safe integer range', () => {
+      expect(() => createMoney(1.5, 'USD')).toThrow(RangeError);
+      expect(() => createMoney(Number.MAX_SAFE_INTEGER + 1, 'USD')).toThrow(RangeError);
+    });
+
+    it('should reject mixed currencies', () => {
+      expect(() => addMoney(createMoney(1, 'USD'), createMoney(1, 'EUR'))).toThrow();
+    });
+  });
+
+  describe('arithmetic', () => {
+    it('should sum and divide in minor units', () => {
+      const values = [createMoney(1, 'USD'), createMoney(2, 'USD')];
+      expect(sumMoney(values, 'USD').amount).toBe(3);
+      expect(divideMoney(createMoney(1000, 'USD'), 3, 'floor').amount).toBe(333);
+    });
+  });
+
+  describe('formatMoney', () => {
+    it('should format amounts for a locale with the currency exponent', () => {
+      expect(formatMoney(createMoney(123450, 'USD'))).toBe('$1,234.50');
+      expect(formatMoney(createMoney(123450, 'EUR'), 'de-DE')).toBe('1.234,50\u00a0€');
+      expect(formatMoney(createMoney(1500, 'JPY'), 'en-US')).toBe('¥1,500');
+      expect(formatMoney(createMoney(1235, 'KWD'), 'en-US')).toBe('KWD\u00a01.235');
+    });
+  });
+
+  describe('FibonacciBilling amounts', () => {
+    it('should report exact minor units per cycle', () => {
+      const billing = new FibonacciBilling({ basePrice: 19.99, discountRate: 0.08 });
+      const result = billing.calculateNextBilling(2); // 3 months, 16% off
+
+      expect(result.currency).toBe('USD');
+      expect(result.amounts.base.amount).toBe(5997);
+      expect(result.amounts.final.amount).toBe(5037); // 5037.48 rounded half-up
+      expect(result.amounts.savings.amount).toBe(960);
+      expect(result.finalAmount).toBe(50.37);
+    });
+
+    it('should keep summary totals equal to the sum of charges', () => {
+      const billing = new FibonacciBilling({ basePrice: 19.99, discountRate: 0.08 });
+      const schedule = billing.generateBillingSchedule(8);
+      const summary = billing.getBillingSummary(8);
+      const charged = schedule.reduce((sum, item) => sum + item.amounts.final.amount, 0);
+
+      expect(summary.amounts.total.amount).toBe(charged);
+      expect(summary.totalAmount).toBe(charged / 100);
+    });
+
+    it('should honour zero-decimal currencies and rounding modes', () => {
+      const billing = new FibonacciBilling({
+        basePrice: 1001,
+        discountRate: 0.05,
+        currency: 'jpy',
+        roundingMode: 'floor',
+      });
+      const result = billing.calculateNextBilling(1); // 2 months, 5% off
+
+      expect(result.currency).toBe('JPY');
+      expect(result.amounts.final.amount).toBe(1901); // 1901.9 floored
+      expect(result.finalAmount).toBe(1901);
+    });
+  });
+});
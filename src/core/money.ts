@@ -0,0 +1,207 @@
+/**
+ * Integer minor-unit money arithmetic for Fibonacci Billing
+ *
+ * Amounts are kept as whole minor units (cents, yen, fils, ...) so that what
+ * the engine reports is exactly what the payment provider charges.
+ */
+
+import { Money, RoundingMode } from '../types';
+
+/**
+ * Minor-unit exponents for currencies that do not use two decimal places
+ */
+export const CURRENCY_EXPONENTS: Readonly<Record<string, number>> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  MGA: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+};
+
+/**
+ * Gets the number of minor-unit digits for a currency
+ * @param currency - ISO 4217 currency code
+ * @returns Minor-unit exponent (2 unless listed in CURRENCY_EXPONENTS)
+ */
+export function getCurrencyExponent(currency: string): number {
+  const exponent = CURRENCY_EXPONENTS[currency.toUpperCase()];
+  return exponent === undefined ? 2 : exponent;
+}
+
+/**
+ * Rounds a value to a whole number
+ *
+ * 'half-up' rounds halves away from zero, 'half-even' rounds halves to the
+ * nearest even number and 'floor' always rounds towards negative infinity.
+ * @param value - Value to round
+ * @param mode - Rounding mode
+ * @returns The rounded integer
+ */
+export function roundToInteger(value: number, mode: RoundingMode = 'half-up'): number {
+  // Drop binary floating point noise such as 1839.0799999999998
+  const snapped = Number.isInteger(value) ? value : Number(value.toPrecision(15));
+
+  switch (mode) {
+    case 'floor':
+      return Math.floor(snapped);
+
+    case 'half-even': {
+      const floor = Math.floor(snapped);
+      const fraction = snapped - floor;
+      if (fraction > 0.5) {
+        return floor + 1;
+      }
+      if (fraction < 0.5) {
+        return floor;
+      }
+      return floor % 2 === 0 ? floor : floor + 1;
+    }
+
+    case 'half-up':
+      return Math.sign(snapped) * Math.round(Math.abs(snapped));
+
+    default:
+      throw new Error(`Unknown rounding mode: ${mode}`);
+  }
+}
+
+/**
+ * Creates a money value from an amount in minor units
+ * @param amount - Whole number of minor units
+ * @param currency - ISO 4217 currency code
+ * @returns The money value
+ */
+export function createMoney(amount: number, currency: string): Money {
+  if (!Number.isSafeInteger(amount)) {
+    throw new RangeError(`Money amounts must be safe integers in minor units, got ${amount}`);
+  }
+
+  // Avoid -0 leaking into serialized output
+  return { amount: amount === 0 ? 0 : amount, currency: currency.toUpperCase() };
+}
+
+/**
+ * Converts an amount in major units (e.g. dollars) to money
+ * @param amount - Amount in major units
+ * @param currency - ISO 4217 currency code
+ * @param mode - Rounding mode for sub-minor-unit fractions
+ * @returns The money value
+ */
+export function toMinorUnits(amount: number, currency: string, mode?: RoundingMode): Money {
+  const factor = Math.pow(10, getCurrencyExponent(currency));
+  return createMoney(roundToInteger(amount * factor, mode), currency);
+}
+
+/**
+ * Converts money to an amount in major units (e.g. dollars)
+ * @param money - Money value
+ * @returns Amount in major units
+ */
+export function toMajorUnits(money: Money): number {
+  const exponent = getCurrencyExponent(money.currency);
+  return Number((money.amount / Math.pow(10, exponent)).toFixed(exponent));
+}
+
+/**
+ * Adds two money values of the same currency
+ * @param a - First value
+ * @param b - Second value
+ * @returns The sum
+ */
+export function addMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return createMoney(a.amount + b.amount, a.currency);
+}
+
+/**
+ * Subtracts one money value from another of the same currency
+ * @param a - Value to subtract from
+ * @param b - Value to subtract
+ * @returns The difference
+ */
+export function subtractMoney(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return createMoney(a.amount - b.amount, a.currency);
+}
+
+/**
+ * Multiplies money by a factor, rounding to whole minor units
+ * @param money - Money value
+ * @param factor - Multiplier
+ * @param mode - Rounding mode
+ * @returns The product
+ */
+export function multiplyMoney(money: Money, factor: number, mode?: RoundingMode): Money {
+  return createMoney(roundToInteger(money.amount * factor, mode), money.currency);
+}
+
+/**
+ * Divides money by a divisor, rounding to whole minor units
+ * @param money - Money value
+ * @param divisor - Divisor (non-zero)
+ * @param mode - Rounding mode
+ * @returns The quotient
+ */
+export function divideMoney(money: Money, divisor: number, mode?: RoundingMode): Money {
+  if (divisor === 0) {
+    throw new RangeError('Cannot divide money by zero');
+  }
+  return createMoney(roundToInteger(money.amount / divisor, mode), money.currency);
+}
+
+/**
+ * Sums a list of money values
+ * @param values - Money values to add up
+ * @param currency - Currency of the result (used when the list is empty)
+ * @returns The total
+ */
+export function sumMoney(values: Money[], currency: string): Money {
+  return values.reduce((total, value) => addMoney(total, value), createMoney(0, currency));
+}
+
+/**
+ * Formats money for display in a locale, with the currency's own number of decimals
+ * @param money - Money value
+ * @param locale - BCP 47 locale tag (defaults to 'en-US')
+ * @returns The formatted amount, e.g. '$1,234.50' or '1.234,50 €'
+ */
+export function formatMoney(money: Money, locale = 'en-US'): string {
+  const exponent = getCurrencyExponent(money.currency);
+
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: money.currency,
+    minimumFractionDigits: exponent,
+    maximumFractionDigits: exponent,
+  }).format(toMajorUnits(money));
+}
+
+/**
+ * Ensures two money values share a currency
+ * @param a - First value
+ * @param b - Second value
+ */
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new Error(`Currency mismatch: ${a.currency} and ${b.currency}`);
+  }
+}
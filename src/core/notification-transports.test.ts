@@ -0,0 +1,43 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConsoleNotificationTransport, FileNotificationTransport } from './notification-transports';
+import { NotificationMessage } from '../types';
+
+const message: NotificationMessage = {
+  type: 'receipt',
+  to: 'sam@example.com',
+  subject: 'Receipt for your Fibonacci Billing subscription',
+  text: 'Hi,\n\nThank you for your payment.\n',
+  html: '<p>Hi,</p>',
+};
+
+describe('notification transports', () => {
+  it('should print the recipient, subject and text', async () => {
+    const lines: string[] = [];
+    await new ConsoleNotificationTransport((line) => lines.push(line)).send(message);
+
+    expect(lines).toEqual([
+      'To: sam@example.com\nSubject: Receipt for your Fibonacci Billing subscription\n\n' +
+        message.text,
+    ]);
+  });
+
+  it('should write each notification to its own files', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'fibonacci-notifications-'));
+
+    try {
+      const transport = new FileNotificationTransport(path.join(directory, 'outbox'));
+      await transport.send(message);
+      await transport.send({ ...message, type: 'payment-failed' });
+
+      const files = (await fs.readdir(path.join(directory, 'outbox'))).sort();
+      const html = files.filter((file) => file.endsWith('-1-receipt.html'));
+
+      expect(files).toHaveLength(6);
+      expect(await fs.readFile(path.join(directory, 'outbox', html[0]), 'utf8')).toBe(message.html);
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true });
+    }
+  });
+});
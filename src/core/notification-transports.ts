@@ -0,0 +1,78 @@
+/**
+ * Notification transports for Fibonacci Billing
+ *
+ * Transports for development and tests: one prints notifications, the other
+ * writes them to files you can open in a browser or diff. Production apps
+ * implement `NotificationTransport` on top of their email provider.
+ */
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { NotificationMessage, NotificationTransport } from '../types';
+
+/**
+ * Transport that prints the plain text of each notification
+ */
+export class ConsoleNotificationTransport implements NotificationTransport {
+  private log: (line: string) => void;
+
+  /**
+   * Creates a new console transport
+   * @param log - Prints a line (defaults to console.log)
+   */
+  constructor(log: (line: string) => void = (line) => console.log(line)) {
+    this.log = log;
+  }
+
+  /**
+   * Prints a notification
+   * @param message - Rendered notification and its recipient
+   * @returns Promise resolving once the notification is printed
+   */
+  async send(message: NotificationMessage): Promise<void> {
+    this.log(
+      [
+        `To: ${message.to || '(no recipient)'}`,
+        `Subject: ${message.subject}`,
+        '',
+        message.text,
+      ].join('\n')
+    );
+  }
+}
+
+/**
+ * Transport that writes each notification to a directory as a JSON file
+ * with its recipient and subject, and `.txt` and `.html` files with its bodies
+ */
+export class FileNotificationTransport implements NotificationTransport {
+  private directory: string;
+  private sent = 0;
+
+  /**
+   * Creates a new file transport
+   * @param directory - Directory to write to; created if it does not exist
+   */
+  constructor(directory: string) {
+    this.directory = directory;
+  }
+
+  /**
+   * Writes a notification
+   * @param message - Rendered notification and its recipient
+   * @returns Promise resolving once the files are written
+   */
+  async send(message: NotificationMessage): Promise<void> {
+    this.sent += 1;
+    const name = `${Date.now()}-${this.sent}-${message.type}`;
+    const file = (extension: string) => path.join(this.directory, `${name}.${extension}`);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      file('json'),
+      JSON.stringify({ type: message.type, to: message.to, subject: message.subject }, null, 2)
+    );
+    await fs.writeFile(file('txt'), message.text);
+    await fs.writeFile(file('html'), message.html);
+  }
+}
@@ -0,0 +1,67 @@
+import { NotificationRenderer, createNotificationTemplate } from './notifications';
+import FibonacciBilling from './fibonacci-billing';
+
+const engine = new FibonacciBilling({ basePrice: 10 });
+const current = engine.calculateNextBilling(3); // 5 months, 20% off
+const next = engine.calculateNextBilling(4); // 8 months, 35% off
+
+describe('NotificationRenderer', () => {
+  it('should render a renewal notice as text and HTML', () => {
+    const renderer = new NotificationRenderer({ productName: 'Acme <Pro>' });
+    const notice = renderer.render('renewal-notice', {
+      customerName: 'Sam',
+      current,
+      next,
+      renewalDate: new Date(Date.UTC(2024, 5, 30)),
+    });
+
+    expect(notice.subject).toBe('Your Acme <Pro> subscription renews on June 30, 2024');
+    expect(notice.text).toContain('The next term is 8 months and you will be charged $52.00');
+    expect(notice.text).toContain('$6.50 a month');
+    expect(notice.text).toContain('Your current term of 5 months cost $40.00.');
+    expect(notice.text).toContain('Discount: 35%\nYou save: $28.00');
+    expect(notice.html).toContain('<p>Hi Sam,</p>');
+    expect(notice.html).toContain('Acme &lt;Pro&gt;');
+    expect(notice.html).not.toContain('<Pro>');
+  });
+
+  it('should format amounts and dates for the locale and time zone', () => {
+    const euroEngine = new FibonacciBilling({ basePrice: 10, currency: 'EUR' });
+    const renderer = new NotificationRenderer({ locale: 'de-DE', timeZone: 'Asia/Tokyo' });
+    const receipt = renderer.render('receipt', {
+      current: euroEngine.calculateNextBilling(4),
+      paidAt: new Date(Date.UTC(2024, 5, 30, 20)),
+    });
+
+    expect(receipt.text.replace(/\u00a0/g, ' ')).toContain(
+      'Thank you for your payment of 52,00 € for 8 months of Fibonacci Billing on 1. Juli 2024.'
+    );
+    expect(receipt.text.replace(/\u00a0/g, ' ')).toContain('Discount: 35 %');
+  });
+
+  it('should use template overrides and require the term a notification is about', () => {
+    const renderer = new NotificationRenderer({
+      templates: {
+        'payment-failed': createNotificationTemplate({
+          subject: (view) => `Action needed: ${view.current?.amount}`,
+          paragraphs: (view) => [`Retrying on ${view.retryDate}.`],
+          greeting: () => 'Hello,',
+        }),
+      },
+    });
+    const failed = renderer.render('payment-failed', {
+      current,
+      retryDate: new Date(Date.UTC(2024, 6, 3)),
+    });
+
+    expect(failed.subject).toBe('Action needed: $40.00');
+    expect(failed.text).toBe('Hello,\n\nRetrying on July 3, 2024.\n');
+    const advanced = renderer.render('term-advanced', { current, next });
+
+    expect(advanced.subject).toBe('Your Fibonacci Billing term is now 8 months');
+    expect(advanced.text).toContain('term length changed from 5 months to 8 months.');
+    expect(() => renderer.render('receipt', { next })).toThrow(
+      'A receipt notification needs the current term'
+    );
+  });
+});
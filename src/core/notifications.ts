@@ -0,0 +1,315 @@
+/**
+ * Customer notifications for Fibonacci Billing
+ *
+ * Terms grow to years, so a renewal can be the largest charge a customer
+ * sees. The renderer turns the billing of the current and next term into
+ * plain text and HTML messages, formatting amounts and dates for the
+ * customer's locale; any template can be replaced.
+ */
+
+import {
+  BillingCycleInfo,
+  FormattedTerm,
+  NotificationContext,
+  NotificationRendererOptions,
+  NotificationSummaryLabels,
+  NotificationTemplate,
+  NotificationTemplateContent,
+  NotificationType,
+  NotificationView,
+  RenderedNotification,
+} from '../types';
+import { formatMoney } from './money';
+
+/**
+ * Term each notification kind cannot be rendered without
+ */
+const REQUIRED_TERMS: Readonly<Record<NotificationType, 'current' | 'next'>> = {
+  'renewal-notice': 'next',
+  receipt: 'current',
+  'payment-failed': 'current',
+  'term-advanced': 'next',
+};
+
+/**
+ * English summary table labels
+ */
+const DEFAULT_SUMMARY_LABELS: Readonly<NotificationSummaryLabels> = {
+  term: 'Term',
+  months: 'months',
+  amount: 'Amount',
+  monthlyRate: 'Monthly rate',
+  discount: 'Discount',
+  savings: 'You save',
+};
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ * @param value - Plain text
+ * @returns HTML-safe text
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Builds a template from paragraphs. The text body is the greeting,
+ * paragraphs and summary separated by blank lines; the HTML body is the
+ * same content with every value escaped and the summary as a table.
+ * @param content - Subject, paragraphs and summary term
+ * @returns Notification template
+ */
+export function createNotificationTemplate(
+  content: NotificationTemplateContent
+): NotificationTemplate {
+  const labels = { ...DEFAULT_SUMMARY_LABELS, ...content.labels };
+  const getGreeting =
+    content.greeting ||
+    ((view: NotificationView) => (view.customerName ? `Hi ${view.customerName},` : 'Hi,'));
+  const getSummaryRows = (term: FormattedTerm) => [
+    [labels.term, `${term.termMonths} ${labels.months}`],
+    [labels.amount, term.amount],
+    [labels.monthlyRate, term.monthlyRate],
+    [labels.discount, term.discount],
+    [labels.savings, term.savings],
+  ];
+
+  return {
+    subject: content.subject,
+    text: (view) => {
+      const term = content.summary?.(view);
+      const blocks = [getGreeting(view), ...content.paragraphs(view)];
+
+      if (term) {
+        blocks.push(
+          getSummaryRows(term)
+            .map(([label, value]) => `${label}: ${value}`)
+            .join('\n')
+        );
+      }
+
+      return `${blocks.join('\n\n')}\n`;
+    },
+    html: (view) => {
+      const term = content.summary?.(view);
+      const paragraphs = [getGreeting(view), ...content.paragraphs(view)].map(
+        (paragraph) => `<p>${escapeHtml(paragraph)}</p>`
+      );
+      const table = term
+        ? [
+            '<table>',
+            ...getSummaryRows(term).map(
+              ([label, value]) =>
+                `<tr><th align="left">${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`
+            ),
+            '</table>',
+          ]
+        : [];
+
+      return [
+        '<!DOCTYPE html>',
+        '<html>',
+        '<body>',
+        ...paragraphs,
+        ...table,
+        '</body>',
+        '</html>',
+        '',
+      ].join('\n');
+    },
+  };
+}
+
+/**
+ * Default English templates. Renderers fill in `current` or `next` as
+ * listed in REQUIRED_TERMS before calling them.
+ */
+export const DEFAULT_NOTIFICATION_TEMPLATES: Readonly<
+  Record<NotificationType, NotificationTemplate>
+> = {
+  'renewal-notice': createNotificationTemplate({
+    subject: (view) =>
+      view.renewalDate
+        ? `Your ${view.productName} subscription renews on ${view.renewalDate}`
+        : `Your ${view.productName} subscription is about to renew`,
+    paragraphs: (view) => {
+      const next = view.next as FormattedTerm;
+      const when = view.renewalDate ? `on ${view.renewalDate}` : 'soon';
+      const paragraphs = [
+        `Your ${view.productName} subscription renews ${when}. The next term is ` +
+          `${next.termMonths} months and you will be charged ${next.amount}, which works out ` +
+          `to ${next.monthlyRate} a month.`,
+      ];
+
+      if (view.current) {
+        paragraphs.push(
+          `Your current term of ${view.current.termMonths} months cost ${view.current.amount}.`
+        );
+      }
+
+      paragraphs.push(
+        'If you would like a shorter term or do not want to renew, change or cancel your ' +
+          'subscription before the renewal date.'
+      );
+      return paragraphs;
+    },
+    summary: (view) => view.next,
+  }),
+  receipt: createNotificationTemplate({
+    subject: (view) => `Receipt for your ${view.productName} subscription`,
+    paragraphs: (view) => {
+      const current = view.current as FormattedTerm;
+      const paragraphs = [
+        `Thank you for your payment of ${current.amount} for ${current.termMonths} months of ` +
+          `${view.productName}${view.paidAt ? ` on ${view.paidAt}` : ''}.`,
+      ];
+
+      if (view.next) {
+        paragraphs.push(
+          `Your next term is ${view.next.termMonths} months for ${view.next.amount}` +
+            `${view.renewalDate ? `, charged on ${view.renewalDate}` : ''}.`
+        );
+      }
+
+      return paragraphs;
+    },
+    summary: (view) => view.current,
+  }),
+  'payment-failed': createNotificationTemplate({
+    subject: (view) => `Payment failed for your ${view.productName} subscription`,
+    paragraphs: (view) => {
+      const current = view.current as FormattedTerm;
+      const retry = view.retryDate ? `We will try again on ${view.retryDate}. ` : '';
+
+      return [
+        `We could not charge ${current.amount} for the next ${current.termMonths} months of ` +
+          `${view.productName}${view.failureReason ? ` (${view.failureReason})` : ''}.`,
+        `${retry}Please update your payment details to keep your subscription active.`,
+      ];
+    },
+    summary: (view) => view.current,
+  }),
+  'term-advanced': createNotificationTemplate({
+    subject: (view) => `Your ${view.productName} term is now ${view.next?.termMonths} months`,
+    paragraphs: (view) => {
+      const next = view.next as FormattedTerm;
+      const from = view.current ? ` from ${view.current.termMonths} months` : '';
+
+      return [
+        `Your ${view.productName} term length changed${from} to ${next.termMonths} months.`,
+        `The new term costs ${next.amount}, ${next.discount} off the monthly price` +
+          `${view.renewalDate ? `, and is charged on ${view.renewalDate}` : ''}.`,
+      ];
+    },
+    summary: (view) => view.next,
+  }),
+};
+
+/**
+ * Renders customer notifications from term billing
+ */
+export class NotificationRenderer {
+  private locale: string;
+  private timeZone: string;
+  private productName: string;
+  private templates: Record<NotificationType, NotificationTemplate>;
+
+  /**
+   * Creates a new notification renderer
+   * @param options - Locale, time zone, product name and template overrides
+   */
+  constructor(options: NotificationRendererOptions = {}) {
+    this.locale = options.locale || 'en-US';
+    this.timeZone = options.timeZone || 'UTC';
+    this.productName = options.productName || 'Fibonacci Billing';
+    this.templates = { ...DEFAULT_NOTIFICATION_TEMPLATES, ...options.templates };
+  }
+
+  /**
+   * Renders a notification
+   * @param type - Notification kind
+   * @param context - Terms, dates and customer details
+   * @returns Subject, plain text and HTML
+   * @throws Error if the context lacks the term the notification is about
+   */
+  render(type: NotificationType, context: NotificationContext): RenderedNotification {
+    const template = this.templates[type];
+    const required = REQUIRED_TERMS[type];
+
+    if (!template) {
+      throw new Error(`Unknown notification type: ${type}`);
+    }
+
+    if (!context[required]) {
+      throw new Error(`A ${type} notification needs the ${required} term`);
+    }
+
+    const view = this.getView(type, context);
+
+    return {
+      type,
+      subject: template.subject(view),
+      text: template.text(view),
+      html: template.html(view),
+    };
+  }
+
+  /**
+   * Formats a notification context for the renderer's locale and time zone
+   * @param type - Notification kind
+   * @param context - Terms, dates and customer details
+   * @returns Formatted notification values
+   */
+  private getView(type: NotificationType, context: NotificationContext): NotificationView {
+    return {
+      type,
+      customerName: context.customerName || '',
+      productName: context.productName || this.productName,
+      current: context.current && this.formatTerm(context.current),
+      next: context.next && this.formatTerm(context.next),
+      renewalDate: context.renewalDate && this.formatDate(context.renewalDate),
+      paidAt: context.paidAt && this.formatDate(context.paidAt),
+      retryDate: context.retryDate && this.formatDate(context.retryDate),
+      failureReason: context.failureReason,
+      context,
+    };
+  }
+
+  /**
+   * Formats a term's billing
+   * @param billing - Term billing
+   * @returns Formatted term
+   */
+  private formatTerm(billing: BillingCycleInfo): FormattedTerm {
+    return {
+      cycle: billing.cycle,
+      termMonths: billing.termMonths,
+      amount: formatMoney(billing.amounts.final, this.locale),
+      monthlyRate: formatMoney(billing.amounts.effectiveMonthlyRate, this.locale),
+      discount: new Intl.NumberFormat(this.locale, {
+        style: 'percent',
+        maximumFractionDigits: 2,
+      }).format(billing.discount / 100),
+      savings: formatMoney(billing.amounts.savings, this.locale),
+    };
+  }
+
+  /**
+   * Formats a date as a long calendar date in the renderer's time zone
+   * @param date - Date to format
+   * @returns The formatted date, e.g. 'June 30, 2024'
+   */
+  private formatDate(date: Date): string {
+    return new Intl.DateTimeFormat(this.locale, {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: this.timeZone,
+    }).format(date);
+  }
+}
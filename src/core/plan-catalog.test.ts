@@ -0,0 +1,33 @@
+import { PlanCatalog, getPlanMetadata, getPlanReference } from './plan-catalog';
+
+const catalog = new PlanCatalog([
+  { planId: 'pro', version: 2, billingOptions: { basePrice: 12 } },
+  { planId: 'pro', version: 1, billingOptions: { basePrice: 10 } },
+]);
+
+describe('PlanCatalog', () => {
+  it('should keep the pricing of each plan version', () => {
+    expect(catalog.getVersions('pro').map((plan) => plan.version)).toEqual([1, 2]);
+    expect(catalog.getVersion('pro').version).toBe(2);
+    expect(catalog.createEngine('pro', 1).calculateNextBilling(1).finalAmount).toBe(19);
+    expect(catalog.createEngine('pro').calculateNextBilling(1).finalAmount).toBe(22.8);
+  });
+
+  it('should reject unknown and duplicate versions', () => {
+    expect(catalog.hasPlan('basic')).toBe(false);
+    expect(() => catalog.getVersion('basic')).toThrow('Unknown plan: basic');
+    expect(() => catalog.getVersion('pro', 3)).toThrow('Unknown version 3 of plan pro');
+    expect(() => catalog.addVersion({ planId: 'pro', version: 1, billingOptions: {} })).toThrow(
+      'already has a version 1'
+    );
+    expect(() => catalog.addVersion({ planId: 'pro', version: 1.5, billingOptions: {} })).toThrow();
+  });
+
+  it('should round-trip plan versions through subscription metadata', () => {
+    const metadata = { ...getPlanMetadata(catalog.getVersion('pro', 1)), quantity: '3' };
+
+    expect(metadata.fibonacciPlanVersion).toBe('1');
+    expect(getPlanReference(metadata)).toEqual({ planId: 'pro', version: 1 });
+    expect(getPlanReference({ fibonacciBillingCycle: '2' })).toBeUndefined();
+  });
+});
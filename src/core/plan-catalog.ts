@@ -0,0 +1,154 @@
+/**
+ * Plan versioning for Fibonacci Billing
+ *
+ * A plan catalog holds every version of each plan, so a subscription can keep
+ * the pricing it was sold under when the plan changes. Integrations record the
+ * plan and version in the provider's subscription metadata and price each new
+ * term from that version until the subscription is migrated.
+ */
+
+import { PlanReference, PlanVersion } from '../types';
+import FibonacciBilling from './fibonacci-billing';
+import { assertValidBillingOptions } from './validation';
+
+/**
+ * Versioned plan definitions keyed by plan ID
+ */
+export class PlanCatalog {
+  private plans: { [planId: string]: PlanVersion[] } = {};
+
+  /**
+   * Creates a new plan catalog
+   * @param versions - Plan versions to add
+   */
+  constructor(versions: PlanVersion[] = []) {
+    versions.forEach((version) => this.addVersion(version));
+  }
+
+  /**
+   * Adds a plan version. Versions are immutable, so an existing version
+   * cannot be replaced.
+   * @param version - Plan version to add
+   * @throws Error if the version is invalid or already exists
+   */
+  addVersion(version: PlanVersion): void {
+    if (!version.planId) {
+      throw new Error('Plan versions need a planId');
+    }
+
+    if (!Number.isInteger(version.version) || version.version < 1) {
+      throw new Error(
+        `Plan ${version.planId} version must be a positive whole number, got ${version.version}`
+      );
+    }
+
+    const versions = this.plans[version.planId] || [];
+    if (versions.some((existing) => existing.version === version.version)) {
+      throw new Error(`Plan ${version.planId} already has a version ${version.version}`);
+    }
+
+    // Fail on invalid billing options now rather than when a subscription renews
+    assertValidBillingOptions(version.billingOptions, `${version.planId}@${version.version}`);
+
+    this.plans[version.planId] = [...versions, { ...version }].sort(
+      (a, b) => a.version - b.version
+    );
+  }
+
+  /**
+   * Checks whether the catalog has a plan
+   * @param planId - Plan identifier
+   * @returns Whether the plan has at least one version
+   */
+  hasPlan(planId: string): boolean {
+    return Boolean(this.plans[planId]);
+  }
+
+  /**
+   * Gets every version of a plan
+   * @param planId - Plan identifier
+   * @returns Versions in ascending order
+   */
+  getVersions(planId: string): PlanVersion[] {
+    return [...this.getPlan(planId)];
+  }
+
+  /**
+   * Gets a version of a plan
+   * @param planId - Plan identifier
+   * @param version - Version number (defaults to the latest version)
+   * @returns The plan version
+   * @throws Error if the plan or version does not exist
+   */
+  getVersion(planId: string, version?: number): PlanVersion {
+    const versions = this.getPlan(planId);
+
+    if (version === undefined) {
+      return versions[versions.length - 1];
+    }
+
+    const match = versions.find((candidate) => candidate.version === version);
+    if (!match) {
+      throw new Error(`Unknown version ${version} of plan ${planId}`);
+    }
+
+    return match;
+  }
+
+  /**
+   * Creates a billing engine for a version of a plan
+   * @param planId - Plan identifier
+   * @param version - Version number (defaults to the latest version)
+   * @returns Billing engine with the version's billing options
+   */
+  createEngine(planId: string, version?: number): FibonacciBilling {
+    return new FibonacciBilling(this.getVersion(planId, version).billingOptions);
+  }
+
+  /**
+   * Gets the versions of a plan
+   * @param planId - Plan identifier
+   * @returns Versions in ascending order
+   * @throws Error if the plan does not exist
+   */
+  private getPlan(planId: string): PlanVersion[] {
+    const versions = this.plans[planId];
+    if (!versions) {
+      throw new Error(`Unknown plan: ${planId}`);
+    }
+    return versions;
+  }
+}
+
+/**
+ * Builds the subscription metadata that records a plan version
+ * @param plan - Plan version the subscription is sold under
+ * @returns Metadata with fibonacciPlanId and fibonacciPlanVersion
+ */
+export function getPlanMetadata(plan: PlanReference): {
+  fibonacciPlanId: string;
+  fibonacciPlanVersion: string;
+} {
+  return {
+    fibonacciPlanId: plan.planId,
+    fibonacciPlanVersion: plan.version.toString(),
+  };
+}
+
+/**
+ * Reads the plan version recorded in subscription metadata
+ * @param metadata - Provider subscription metadata
+ * @returns The plan reference, or undefined if the subscription has no plan version
+ */
+export function getPlanReference(
+  metadata: { [key: string]: string } | null | undefined
+): PlanReference | undefined {
+  if (!metadata?.fibonacciPlanId || !metadata.fibonacciPlanVersion) {
+    return undefined;
+  }
+
+  return {
+    planId: metadata.fibonacciPlanId,
+    version: parseInt(metadata.fibonacciPlanVersion, 10),
+  };
+}
@@ -0,0 +1,54 @@
+import { comparePlans } from './plan-comparison';
+import { ComparisonPlan } from '../types';
+
+const plans: ComparisonPlan[] = [
+  { type: 'monthly', price: 10 },
+  { type: 'fibonacci', options: { basePrice: 10 } },
+  { type: 'annual', monthlyPrice: 10, discountRate: 0.2 },
+];
+
+describe('comparePlans', () => {
+  it('should align cumulative costs month by month', () => {
+    const comparison = comparePlans({ months: 12, plans });
+    const [monthly, fibonacci, annual] = comparison.plans;
+
+    expect(comparison.baseline).toBe('Monthly');
+    expect(monthly.cumulative.map((total) => total.amount)).toEqual([
+      1000, 2000, 3000, 4000, 5000, 6000, 7000, 8000, 9000, 10000, 11000, 12000,
+    ]);
+    // Terms of 1, 2, 3, 5 and 8 months start in months 1, 2, 4, 7 and 12
+    expect(fibonacci.payments.map((payment) => payment.amount)).toEqual([
+      1000, 1900, 0, 2700, 0, 0, 4000, 0, 0, 0, 0, 5200,
+    ]);
+    expect(annual.payments[0].amount).toBe(9600);
+    expect(annual.total.amount).toBe(9600);
+  });
+
+  it('should report savings against the first plan and break-even months', () => {
+    const comparison = comparePlans({ months: 12, plans });
+    const [monthly, fibonacci, annual] = comparison.plans;
+
+    expect(monthly.breakEvenMonth).toBe(1);
+    expect(monthly.totalSavings.amount).toBe(0);
+    expect(annual.savings.slice(8).map((saving) => saving.amount)).toEqual([-600, 400, 1400, 2400]);
+    expect(annual.breakEvenMonth).toBe(10);
+
+    // The 8-month term is paid for up front in month 12
+    expect(fibonacci.totalSavings.amount).toBe(-2800);
+    expect(fibonacci.breakEvenMonth).toBeNull();
+    expect(comparePlans({ months: 11, plans }).plans[1].breakEvenMonth).toBe(10);
+  });
+
+  it('should reject invalid horizons, prices and mixed currencies', () => {
+    expect(() => comparePlans({ months: 0, plans })).toThrow(RangeError);
+    expect(() => comparePlans({ months: 12, plans: [{ type: 'monthly', price: -1 }] })).toThrow(
+      RangeError
+    );
+    expect(() =>
+      comparePlans({
+        months: 12,
+        plans: [{ type: 'fibonacci', options: { basePrice: 10, currency: 'EUR' } }],
+      })
+    ).toThrow('one currency');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Plan comparison for Fibonacci Billing
+ *
+ * Lines up what a customer pays on a Fibonacci plan against flat monthly and
+ * annual plans month by month. Every plan is charged up front for the period
+ * it covers, so cumulative costs include terms that run past the horizon.
+ */
+
+import {
+  ComparisonPlan,
+  Money,
+  PlanComparison,
+  PlanComparisonOptions,
+  PlanComparisonSeries,
+  RoundingMode,
+} from '../types';
+import FibonacciBilling from './fibonacci-billing';
+import { addMoney, createMoney, multiplyMoney, subtractMoney, toMinorUnits } from './money';
+
+const DEFAULT_NAMES = {
+  fibonacci: 'Fibonacci',
+  monthly: 'Monthly',
+  annual: 'Annual',
+};
+
+/**
+ * Compares the cost of several plans over a number of months
+ * @param options - Horizon, plans, currency and rounding mode
+ * @returns Cumulative costs, savings against the first plan and break-even months
+ */
+export function comparePlans(options: PlanComparisonOptions): PlanComparison {
+  const { months, plans, roundingMode } = options;
+  const currency = options.currency || 'USD';
+
+  if (!Number.isInteger(months) || months < 1) {
+    throw new RangeError(`months must be a positive whole number, got ${months}`);
+  }
+
+  if (!plans.length) {
+    throw new Error('At least one plan is required to compare');
+  }
+
+  const costs = plans.map((plan) => {
+    const payments = getPlanPayments(plan, months, currency, roundingMode);
+    const cumulative: Money[] = [];
+
+    payments.reduce(
+      (total, payment) => {
+        const next = addMoney(total, payment);
+        cumulative.push(next);
+        return next;
+      },
+      createMoney(0, currency)
+    );
+
+    return { plan, payments, cumulative };
+  });
+
+  const baseline = costs[0].cumulative;
+
+  const series: PlanComparisonSeries[] = costs.map(({ plan, payments, cumulative }) => {
+    const savings = cumulative.map((total, month) => subtractMoney(baseline[month], total));
+    let breakEvenMonth: number | null = null;
+
+    // Walk back from the end while the plan is no more expensive than the baseline
+    for (let month = months - 1; month >= 0 && savings[month].amount >= 0; month--) {
+      breakEvenMonth = month + 1;
+    }
+
+    return {
+      name: plan.name || DEFAULT_NAMES[plan.type],
+      type: plan.type,
+      payments,
+      cumulative,
+      total: cumulative[months - 1],
+      savings,
+      totalSavings: savings[months - 1],
+      breakEvenMonth,
+    };
+  });
+
+  return { months, currency, baseline: series[0].name, plans: series };
+}
+
+/**
+ * Gets the amount a plan charges at the start of each month
+ * @param plan - Plan definition
+ * @param months - Number of months
+ * @param currency - ISO 4217 currency code
+ * @param roundingMode - Rounding mode for converting prices to minor units
+ * @returns Payment for each month
+ */
+function getPlanPayments(
+  plan: ComparisonPlan,
+  months: number,
+  currency: string,
+  roundingMode?: RoundingMode
+): Money[] {
+  const payments = Array.from({ length: months }, () => createMoney(0, currency));
+
+  if (plan.type === 'fibonacci') {
+    const billing = new FibonacciBilling({ currency, roundingMode, ...plan.options });
+
+    if (billing.getCurrency() !== currency) {
+      throw new Error(`Plans must share one currency: ${currency} and ${billing.getCurrency()}`);
+    }
+
+    for (let cycle = 0, month = 0; month < months; cycle++) {
+      const next = billing.calculateNextBilling(cycle);
+      payments[month] = next.amounts.final;
+      month += next.termMonths;
+    }
+
+    return payments;
+  }
+
+  if (plan.type === 'monthly') {
+    assertPrice(plan.price, 'price');
+    return payments.map(() => toMinorUnits(plan.price, currency, roundingMode));
+  }
+
+  const discountRate = plan.discountRate || 0;
+  assertPrice(plan.monthlyPrice, 'monthlyPrice');
+
+  if (!Number.isFinite(discountRate) || discountRate < 0 || discountRate > 1) {
+    throw new RangeError(`Annual discountRate must be between 0 and 1, got ${discountRate}`);
+  }
+
+  const yearly = multiplyMoney(
+    toMinorUnits(plan.monthlyPrice * 12, currency, roundingMode),
+    1 - discountRate,
+    roundingMode
+  );
+
+  return payments.map((payment, month) => (month % 12 === 0 ? yearly : payment));
+}
+
+/**
+ * Checks that a plan price is a non-negative number
+ * @param price - Price in major units
+ * @param field - Field name for the error message
+ * @throws RangeError if the price is invalid
+ */
+function assertPrice(price: number, field: string): void {
+  if (!Number.isFinite(price) || price < 0) {
+    throw new RangeError(`${field} must be a non-negative number, got ${price}`);
+  }
+}
@@ -0,0 +1,81 @@
+import FibonacciBilling from './fibonacci-billing';
+import { SteppedDiscountPolicy } from './discount-policies';
+import { InvalidPlanDefinitionError } from './errors';
+import { PLAN_DEFINITION_SCHEMA, validatePlanDefinition } from './plan-definition';
+import { LucasSequence } from './term-sequences';
+
+describe('plan definitions', () => {
+  it('should round-trip a plan through JSON', () => {
+    const billing = new FibonacciBilling({
+      basePrice: 20,
+      currency: 'eur',
+      sequence: new LucasSequence(),
+      discountPolicy: new SteppedDiscountPolicy([
+        { minTermMonths: 4, discount: 0.1 },
+        { minTermMonths: 7, discount: 0.2 },
+      ]),
+      capTerm: true,
+      maxTerm: 7,
+    });
+
+    const json = JSON.stringify(billing);
+    expect(JSON.parse(json)).toEqual({
+      schemaVersion: 1,
+      basePrice: 20,
+      currency: 'EUR',
+      roundingMode: 'half-up',
+      sequence: { type: 'lucas' },
+      discountPolicy: {
+        type: 'stepped',
+        tiers: [
+          { minTermMonths: 4, discount: 0.1 },
+          { minTermMonths: 7, discount: 0.2 },
+        ],
+      },
+      maxTerm: 7,
+    });
+
+    const restored = FibonacciBilling.fromJSON(json);
+    expect(restored.generateBillingSchedule(5)).toEqual(billing.generateBillingSchedule(5));
+    expect(restored.toJSON()).toEqual(billing.toJSON());
+  });
+
+  it('should apply defaults and reject every unknown or invalid field', () => {
+    const billing = FibonacciBilling.fromJSON({ schemaVersion: 1, basePrice: 10, currency: 'USD' });
+    expect(billing.calculateNextBilling(3).termMonths).toBe(5);
+    expect(billing.calculateNextBilling(3).discount).toBe(20);
+
+    const issues = validatePlanDefinition({
+      schemaVersion: 2,
+      basePrice: -1,
+      currency: 'USD',
+      sequence: { type: 'custom', terms: [1, 0], repeat: true },
+      discountPolicy: { type: 'linear' },
+      maxTerms: 12,
+    });
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'schemaVersion',
+      'basePrice',
+      'sequence.terms[1]',
+      'sequence.repeat',
+      'discountPolicy.rate',
+      'maxTerms',
+    ]);
+    expect(issues[3].message).toBe('Unknown field: sequence.repeat');
+    expect(() => FibonacciBilling.fromJSON('{"schemaVersion":1,"basePrice":10}')).toThrow(
+      InvalidPlanDefinitionError
+    );
+    expect(PLAN_DEFINITION_SCHEMA.required).toEqual(['schemaVersion', 'basePrice', 'currency']);
+  });
+
+  it('should refuse to serialize options a definition cannot describe', () => {
+    const billing = new FibonacciBilling({ trial: { days: 14 } });
+    expect(() => billing.toJSON()).toThrow('Plan definitions cannot describe these options: trial');
+
+    const custom = new FibonacciBilling({
+      sequence: { name: 'quarterly', termAt: () => 3 },
+    });
+    expect(() => custom.toJSON()).toThrow('The quarterly term sequence does not implement toJSON');
+  });
+});
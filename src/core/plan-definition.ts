@@ -0,0 +1,435 @@
+/**
+ * Plan definitions for Fibonacci Billing
+ *
+ * A plan definition is the canonical JSON form of a plan's pricing: base
+ * price, currency, term sequence, discount policy and term cap. Definitions
+ * are checked against the published JSON Schema when they are loaded, and
+ * unknown fields are rejected so typos never fall back to defaults silently.
+ */
+
+import {
+  BillingOptionsIssue,
+  DiscountPolicy,
+  DiscountPolicyDefinition,
+  FibonacciBillingOptions,
+  JsonSchema,
+  PlanDefinition,
+  TermSequence,
+  TermSequenceDefinition,
+} from '../types';
+import {
+  CycleTableDiscountPolicy,
+  ExponentialDecayDiscountPolicy,
+  LinearDiscountPolicy,
+  SteppedDiscountPolicy,
+} from './discount-policies';
+import { InvalidPlanDefinitionError } from './errors';
+import {
+  AdditiveSequence,
+  CustomSequence,
+  GeometricSequence,
+  resolveTermSequence,
+} from './term-sequences';
+import { validateBillingOptions } from './validation';
+
+/**
+ * Current version of the plan definition format
+ */
+export const PLAN_DEFINITION_VERSION = 1;
+
+const fraction: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+const termLength: JsonSchema = { type: 'integer', minimum: 1 };
+
+const TYPE_NAMES = {
+  object: 'an object',
+  array: 'an array',
+  string: 'a string',
+  number: 'a number',
+  integer: 'a whole number',
+  boolean: 'true or false',
+};
+
+/**
+ * Builds the schema of one variant of a tagged union
+ * @param type - Allowed value(s) of the `type` field
+ * @param properties - Other fields, all required
+ * @param optional - Fields that may be omitted
+ * @returns Variant schema
+ */
+function variant(
+  type: string | string[],
+  properties: { [name: string]: JsonSchema } = {},
+  optional: string[] = []
+): JsonSchema {
+  return {
+    type: 'object',
+    required: ['type', ...Object.keys(properties).filter((name) => !optional.includes(name))],
+    additionalProperties: false,
+    properties: {
+      type: Array.isArray(type) ? { enum: type } : { const: type },
+      ...properties,
+    },
+  };
+}
+
+/**
+ * JSON Schema (draft-07) for plan definitions
+ */
+export const PLAN_DEFINITION_SCHEMA: Readonly<JsonSchema> = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Fibonacci Billing plan definition',
+  description: `Version ${PLAN_DEFINITION_VERSION} of the plan definition format`,
+  type: 'object',
+  required: ['schemaVersion', 'basePrice', 'currency'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    schemaVersion: { const: PLAN_DEFINITION_VERSION },
+    basePrice: { type: 'number', minimum: 0 },
+    currency: { type: 'string', pattern: '^[A-Za-z]{3}$' },
+    roundingMode: { enum: ['half-up', 'half-even', 'floor'] },
+    sequence: {
+      oneOf: [
+        variant(['fibonacci', 'lucas', 'fibonacci-skip-one']),
+        variant('additive', { first: termLength, second: termLength }),
+        variant('geometric', { initial: termLength, ratio: { type: 'number', minimum: 1 } }),
+        variant('custom', { terms: { type: 'array', minItems: 1, items: termLength } }),
+      ],
+    },
+    discountPolicy: {
+      oneOf: [
+        variant('linear', { rate: fraction, ceiling: fraction }, ['ceiling']),
+        variant('stepped', {
+          tiers: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['minTermMonths', 'discount'],
+              additionalProperties: false,
+              properties: { minTermMonths: termLength, discount: fraction },
+            },
+          },
+        }),
+        variant('cycle-table', { discounts: { type: 'array', minItems: 1, items: fraction } }),
+        variant('exponential-decay', {
+          floorPrice: { type: 'number', minimum: 0 },
+          decayRate: { type: 'number', minimum: 0 },
+        }),
+      ],
+    },
+    maxTerm: termLength,
+  },
+};
+
+/**
+ * Options a plan definition cannot describe
+ */
+const UNDESCRIBED_OPTIONS: Array<keyof FibonacciBillingOptions> = [
+  'refundPolicy',
+  'tax',
+  'coupons',
+  'trial',
+  'seats',
+  'usage',
+];
+
+/**
+ * Finds every problem with a plan definition
+ * @param definition - Parsed plan definition
+ * @returns Problems found (empty if the definition is valid)
+ */
+export function validatePlanDefinition(definition: unknown): BillingOptionsIssue[] {
+  const issues: BillingOptionsIssue[] = [];
+  validateValue(PLAN_DEFINITION_SCHEMA, definition, '', issues);
+
+  if (issues.length) {
+    return issues;
+  }
+
+  // The schema is satisfied; the strategies and engine check the rest
+  const { options, issues: strategyIssues } = buildOptions(definition as PlanDefinition);
+  return [...strategyIssues, ...validateBillingOptions(options)];
+}
+
+/**
+ * Converts a plan definition into billing options
+ * @param json - Plan definition, or its JSON text
+ * @returns Billing options described by the definition
+ * @throws InvalidPlanDefinitionError listing every problem found
+ */
+export function parsePlanDefinition(
+  json: string | PlanDefinition
+): Partial<FibonacciBillingOptions> {
+  const definition = typeof json === 'string' ? JSON.parse(json) : json;
+  const issues = validatePlanDefinition(definition);
+
+  if (issues.length) {
+    throw new InvalidPlanDefinitionError(issues);
+  }
+
+  return buildOptions(definition).options;
+}
+
+/**
+ * Lists the options set on a plan that a plan definition cannot describe
+ * @param options - Billing options
+ * @returns Names of the options
+ */
+export function getUndescribedOptions(options: Partial<FibonacciBillingOptions>): string[] {
+  return UNDESCRIBED_OPTIONS.filter((name) => {
+    const value = options[name];
+    return Array.isArray(value) ? value.length > 0 : value !== undefined;
+  });
+}
+
+/**
+ * Describes a term sequence or discount policy for a plan definition
+ * @param strategy - Sequence or policy
+ * @param label - Kind of strategy for the error message
+ * @returns The strategy's definition
+ * @throws Error if the strategy cannot be serialized
+ */
+export function describeStrategy<T>(strategy: { name: string; toJSON?(): T }, label: string): T {
+  if (!strategy.toJSON) {
+    throw new Error(`The ${strategy.name} ${label} does not implement toJSON`);
+  }
+  return strategy.toJSON();
+}
+
+/**
+ * Builds billing options from a definition that satisfies the schema
+ * @param definition - Plan definition
+ * @returns Billing options and any problems creating the strategies
+ */
+function buildOptions(definition: PlanDefinition): {
+  options: Partial<FibonacciBillingOptions>;
+  issues: BillingOptionsIssue[];
+} {
+  const issues: BillingOptionsIssue[] = [];
+  const create = <T>(path: string, factory: () => T): T | undefined => {
+    try {
+      return factory();
+    } catch (error) {
+      issues.push({ path, message: error instanceof Error ? error.message : String(error) });
+      return undefined;
+    }
+  };
+
+  const { sequence, discountPolicy, maxTerm } = definition;
+
+  return {
+    options: {
+      basePrice: definition.basePrice,
+      currency: definition.currency,
+      roundingMode: definition.roundingMode,
+      sequence: sequence && create('sequence', () => createTermSequence(sequence)),
+      discountPolicy:
+        discountPolicy && create('discountPolicy', () => createDiscountPolicy(discountPolicy)),
+      ...(maxTerm !== undefined && { capTerm: true, maxTerm }),
+    },
+    issues,
+  };
+}
+
+/**
+ * Creates a term sequence from its definition
+ * @param definition - Term sequence definition
+ * @returns Term sequence
+ */
+function createTermSequence(definition: TermSequenceDefinition): TermSequence {
+  switch (definition.type) {
+    case 'additive':
+      return new AdditiveSequence(definition.first, definition.second);
+    case 'geometric':
+      return new GeometricSequence(definition.initial, definition.ratio);
+    case 'custom':
+      return new CustomSequence(definition.terms);
+    default:
+      return resolveTermSequence(definition.type);
+  }
+}
+
+/**
+ * Creates a discount policy from its definition
+ * @param definition - Discount policy definition
+ * @returns Discount policy
+ */
+function createDiscountPolicy(definition: DiscountPolicyDefinition): DiscountPolicy {
+  switch (definition.type) {
+    case 'linear':
+      return new LinearDiscountPolicy({ rate: definition.rate, ceiling: definition.ceiling });
+    case 'stepped':
+      return new SteppedDiscountPolicy(definition.tiers);
+    case 'cycle-table':
+      return new CycleTableDiscountPolicy(definition.discounts);
+    case 'exponential-decay':
+      return new ExponentialDecayDiscountPolicy({
+        floorPrice: definition.floorPrice,
+        decayRate: definition.decayRate,
+      });
+  }
+}
+
+/**
+ * Checks a value against a schema, recording every problem found
+ * @param schema - Schema to check against
+ * @param value - Value to check
+ * @param path - Path of the value, e.g. 'discountPolicy.tiers[0]'
+ * @param issues - Problems found so far
+ */
+function validateValue(
+  schema: JsonSchema,
+  value: unknown,
+  path: string,
+  issues: BillingOptionsIssue[]
+): void {
+  const label = path || 'Plan definition';
+  const report = (message: string, at = path) => issues.push({ path: at, message });
+
+  if (schema.oneOf) {
+    if (!isObject(value)) {
+      report(`${label} must be an object`);
+      return;
+    }
+
+    // Every union in the schema is tagged by its type field
+    const typePath = joinPath(path, 'type');
+    const getTypes = (branch: JsonSchema) => getAllowedValues(branch.properties?.type || {});
+    const branch = schema.oneOf.find((candidate) =>
+      getTypes(candidate).includes(value.type as string)
+    );
+
+    if (!branch) {
+      const types = schema.oneOf.reduce<Array<string | number>>(
+        (all, candidate) => all.concat(getTypes(candidate)),
+        []
+      );
+      report(
+        `${typePath} must be one of ${types.join(', ')}, got ${describe(value.type)}`,
+        typePath
+      );
+      return;
+    }
+
+    validateValue(branch, value, path, issues);
+    return;
+  }
+
+  if (schema.const !== undefined || schema.enum) {
+    const allowed = getAllowedValues(schema);
+    if (!allowed.includes(value as string | number)) {
+      report(
+        `${label} must be ${allowed.length > 1 ? 'one of ' : ''}${allowed.join(', ')}, got ${describe(value)}`
+      );
+    }
+    return;
+  }
+
+  if (schema.type && !hasType(value, schema.type)) {
+    report(`${label} must be ${TYPE_NAMES[schema.type]}, got ${describe(value)}`);
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report(`${label} must be at least ${schema.minimum}, got ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report(`${label} must be at most ${schema.maximum}, got ${value}`);
+    }
+  }
+
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    report(`${label} must match ${schema.pattern}, got ${describe(value)}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report(`${label} must have at least ${schema.minItems} item(s)`);
+    }
+    if (schema.items) {
+      const items = schema.items;
+      value.forEach((item, index) => validateValue(items, item, `${path}[${index}]`, issues));
+    }
+  }
+
+  if (isObject(value) && schema.properties) {
+    const properties = schema.properties;
+
+    (schema.required || []).forEach((name) => {
+      if (value[name] === undefined) {
+        report(`${joinPath(path, name)} is required`, joinPath(path, name));
+      }
+    });
+
+    Object.keys(value).forEach((name) => {
+      const fieldPath = joinPath(path, name);
+
+      if (properties[name]) {
+        if (value[name] !== undefined) {
+          validateValue(properties[name], value[name], fieldPath, issues);
+        }
+      } else if (schema.additionalProperties === false) {
+        report(`Unknown field: ${fieldPath}`, fieldPath);
+      }
+    });
+  }
+}
+
+/**
+ * Checks whether a value has a JSON type
+ * @param value - Value to check
+ * @param type - JSON Schema type
+ * @returns Whether the value has the type
+ */
+function hasType(value: unknown, type: keyof typeof TYPE_NAMES): boolean {
+  switch (type) {
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Checks whether a value is a plain JSON object
+ * @param value - Value to check
+ * @returns Whether the value is an object that is not an array or null
+ */
+function isObject(value: unknown): value is { [name: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Gets the values a const or enum schema allows
+ * @param schema - Schema with const or enum
+ * @returns Allowed values
+ */
+function getAllowedValues(schema: JsonSchema): Array<string | number> {
+  return schema.const !== undefined ? [schema.const] : schema.enum || [];
+}
+
+/**
+ * Joins a field name onto a path
+ * @param path - Parent path ('' for the top level)
+ * @param name - Field name
+ * @returns Field path
+ */
+function joinPath(path: string, name: string): string {
+  return path ? `${path}.${name}` : name;
+}
+
+/**
+ * Formats a value for an error message
+ * @param value - Value to format
+ * @returns JSON representation, or 'undefined'
+ */
+function describe(value: unknown): string {
+  return value === undefined ? 'undefined' : JSON.stringify(value);
+}
@@ -0,0 +1,68 @@
+import { LucasSequence } from './term-sequences';
+import { solvePricing } from './pricing-solver';
+
+describe('solvePricing', () => {
+  it('should find the discount rate for a target effective monthly rate', () => {
+    const solution = solvePricing({
+      targets: [{ type: 'effective-rate', termMonths: 13, monthlyRate: 8 }],
+      solveFor: 'discountRate',
+      billingOptions: { basePrice: 10 },
+    });
+
+    expect(solution.discountRate).toBeCloseTo(1 / 60, 3);
+    expect(solution.targets[0].cycle).toBe(6);
+    expect(solution.targets[0].actual).toBe(8);
+    expect(solution.residual).toBe(0);
+  });
+
+  it('should solve the base price and discount rate together', () => {
+    const solution = solvePricing({
+      targets: [
+        { type: 'cycle-price', cycle: 1, price: 20 },
+        { type: 'effective-rate', termMonths: 5, monthlyRate: 16 },
+      ],
+      solveFor: 'basePriceAndDiscountRate',
+    });
+
+    expect(solution.basePrice).toBe(20);
+    expect(solution.discountRate).toBe(0.05);
+    expect(solution.billingOptions).toEqual({ basePrice: 20, discountRate: 0.05 });
+    expect(solution.residual).toBe(0);
+  });
+
+  it('should build a discount table and report the residual error', () => {
+    const solution = solvePricing({
+      targets: [
+        { type: 'cycle-price', cycle: 3, price: 27 },
+        { type: 'effective-rate', termMonths: 8, monthlyRate: 6 },
+        { type: 'total-savings', cycles: 6, savingsPercentage: 20 },
+      ],
+      solveFor: 'discountTable',
+      billingOptions: { basePrice: 10 },
+    });
+
+    expect(solution.discountTable).toEqual([0.138095, 0.138095, 0.1, 0.138095, 0.4, 0.138095]);
+    expect(solution.targets.map((target) => target.actual)).toEqual([27, 6, 20]);
+    expect(solution.maxRelativeError).toBeLessThan(0.001);
+  });
+
+  it('should reject parameters the plan cannot use', () => {
+    expect(() =>
+      solvePricing({
+        targets: [{ type: 'effective-rate', termMonths: 4, monthlyRate: 8 }],
+        solveFor: 'discountRate',
+        billingOptions: {
+          sequence: new LucasSequence(),
+          discountPolicy: { name: 'flat', discountFor: () => 0 },
+        },
+      })
+    ).toThrow('discountRate only applies to the default linear discount policy');
+
+    expect(() =>
+      solvePricing({
+        targets: [{ type: 'effective-rate', termMonths: 4, monthlyRate: 8 }],
+        solveFor: 'basePrice',
+      })
+    ).toThrow('No 4-month term in the first 120 cycles');
+  });
+});
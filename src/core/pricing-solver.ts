@@ -0,0 +1,439 @@
+/**
+ * Inverse pricing for Fibonacci Billing
+ *
+ * Works backwards from what a plan should cost, e.g. "the 13-month term at
+ * $8/month effective", to the base price, discount rate or per-cycle discount
+ * table that comes closest. Every candidate is priced by the billing engine,
+ * so rounding, caps and coupons are reflected in the reported residual error.
+ */
+
+import {
+  CyclePriceTarget,
+  EffectiveRateTarget,
+  FibonacciBillingOptions,
+  PricingSolution,
+  PricingSolverOptions,
+  PricingTarget,
+  PricingTargetResult,
+  SavingsTarget,
+} from '../types';
+import { CycleTableDiscountPolicy } from './discount-policies';
+import { TermOverflowError } from './errors';
+import FibonacciBilling from './fibonacci-billing';
+import { toMajorUnits, toMinorUnits } from './money';
+
+/**
+ * How many cycles to search for a term of a target length
+ */
+const MAX_SEARCH_CYCLES = 120;
+
+/**
+ * Base price used to measure how prices scale with it
+ */
+const REFERENCE_BASE_PRICE = 1000;
+
+/**
+ * Finds the pricing parameters that best meet a set of targets, minimizing
+ * the root mean square of the relative errors
+ * @param options - Targets, parameters to solve for and the billing options to start from
+ * @returns Solved billing options and how closely each target is met
+ */
+export function solvePricing(options: PricingSolverOptions): PricingSolution {
+  const { targets, solveFor } = options;
+  const billingOptions = options.billingOptions || {};
+  validateTargets(targets);
+
+  if (solveFor === 'discountTable') {
+    return solveDiscountTable(billingOptions, targets);
+  }
+
+  if (!['basePrice', 'discountRate', 'basePriceAndDiscountRate'].includes(solveFor)) {
+    throw new Error(`Unknown pricing parameter: ${solveFor}`);
+  }
+
+  if (solveFor !== 'discountRate' && billingOptions.seats) {
+    throw new Error('basePrice has no effect on plans with seat pricing tiers');
+  }
+
+  if (solveFor === 'basePrice') {
+    const basePrice = fitBasePrice(billingOptions, targets);
+    return createSolution({ ...billingOptions, basePrice }, targets);
+  }
+
+  if (billingOptions.discountPolicy) {
+    throw new Error(
+      'discountRate only applies to the default linear discount policy; ' +
+        'remove discountPolicy or solve for a discountTable'
+    );
+  }
+
+  // Optimize the rate; when solving for both, fit the best base price for each rate
+  const withRate = (discountRate: number): Partial<FibonacciBillingOptions> => {
+    const rated = { ...billingOptions, discountRate };
+    return solveFor === 'discountRate'
+      ? rated
+      : { ...rated, basePrice: fitBasePrice(rated, targets) };
+  };
+  const discountRate = minimizeFraction((rate) => evaluate(withRate(rate), targets).residual);
+
+  return { ...createSolution(withRate(discountRate), targets), discountRate };
+}
+
+/**
+ * Checks that pricing targets are usable
+ * @param targets - Targets to check
+ * @throws RangeError if a target is out of range
+ */
+function validateTargets(targets: PricingTarget[]): void {
+  if (!targets.length) {
+    throw new RangeError('At least one pricing target is required');
+  }
+
+  targets.forEach((target) => {
+    if (target.type === 'effective-rate') {
+      assertWholeNumber(target.termMonths, 'termMonths');
+      assertNonNegative(target.monthlyRate, 'monthlyRate');
+    } else if (target.type === 'cycle-price') {
+      assertWholeNumber(target.cycle, 'cycle');
+      assertNonNegative(target.price, 'price');
+    } else if (target.type === 'total-savings') {
+      assertWholeNumber(target.cycles, 'cycles');
+      if (
+        !Number.isFinite(target.savingsPercentage) ||
+        target.savingsPercentage < 0 ||
+        target.savingsPercentage > 100
+      ) {
+        throw new RangeError(
+          `savingsPercentage must be between 0 and 100, got ${target.savingsPercentage}`
+        );
+      }
+    } else {
+      throw new Error(`Unknown pricing target: ${(target as PricingTarget).type}`);
+    }
+  });
+}
+
+/**
+ * Finds the base price that best meets the price and rate targets. Prices
+ * scale with the base price, so the least-squares fit has a closed form; it
+ * is rounded to the currency's minor units.
+ * @param billingOptions - Billing options with everything but the base price
+ * @param targets - Pricing targets
+ * @returns Base price in major units
+ * @throws Error if there is no price or rate target to fit
+ */
+function fitBasePrice(
+  billingOptions: Partial<FibonacciBillingOptions>,
+  targets: PricingTarget[]
+): number {
+  const reference = evaluate({ ...billingOptions, basePrice: REFERENCE_BASE_PRICE }, targets);
+  let numerator = 0;
+  let denominator = 0;
+
+  reference.results.forEach((result) => {
+    if (result.target.type === 'total-savings') {
+      return;
+    }
+
+    // Minimize relative errors: weight each target by 1 / expected^2
+    const scale = result.actual / REFERENCE_BASE_PRICE;
+    const weight = result.expected ? 1 / (result.expected * result.expected) : 1;
+    numerator += weight * scale * result.expected;
+    denominator += weight * scale * scale;
+  });
+
+  if (!reference.results.some((result) => result.target.type !== 'total-savings')) {
+    throw new Error('Solving for basePrice needs an effective-rate or cycle-price target');
+  }
+
+  const currency = new FibonacciBilling(billingOptions).getCurrency();
+  return toMajorUnits(toMinorUnits(denominator ? numerator / denominator : 0, currency));
+}
+
+/**
+ * Builds a discount table from the targets: priced cycles get the discount
+ * that hits their target, savings targets share the remaining discount across
+ * the cycles they cover, and any other cycle keeps the previous discount
+ * @param billingOptions - Billing options to start from
+ * @param targets - Pricing targets
+ * @returns Solution with a cycle table discount policy
+ */
+function solveDiscountTable(
+  billingOptions: Partial<FibonacciBillingOptions>,
+  targets: PricingTarget[]
+): PricingSolution {
+  const billing = new FibonacciBilling(billingOptions);
+  const implied: number[][] = [];
+  const getBase = (index: number) => billing.calculateNextBilling(index).baseAmount;
+
+  targets.forEach((target) => {
+    if (target.type === 'total-savings') {
+      return;
+    }
+
+    const index = getTargetIndex(billing, target);
+    const termMonths = billing.getNextTerm(index);
+    const price = target.type === 'cycle-price' ? target.price : target.monthlyRate * termMonths;
+    const base = getBase(index);
+
+    implied[index] = [...(implied[index] || []), base > 0 ? 1 - price / base : 0];
+  });
+
+  // Cycles without a price or rate target stay empty (map skips them)
+  const table: Array<number | undefined> = implied.map((discounts) =>
+    clampFraction(discounts.reduce((a, b) => a + b, 0) / discounts.length)
+  );
+
+  // Shorter savings horizons first, so each only fills cycles not already priced
+  targets
+    .filter((target): target is SavingsTarget => target.type === 'total-savings')
+    .sort((a, b) => a.cycles - b.cycles)
+    .forEach(({ cycles, savingsPercentage }) => {
+      let totalBase = 0;
+      let fixedSavings = 0;
+      let openBase = 0;
+
+      for (let index = 0; index < cycles; index++) {
+        const base = getBase(index);
+        const discount = table[index];
+        totalBase += base;
+        if (discount === undefined) {
+          openBase += base;
+        } else {
+          fixedSavings += base * discount;
+        }
+      }
+
+      if (openBase > 0) {
+        const discount = clampFraction(
+          ((savingsPercentage / 100) * totalBase - fixedSavings) / openBase
+        );
+        for (let index = 0; index < cycles; index++) {
+          if (table[index] === undefined) {
+            table[index] = discount;
+          }
+        }
+      }
+    });
+
+  const discountTable: number[] = [];
+  for (let index = 0; index < table.length; index++) {
+    const discount = table[index];
+    discountTable.push(
+      discount === undefined ? (index > 0 ? discountTable[index - 1] : 0) : round(discount, 6)
+    );
+  }
+
+  return {
+    ...createSolution(
+      { ...billingOptions, discountPolicy: new CycleTableDiscountPolicy(discountTable) },
+      targets
+    ),
+    discountTable,
+  };
+}
+
+/**
+ * Prices the targets with a set of billing options
+ * @param billingOptions - Billing options to evaluate
+ * @param targets - Pricing targets
+ * @returns Per-target results, root mean square and largest relative error
+ */
+function evaluate(
+  billingOptions: Partial<FibonacciBillingOptions>,
+  targets: PricingTarget[]
+): { results: PricingTargetResult[]; residual: number; maxRelativeError: number } {
+  const billing = new FibonacciBilling(billingOptions);
+
+  const results = targets.map((target): PricingTargetResult => {
+    if (target.type === 'total-savings') {
+      const actual = billing.getBillingSummary(target.cycles).savingsPercentage;
+      return createResult(target, target.savingsPercentage, actual);
+    }
+
+    const index = getTargetIndex(billing, target);
+    const next = billing.calculateNextBilling(index);
+    return target.type === 'cycle-price'
+      ? createResult(target, target.price, next.finalAmount, next.cycle)
+      : createResult(target, target.monthlyRate, next.effectiveMonthlyRate, next.cycle);
+  });
+
+  const squares = results.reduce((sum, result) => sum + result.relativeError ** 2, 0);
+
+  return {
+    results,
+    residual: Math.sqrt(squares / results.length),
+    maxRelativeError: Math.max(...results.map((result) => Math.abs(result.relativeError))),
+  };
+}
+
+/**
+ * Builds the solution for a set of billing options
+ * @param billingOptions - Solved billing options
+ * @param targets - Pricing targets
+ * @returns Pricing solution
+ */
+function createSolution(
+  billingOptions: Partial<FibonacciBillingOptions>,
+  targets: PricingTarget[]
+): PricingSolution {
+  const { results, residual, maxRelativeError } = evaluate(billingOptions, targets);
+
+  return {
+    billingOptions,
+    basePrice: new FibonacciBilling(billingOptions).getBasePrice(),
+    targets: results,
+    residual,
+    maxRelativeError,
+  };
+}
+
+/**
+ * Builds the result for one target
+ * @param target - Pricing target
+ * @param expected - Value the target asked for
+ * @param actual - Value achieved
+ * @param cycle - Cycle the target was matched to (1-indexed)
+ * @returns Target result
+ */
+function createResult(
+  target: PricingTarget,
+  expected: number,
+  actual: number,
+  cycle?: number
+): PricingTargetResult {
+  const error = actual - expected;
+
+  return {
+    target,
+    ...(cycle !== undefined && { cycle }),
+    expected,
+    actual,
+    error,
+    relativeError: expected ? error / expected : error,
+  };
+}
+
+/**
+ * Finds the cycle a price or rate target applies to
+ * @param billing - Billing engine
+ * @param target - Price or rate target
+ * @returns Cycle (0-indexed)
+ * @throws Error if no term in the search window has the target length
+ */
+function getTargetIndex(
+  billing: FibonacciBilling,
+  target: EffectiveRateTarget | CyclePriceTarget
+): number {
+  if (target.type === 'cycle-price') {
+    return target.cycle - 1;
+  }
+
+  const { termMonths } = target;
+  try {
+    for (let index = 0; index < MAX_SEARCH_CYCLES; index++) {
+      if (billing.getNextTerm(index) === termMonths) {
+        return index;
+      }
+    }
+  } catch (error) {
+    // Terms past an overflow are too long to match any target
+    if (!(error instanceof TermOverflowError)) {
+      throw error;
+    }
+  }
+
+  throw new Error(`No ${termMonths}-month term in the first ${MAX_SEARCH_CYCLES} cycles`);
+}
+
+/**
+ * Minimizes a function of a fraction: a coarse grid finds the best region,
+ * then a golden-section search refines it
+ * @param objective - Function to minimize over [0, 1]
+ * @returns Best fraction found, with as few decimal places as possible
+ */
+function minimizeFraction(objective: (value: number) => number): number {
+  const steps = 100;
+  let best = 0;
+  let bestValue = objective(0);
+
+  for (let step = 1; step <= steps; step++) {
+    const value = objective(step / steps);
+    if (value < bestValue) {
+      best = step / steps;
+      bestValue = value;
+    }
+  }
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.max(best - 1 / steps, 0);
+  let high = Math.min(best + 1 / steps, 1);
+
+  for (let i = 0; i < 30; i++) {
+    const left = high - ratio * (high - low);
+    const right = low + ratio * (high - low);
+    if (objective(left) <= objective(right)) {
+      high = right;
+    } else {
+      low = left;
+    }
+  }
+
+  const refined = (low + high) / 2;
+  const refinedValue = objective(refined);
+  const found = refinedValue <= bestValue ? refined : best;
+  const foundValue = Math.min(refinedValue, bestValue);
+
+  // Prices are rounded to minor units, so a range of values often prices the
+  // same; prefer the one with the fewest decimal places
+  for (let places = 2; places <= 6; places++) {
+    const rounded = round(found, places);
+    if (objective(rounded) <= foundValue) {
+      return rounded;
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Ensures a value is a positive whole number
+ * @param value - Value to check
+ * @param field - Field name for the error message
+ */
+function assertWholeNumber(value: number, field: string): void {
+  if (!Number.isInteger(value) || value < 1) {
+    throw new RangeError(`${field} must be a positive whole number, got ${value}`);
+  }
+}
+
+/**
+ * Ensures a value is a non-negative number
+ * @param value - Value to check
+ * @param field - Field name for the error message
+ */
+function assertNonNegative(value: number, field: string): void {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new RangeError(`${field} must be a non-negative number, got ${value}`);
+  }
+}
+
+/**
+ * Clamps a value to a fraction between 0 and 1
+ * @param value - Value to clamp
+ * @returns Clamped value
+ */
+function clampFraction(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Rounds a value to a number of decimal places
+ * @param value - Value to round
+ * @param places - Decimal places
+ * @returns Rounded value
+ */
+function round(value: number, places: number): number {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,59 @@
+import FibonacciBilling from './fibonacci-billing';
+import { calculateProration, getRemainingFraction } from './proration';
+
+describe('proration', () => {
+  const periodStart = new Date('2024-01-01T00:00:00.000Z');
+  const periodEnd = new Date('2024-01-11T00:00:00.000Z');
+  const changeDate = new Date('2024-01-07T00:00:00.000Z');
+
+  it('should measure the remaining part of the period', () => {
+    expect(getRemainingFraction(periodStart, periodEnd, changeDate)).toBeCloseTo(0.4);
+    expect(getRemainingFraction(periodStart, periodEnd, new Date('2025-01-01'))).toBe(0);
+    expect(() => getRemainingFraction(periodEnd, periodStart, changeDate)).toThrow();
+  });
+
+  it('should credit unused value at the discounted rate and charge the new plan', () => {
+    const current = new FibonacciBilling({ basePrice: 20, discountRate: 0.05 });
+    const upgraded = new FibonacciBilling({ basePrice: 30, discountRate: 0.05 });
+
+    // 8-month term with a 35% discount: $104 now, $156 on the new plan
+    const proration = calculateProration({
+      currentBilling: current.calculateNextBilling(4),
+      newBilling: upgraded.calculateNextBilling(4),
+      periodStart,
+      periodEnd,
+      changeDate,
+    });
+
+    expect(proration.unusedCredit.amount).toBe(4160);
+    expect(proration.newPlanCharge.amount).toBe(6240);
+    expect(proration.netAmount).toEqual({ amount: 2080, currency: 'USD' });
+  });
+
+  it('should return a negative net amount for downgrades', () => {
+    const current = new FibonacciBilling({ basePrice: 30 });
+    const downgraded = new FibonacciBilling({ basePrice: 20 });
+
+    const proration = calculateProration({
+      currentBilling: current.calculateNextBilling(4),
+      newBilling: downgraded.calculateNextBilling(4),
+      periodStart,
+      periodEnd,
+      changeDate,
+    });
+
+    expect(proration.netAmount.amount).toBe(-2080);
+  });
+
+  it('should reject plan changes across currencies', () => {
+    expect(() =>
+      calculateProration({
+        currentBilling: new FibonacciBilling().calculateNextBilling(0),
+        newBilling: new FibonacciBilling({ currency: 'EUR' }).calculateNextBilling(0),
+        periodStart,
+        periodEnd,
+        changeDate,
+      })
+    ).toThrow();
+  });
+});
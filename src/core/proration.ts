@@ -0,0 +1,58 @@
+/**
+ * Proration for mid-term plan changes
+ *
+ * Long prepaid terms make plan changes expensive to get wrong, so the unused
+ * part of the current term is valued at the discounted rate the customer
+ * actually paid, and the new plan is charged for the same remaining period.
+ */
+
+import { ProrationOptions, ProrationResult } from '../types';
+import { multiplyMoney, subtractMoney } from './money';
+
+/**
+ * Gets the fraction of a billing period remaining at a point in time
+ * @param periodStart - Start of the period
+ * @param periodEnd - End of the period
+ * @param at - Point in time
+ * @returns Remaining fraction (0-1)
+ */
+export function getRemainingFraction(periodStart: Date, periodEnd: Date, at: Date): number {
+  const total = periodEnd.getTime() - periodStart.getTime();
+  if (total <= 0) {
+    throw new Error('Billing period must end after it starts');
+  }
+
+  const remaining = periodEnd.getTime() - at.getTime();
+  return Math.min(Math.max(remaining / total, 0), 1);
+}
+
+/**
+ * Calculates the credit and charge for changing plans part way through a term
+ * @param options - Current and new billing information and the current period
+ * @returns Unused credit, new plan charge and the net amount
+ */
+export function calculateProration(options: ProrationOptions): ProrationResult {
+  const { currentBilling, newBilling, roundingMode } = options;
+
+  if (currentBilling.currency !== newBilling.currency) {
+    throw new Error(
+      `Cannot prorate between currencies: ${currentBilling.currency} and ${newBilling.currency}`
+    );
+  }
+
+  const remainingFraction = getRemainingFraction(
+    options.periodStart,
+    options.periodEnd,
+    options.changeDate || new Date()
+  );
+
+  const unusedCredit = multiplyMoney(currentBilling.amounts.final, remainingFraction, roundingMode);
+  const newPlanCharge = multiplyMoney(newBilling.amounts.final, remainingFraction, roundingMode);
+
+  return {
+    remainingFraction,
+    unusedCredit,
+    newPlanCharge,
+    netAmount: subtractMoney(newPlanCharge, unusedCredit),
+  };
+}
@@ -0,0 +1,97 @@
+import FibonacciBilling from './fibonacci-billing';
+import {
+  NoRefundPolicy,
+  ProRataRefundPolicy,
+  DiscountClawbackRefundPolicy,
+  MinimumFeeRefundPolicy,
+} from './refund-policies';
+import { RefundPolicy } from '../types';
+
+// 13-month term at $20/month with a 30% discount: $260 base, $182 paid
+const cancelHalfway = (refundPolicy?: RefundPolicy) =>
+  new FibonacciBilling({
+    basePrice: 20,
+    discountRate: 0.025,
+    refundPolicy,
+  }).calculateRefund({
+    cycle: 5,
+    periodStart: new Date('2024-01-01T00:00:00.000Z'),
+    periodEnd: new Date('2024-01-11T00:00:00.000Z'),
+    cancelDate: new Date('2024-01-06T00:00:00.000Z'),
+  });
+
+const lineTotal = (refund: ReturnType<typeof cancelHalfway>) =>
+  refund.lineItems.reduce((sum, item) => sum + item.amount.amount, 0);
+
+describe('refund policies', () => {
+  it('should not refund anything by default', () => {
+    const refund = cancelHalfway();
+
+    expect(refund.policy).toBe('no-refund');
+    expect(refund.amountPaid.amount).toBe(18200);
+    expect(refund.refundAmount.amount).toBe(0);
+    expect(lineTotal(refund)).toBe(0);
+    expect(cancelHalfway(new NoRefundPolicy())).toEqual(refund);
+  });
+
+  it('should refund the unused half at the discounted rate', () => {
+    const refund = cancelHalfway(new ProRataRefundPolicy());
+
+    expect(refund.usedFraction).toBe(0.5);
+    expect(refund.refundAmount.amount).toBe(9100);
+    expect(refund.lineItems.map((item) => item.amount.amount)).toEqual([18200, -9100]);
+  });
+
+  it('should claw back the discount on used months', () => {
+    const refund = cancelHalfway(new DiscountClawbackRefundPolicy());
+
+    // Used half at the $20 base rate is $130, so $52 comes back
+    expect(refund.refundAmount.amount).toBe(5200);
+    expect(refund.lineItems.map((item) => item.amount.amount)).toEqual([18200, -9100, -3900]);
+    expect(lineTotal(refund)).toBe(refund.refundAmount.amount);
+  });
+
+  it('should claw back part of the discount', () => {
+    expect(cancelHalfway(new DiscountClawbackRefundPolicy(0.5)).refundAmount.amount).toBe(7150);
+  });
+
+  it('should keep at least the minimum fee', () => {
+    expect(cancelHalfway(new MinimumFeeRefundPolicy(50)).refundAmount.amount).toBe(9100);
+    expect(cancelHalfway(new MinimumFeeRefundPolicy(150)).refundAmount.amount).toBe(3200);
+    expect(cancelHalfway(new MinimumFeeRefundPolicy(500)).refundAmount.amount).toBe(0);
+  });
+
+  it('should only refund the intro price for the term the customer subscribed on', () => {
+    const billing = new FibonacciBilling({
+      basePrice: 10,
+      trial: { introPrice: 1 },
+      refundPolicy: new ProRataRefundPolicy(),
+    });
+    const request = {
+      cycle: 0,
+      periodStart: new Date('2024-01-01T00:00:00.000Z'),
+      periodEnd: new Date('2024-01-11T00:00:00.000Z'),
+      cancelDate: new Date('2024-01-06T00:00:00.000Z'),
+    };
+    const kept = billing.calculateTermChange({ cycle: 1, progression: 'step-down' });
+    const reverted = billing.calculateTermChange({
+      cycle: 1,
+      progression: 'step-down',
+      discount: 'revert',
+    });
+
+    expect(billing.calculateRefund(request).amountPaid.amount).toBe(100);
+    expect(billing.calculateRefund({ ...request, discountCycle: 1 }).amountPaid).toEqual(
+      kept.amounts.final
+    );
+    expect(billing.calculateRefund({ ...request, renewed: true }).amountPaid).toEqual(
+      reverted.amounts.final
+    );
+    expect(reverted.amounts.final.amount).toBeGreaterThan(100);
+  });
+
+  it('should reject invalid policy settings', () => {
+    expect(() => new DiscountClawbackRefundPolicy(2)).toThrow();
+    expect(() => new MinimumFeeRefundPolicy(-1)).toThrow();
+  });
+});
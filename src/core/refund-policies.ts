@@ -0,0 +1,176 @@
+/**
+ * Refund policies for early cancellation of prepaid terms
+ *
+ * Every policy returns an itemized breakdown that starts from the amount paid
+ * and subtracts what the customer keeps paying for, so support can explain
+ * exactly how a refund was reached.
+ */
+
+import { Money, RefundBreakdown, RefundContext, RefundLineItem, RefundPolicy } from '../types';
+import { createMoney, multiplyMoney, subtractMoney, sumMoney, toMinorUnits } from './money';
+
+/**
+ * Keeps the full amount paid for the term
+ */
+export class NoRefundPolicy implements RefundPolicy {
+  readonly name = 'no-refund';
+
+  /**
+   * Calculates the refund for a cancelled term
+   * @param context - Cancelled term and how much of it was used
+   * @returns Itemized refund
+   */
+  calculateRefund(context: RefundContext): RefundBreakdown {
+    const paid = context.billing.amounts.final;
+
+    return buildBreakdown(this.name, context, [
+      { description: 'Non-refundable term', amount: negate(paid) },
+    ]);
+  }
+}
+
+/**
+ * Refunds the unused part of the term at the discounted rate paid
+ */
+export class ProRataRefundPolicy implements RefundPolicy {
+  readonly name = 'pro-rata';
+
+  /**
+   * Calculates the refund for a cancelled term
+   * @param context - Cancelled term and how much of it was used
+   * @returns Itemized refund
+   */
+  calculateRefund(context: RefundContext): RefundBreakdown {
+    return buildBreakdown(this.name, context, [usedServiceLine(context)]);
+  }
+}
+
+/**
+ * Refunds the unused part of the term, but reprices the months used without
+ * the long-term discount they were sold with
+ */
+export class DiscountClawbackRefundPolicy implements RefundPolicy {
+  readonly name = 'discount-clawback';
+  private clawbackRate: number;
+
+  /**
+   * Creates a new discount clawback refund policy
+   * @param clawbackRate - Share of the discount on used months to claw back (0-1, defaults to 1)
+   */
+  constructor(clawbackRate = 1) {
+    if (!Number.isFinite(clawbackRate) || clawbackRate < 0 || clawbackRate > 1) {
+      throw new Error(`clawbackRate must be between 0 and 1, got ${clawbackRate}`);
+    }
+    this.clawbackRate = clawbackRate;
+  }
+
+  /**
+   * Calculates the refund for a cancelled term
+   * @param context - Cancelled term and how much of it was used
+   * @returns Itemized refund
+   */
+  calculateRefund(context: RefundContext): RefundBreakdown {
+    const { billing, usedFraction, roundingMode } = context;
+    const usedLine = usedServiceLine(context);
+    const usedAtBase = multiplyMoney(billing.amounts.base, usedFraction, roundingMode);
+    const discountOnUsed = subtractMoney(usedAtBase, negate(usedLine.amount));
+    const clawback = multiplyMoney(discountOnUsed, this.clawbackRate, roundingMode);
+
+    return buildBreakdown(this.name, context, [
+      usedLine,
+      { description: 'Term discount clawed back on used months', amount: negate(clawback) },
+    ]);
+  }
+}
+
+/**
+ * Refunds the unused part of the term, but always keeps at least a minimum fee
+ */
+export class MinimumFeeRefundPolicy implements RefundPolicy {
+  readonly name = 'minimum-fee';
+  private minimumFee: number;
+
+  /**
+   * Creates a new minimum fee refund policy
+   * @param minimumFee - Minimum amount kept, in major units of the plan currency
+   */
+  constructor(minimumFee: number) {
+    if (!Number.isFinite(minimumFee) || minimumFee < 0) {
+      throw new Error(`minimumFee must be a non-negative number, got ${minimumFee}`);
+    }
+    this.minimumFee = minimumFee;
+  }
+
+  /**
+   * Calculates the refund for a cancelled term
+   * @param context - Cancelled term and how much of it was used
+   * @returns Itemized refund
+   */
+  calculateRefund(context: RefundContext): RefundBreakdown {
+    const usedLine = usedServiceLine(context);
+    const fee = toMinorUnits(this.minimumFee, context.billing.currency, context.roundingMode);
+    const topUp = Math.max(fee.amount + usedLine.amount.amount, 0);
+
+    return buildBreakdown(this.name, context, [
+      usedLine,
+      {
+        description: 'Minimum fee not covered by used service',
+        amount: createMoney(-topUp, fee.currency),
+      },
+    ]);
+  }
+}
+
+/**
+ * Builds the line for service used before cancelling, at the discounted rate
+ * @param context - Cancelled term and how much of it was used
+ * @returns Negative line item for the used service
+ */
+function usedServiceLine(context: RefundContext): RefundLineItem {
+  const { billing, usedFraction, roundingMode } = context;
+  const used = multiplyMoney(billing.amounts.final, usedFraction, roundingMode);
+
+  return {
+    description: `Service used (${(usedFraction * billing.termMonths).toFixed(2)} of ${
+      billing.termMonths
+    } months)`,
+    amount: negate(used),
+  };
+}
+
+/**
+ * Assembles a breakdown starting from the amount paid
+ * @param policy - Policy name
+ * @param context - Cancelled term and how much of it was used
+ * @param deductions - Line items deducted from the amount paid
+ * @returns Itemized refund, floored at zero
+ */
+function buildBreakdown(
+  policy: string,
+  context: RefundContext,
+  deductions: RefundLineItem[]
+): RefundBreakdown {
+  const paid = context.billing.amounts.final;
+  const lineItems = [{ description: 'Amount paid for term', amount: paid }, ...deductions];
+  const total = sumMoney(
+    lineItems.map((item) => item.amount),
+    paid.currency
+  );
+
+  return {
+    policy,
+    amountPaid: paid,
+    usedFraction: context.usedFraction,
+    lineItems,
+    refundAmount: createMoney(Math.max(total.amount, 0), paid.currency),
+  };
+}
+
+/**
+ * Negates a money value
+ * @param money - Money value
+ * @returns The negated value
+ */
+function negate(money: Money): Money {
+  return createMoney(-money.amount, money.currency);
+}
@@ -0,0 +1,100 @@
+import { ReminderScheduler, createReminder, getReminderOffset } from './reminder-scheduler';
+import { MemorySubscriptionStore } from './subscription-store';
+import FibonacciBilling from './fibonacci-billing';
+import { ReminderRecord } from '../types';
+
+const engine = new FibonacciBilling({ basePrice: 10 });
+const renewalDate = new Date(Date.UTC(2024, 5, 30));
+const offsets = { defaultDays: 7, byTermMonths: { 13: 30 } };
+
+describe('reminder offsets', () => {
+  it('should pick the offset for the renewing term length', () => {
+    expect(getReminderOffset(13, offsets)).toBe(30);
+    expect(getReminderOffset(8, offsets)).toBe(7);
+    expect(getReminderOffset(8)).toBe(7);
+    expect(() => getReminderOffset(8, { defaultDays: -1 })).toThrow(RangeError);
+
+    const reminder = createReminder(
+      { subscriptionId: 'sub_1', renewalDate, nextBilling: engine.calculateNextBilling(5) },
+      offsets
+    );
+
+    expect(reminder.id).toBe('sub_1:6');
+    expect(reminder.remindAt).toEqual(new Date(Date.UTC(2024, 4, 31)));
+  });
+});
+
+describe('ReminderScheduler', () => {
+  it('should deliver due reminders once and retry failed deliveries', async () => {
+    const store = new MemorySubscriptionStore();
+    const delivered: string[] = [];
+    let failing = true;
+    const scheduler = new ReminderScheduler({
+      store,
+      offsets,
+      deliver: (reminder: ReminderRecord) => {
+        if (failing && reminder.subscriptionId === 'sub_2') {
+          throw new Error('mailbox unavailable');
+        }
+        delivered.push(reminder.id);
+      },
+    });
+
+    await scheduler.schedule({
+      subscriptionId: 'sub_1',
+      renewalDate,
+      nextBilling: engine.calculateNextBilling(5),
+    });
+    await scheduler.schedule({
+      subscriptionId: 'sub_2',
+      renewalDate,
+      nextBilling: engine.calculateNextBilling(2),
+    });
+
+    const early = await scheduler.runDueJobs(new Date(Date.UTC(2024, 5, 1)));
+    expect(early.sent.map((reminder) => reminder.id)).toEqual(['sub_1:6']);
+
+    const due = await scheduler.runDueJobs(new Date(Date.UTC(2024, 5, 25)));
+    expect(due.sent).toEqual([]);
+    expect(due.failed.map((failure) => failure.error)).toEqual(['Error: mailbox unavailable']);
+
+    failing = false;
+    await scheduler.runDueJobs(new Date(Date.UTC(2024, 5, 26)));
+    await scheduler.schedule({
+      subscriptionId: 'sub_1',
+      renewalDate,
+      nextBilling: engine.calculateNextBilling(5),
+    });
+    await scheduler.runDueJobs(new Date(Date.UTC(2024, 5, 27)));
+
+    expect(delivered).toEqual(['sub_1:6', 'sub_2:3']);
+  });
+
+  it('should run due reminders on a timer until stopped', async () => {
+    jest.useFakeTimers({ now: new Date(Date.UTC(2024, 5, 25)) });
+
+    try {
+      const store = new MemorySubscriptionStore();
+      const deliver = jest.fn();
+      const scheduler = new ReminderScheduler({ store, deliver });
+      await scheduler.schedule({
+        subscriptionId: 'sub_1',
+        renewalDate,
+        nextBilling: engine.calculateNextBilling(2),
+      });
+
+      scheduler.start(1000);
+      expect(() => scheduler.start(1000)).toThrow('already started');
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(deliver).toHaveBeenCalledTimes(1);
+
+      scheduler.stop();
+      expect(scheduler.isStarted()).toBe(false);
+      expect((await store.getReminders('sub_1'))[0].sentAt).toEqual(
+        new Date(Date.UTC(2024, 5, 25, 0, 0, 1))
+      );
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
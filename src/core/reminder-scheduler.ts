@@ -0,0 +1,209 @@
+/**
+ * Renewal reminder scheduler for Fibonacci Billing
+ *
+ * Reminders are kept as jobs in a subscription store, so they survive
+ * restarts and can be sent by any process sharing the store. Call
+ * `runDueJobs` from your own cron or queue, or `start` the in-process timer.
+ */
+
+import {
+  ReminderDelivery,
+  ReminderOffsets,
+  ReminderRecord,
+  ReminderRequest,
+  ReminderRunResult,
+  ReminderSchedulerOptions,
+  SubscriptionStore,
+} from '../types';
+import { getReminderDate } from './calendar';
+
+/**
+ * Days before renewal reminders are sent when no offset is configured
+ */
+export const DEFAULT_REMINDER_DAYS = 7;
+
+/**
+ * Why an integration did not schedule a reminder when it has no store to deliver it from
+ */
+export const NO_STORE_REMINDER_REASON =
+  'No subscription store is configured, so the reminder would never be delivered';
+
+/**
+ * Gets how many days before a renewal its reminder is sent
+ * @param termMonths - Length of the renewing term in months
+ * @param offsets - Configured offsets
+ * @returns Days before renewal
+ * @throws RangeError if the offset is not a whole number of days
+ */
+export function getReminderOffset(termMonths: number, offsets: ReminderOffsets = {}): number {
+  const days = offsets.byTermMonths?.[termMonths] ?? offsets.defaultDays ?? DEFAULT_REMINDER_DAYS;
+
+  if (!Number.isInteger(days) || days < 0) {
+    throw new RangeError(
+      `Reminder offset must be a non-negative whole number of days, got ${days}`
+    );
+  }
+
+  return days;
+}
+
+/**
+ * Builds the reminder for a renewal. There is one reminder per subscription
+ * and cycle, so scheduling the same renewal again replaces it.
+ * @param request - Renewal to remind the customer about
+ * @param offsets - Days before renewal by term length
+ * @param timeZone - IANA time zone the days are counted in (defaults to 'UTC')
+ * @returns Unsent reminder
+ */
+export function createReminder(
+  request: ReminderRequest,
+  offsets: ReminderOffsets = {},
+  timeZone = 'UTC'
+): ReminderRecord {
+  const daysBefore =
+    request.daysBefore ?? getReminderOffset(request.nextBilling.termMonths, offsets);
+
+  return {
+    id: `${request.subscriptionId}:${request.nextBilling.cycle}`,
+    subscriptionId: request.subscriptionId,
+    customerId: request.customerId,
+    remindAt: getReminderDate(request.renewalDate, daysBefore, timeZone),
+    renewalDate: request.renewalDate,
+    nextBilling: request.nextBilling,
+  };
+}
+
+/**
+ * Saves a reminder, keeping the sent date of one already sent for the same
+ * renewal so a repeated webhook does not remind the customer twice
+ * @param store - Subscription store
+ * @param reminder - Reminder to save
+ * @returns Promise resolving to the saved reminder
+ */
+export async function saveReminder(
+  store: SubscriptionStore,
+  reminder: ReminderRecord
+): Promise<ReminderRecord> {
+  const reminders = await store.getReminders(reminder.subscriptionId);
+  const existing = reminders.find((stored) => stored.id === reminder.id);
+  const saved = { ...reminder, sentAt: existing?.sentAt };
+
+  await store.saveReminder(saved);
+  return saved;
+}
+
+/**
+ * Schedules renewal reminders and sends them when they are due
+ */
+export class ReminderScheduler {
+  private store: SubscriptionStore;
+  private deliver: ReminderDelivery;
+  private offsets: ReminderOffsets;
+  private timeZone: string;
+  private onError: (error: unknown) => void;
+  private timer?: ReturnType<typeof setInterval>;
+  private running = false;
+
+  /**
+   * Creates a new reminder scheduler
+   * @param options - Store, delivery callback and reminder offsets
+   */
+  constructor(options: ReminderSchedulerOptions) {
+    this.store = options.store;
+    this.deliver = options.deliver;
+    this.offsets = options.offsets || {};
+    this.timeZone = options.timeZone || 'UTC';
+    this.onError =
+      options.onError || ((error) => console.error('Error running due reminders:', error));
+  }
+
+  /**
+   * Schedules the reminder for a renewal
+   * @param request - Renewal to remind the customer about
+   * @returns Promise resolving to the saved reminder
+   */
+  async schedule(request: ReminderRequest): Promise<ReminderRecord> {
+    return saveReminder(this.store, createReminder(request, this.offsets, this.timeZone));
+  }
+
+  /**
+   * Sends every unsent reminder due by a date, one at a time. A reminder is
+   * marked as sent only after its delivery succeeds, so failed deliveries
+   * are retried on the next run.
+   * @param now - Current time (defaults to now)
+   * @returns Promise resolving to the sent and failed reminders
+   */
+  async runDueJobs(now: Date = new Date()): Promise<ReminderRunResult> {
+    const result: ReminderRunResult = { sent: [], failed: [] };
+    const due = await this.store.getDueReminders(now);
+
+    for (const reminder of due) {
+      try {
+        await this.deliver(reminder);
+      } catch (error) {
+        result.failed.push({ reminder, error: String(error) });
+        continue;
+      }
+
+      await this.store.markReminderSent(reminder.id, now);
+      result.sent.push({ ...reminder, sentAt: now });
+    }
+
+    return result;
+  }
+
+  /**
+   * Starts running due reminders on an in-process timer. A run is skipped
+   * while the previous one is still in progress.
+   * @param intervalMs - Milliseconds between runs (defaults to one minute)
+   * @throws Error if the timer is already running
+   */
+  start(intervalMs = 60000): void {
+    if (this.timer) {
+      throw new Error('Reminder scheduler is already started');
+    }
+
+    if (!(intervalMs > 0)) {
+      throw new RangeError(`intervalMs must be positive, got ${intervalMs}`);
+    }
+
+    this.timer = setInterval(() => this.tick(), intervalMs);
+  }
+
+  /**
+   * Stops the in-process timer; a run in progress still finishes
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Checks whether the in-process timer is running
+   * @returns Whether the timer is started
+   */
+  isStarted(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Runs due reminders for the timer, reporting failures instead of throwing
+   * @returns Promise resolving when the run is over
+   */
+  private async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runDueJobs();
+    } catch (error) {
+      this.onError(error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import FibonacciBilling from './fibonacci-billing';
+import {
+  buildRevenueSchedule,
+  createRevenueEntries,
+  prorationToRevenueEntry,
+  revenueScheduleToCSV,
+  revenueScheduleToJSON,
+} from './revenue-recognition';
+import { RevenueEntry } from '../types';
+
+// 61 days of service at $1 a day
+const entry: RevenueEntry = {
+  id: 'annual',
+  amount: { amount: 6100, currency: 'USD' },
+  chargeDate: new Date('2024-03-01T00:00:00.000Z'),
+  periodStart: new Date('2024-03-01T00:00:00.000Z'),
+  periodEnd: new Date('2024-05-01T00:00:00.000Z'),
+};
+
+describe('revenue recognition', () => {
+  it('should recognize each term ratably over its service period', () => {
+    const billing = new FibonacciBilling({ basePrice: 10 });
+    const entries = createRevenueEntries(
+      billing.generateCalendarSchedule({ startDate: '2024-01-01', cycles: 3 })
+    );
+    const schedule = buildRevenueSchedule({ entries });
+
+    // $10 for January, $19 for February-March, $27 for April-June
+    expect(schedule.periods.map((period) => period.month)).toEqual([
+      '2024-01',
+      '2024-02',
+      '2024-03',
+      '2024-04',
+      '2024-05',
+      '2024-06',
+    ]);
+    expect(schedule.periods.map((period) => period.billed.amount)).toEqual([
+      1000, 1900, 0, 2700, 0, 0,
+    ]);
+    expect(schedule.periods.map((period) => period.recognized.amount)).toEqual([
+      1000, 918, 982, 890, 920, 890,
+    ]);
+    expect(schedule.periods.map((period) => period.deferredBalance.amount)).toEqual([
+      0, 982, 0, 1810, 890, 0,
+    ]);
+    expect(schedule.totals.recognized.amount).toBe(5600);
+  });
+
+  it('should release the deferred balance less the refund when a term is refunded', () => {
+    const schedule = buildRevenueSchedule({
+      entries: [entry],
+      refunds: [
+        {
+          entryId: 'annual',
+          date: new Date('2024-04-01T00:00:00.000Z'),
+          amount: { amount: 2000, currency: 'USD' },
+        },
+      ],
+    });
+
+    expect(schedule.periods.map((period) => period.refunded.amount)).toEqual([0, 2000]);
+    expect(schedule.periods.map((period) => period.recognized.amount)).toEqual([3100, 1000]);
+    expect(schedule.periods.map((period) => period.deferredBalance.amount)).toEqual([3000, 0]);
+    expect(schedule.totals).toEqual({
+      billed: { amount: 6100, currency: 'USD' },
+      refunded: { amount: 2000, currency: 'USD' },
+      recognized: { amount: 4100, currency: 'USD' },
+    });
+  });
+
+  it('should recognize proration adjustments over the rest of the period', () => {
+    const credit = prorationToRevenueEntry(
+      'downgrade',
+      {
+        unusedCredit: { amount: 3000, currency: 'USD' },
+        newPlanCharge: { amount: 1000, currency: 'USD' },
+        netAmount: { amount: -2000, currency: 'USD' },
+        remainingFraction: 30 / 61,
+      },
+      new Date('2024-04-01T00:00:00.000Z'),
+      entry.periodEnd
+    );
+    const schedule = buildRevenueSchedule({ entries: [entry, credit] });
+
+    expect(schedule.periods.map((period) => period.billed.amount)).toEqual([6100, -2000]);
+    expect(schedule.periods.map((period) => period.recognized.amount)).toEqual([3100, 1000]);
+    expect(schedule.periods[1].deferredBalance.amount).toBe(0);
+  });
+
+  it('should export schedules as JSON and CSV in major units', () => {
+    const schedule = buildRevenueSchedule({ entries: [entry], timeZone: 'America/New_York' });
+    const csv = revenueScheduleToCSV(schedule).split('\n');
+
+    expect(csv[0]).toBe(
+      'month,period_start,period_end,currency,billed,refunded,recognized,deferred_balance'
+    );
+    expect(csv[1]).toBe(
+      '2024-02,2024-02-01T05:00:00.000Z,2024-03-01T05:00:00.000Z,USD,61.00,0.00,0.21,60.79'
+    );
+    expect(JSON.parse(revenueScheduleToJSON(schedule)).totals).toEqual({
+      billed: 61,
+      refunded: 0,
+      recognized: 61,
+    });
+  });
+
+  it('should reject mixed currencies and unknown refunds', () => {
+    expect(() =>
+      buildRevenueSchedule({
+        entries: [entry, { ...entry, id: 'eur', amount: { amount: 100, currency: 'EUR' } }],
+      })
+    ).toThrow('single currency');
+    expect(() =>
+      buildRevenueSchedule({
+        entries: [entry],
+        refunds: [{ entryId: 'missing', date: entry.periodEnd, amount: entry.amount }],
+      })
+    ).toThrow('unknown revenue entry: missing');
+  });
+});
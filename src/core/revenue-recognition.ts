@@ -0,0 +1,316 @@
+/**
+ * Revenue recognition for Fibonacci Billing
+ *
+ * Prepaid terms are billed up front but earned over time, so each amount
+ * billed is recognized ratably over its service period and the unearned part
+ * is carried as deferred revenue. Monthly amounts are rounded on cumulative
+ * totals, so an entry is always recognized in full with no rounding drift.
+ */
+
+import {
+  CalendarBillingCycleInfo,
+  Money,
+  ProrationResult,
+  RevenueEntry,
+  RevenueRecognitionPeriod,
+  RevenueRefund,
+  RevenueSchedule,
+  RevenueScheduleOptions,
+} from '../types';
+import { fromZonedDateTime, toZonedDateTime } from './calendar';
+import { createMoney, getCurrencyExponent, multiplyMoney, toMajorUnits } from './money';
+
+/**
+ * Turns a calendar billing schedule into revenue entries, one per cycle.
+ * Tax is excluded, since it is collected on behalf of the tax authority.
+ * @param schedule - Billing schedule with period dates
+ * @returns Revenue entries with IDs of the form 'cycle-<n>'
+ */
+export function createRevenueEntries(schedule: CalendarBillingCycleInfo[]): RevenueEntry[] {
+  return schedule.map((item) => ({
+    id: `cycle-${item.cycle}`,
+    amount: item.tax ? item.tax.net : item.amounts.final,
+    chargeDate: item.chargeDate,
+    periodStart: item.periodStart,
+    periodEnd: item.periodEnd,
+  }));
+}
+
+/**
+ * Turns a mid-term proration into a revenue entry for the rest of the period.
+ * A net charge adds revenue over the remaining period and a net credit reduces it.
+ * @param id - Entry identifier
+ * @param proration - Proration applied
+ * @param changeDate - When the change took effect
+ * @param periodEnd - End of the period the change is co-termed to
+ * @returns Revenue entry for the net proration amount
+ */
+export function prorationToRevenueEntry(
+  id: string,
+  proration: ProrationResult,
+  changeDate: Date,
+  periodEnd: Date
+): RevenueEntry {
+  return {
+    id,
+    amount: proration.netAmount,
+    chargeDate: changeDate,
+    periodStart: changeDate,
+    periodEnd,
+  };
+}
+
+/**
+ * Builds a monthly revenue recognition schedule. A refund ends its entry's
+ * service on the refund date: the deferred revenue left at that point is
+ * released, less the amount refunded (a refund larger than the deferred
+ * balance reverses revenue already recognized).
+ * @param options - Revenue entries, refunds, time zone and rounding mode
+ * @returns Billed, refunded, recognized and deferred amounts per month
+ */
+export function buildRevenueSchedule(options: RevenueScheduleOptions): RevenueSchedule {
+  const { entries, roundingMode } = options;
+  const timeZone = options.timeZone || 'UTC';
+
+  if (!entries.length) {
+    throw new Error('At least one revenue entry is required');
+  }
+
+  const currency = entries[0].amount.currency;
+  const refunds = indexRefunds(options.refunds || [], entries, currency);
+  const billed: { [month: string]: number } = {};
+  const refunded: { [month: string]: number } = {};
+  const recognized: { [month: string]: number } = {};
+  const add = (totals: { [month: string]: number }, date: Date, amount: number) => {
+    const month = toMonthKey(date, timeZone);
+    totals[month] = (totals[month] || 0) + amount;
+  };
+
+  let first = Infinity;
+  let last = -Infinity;
+
+  for (const entry of entries) {
+    assertCurrency(entry.amount, currency);
+    const start = entry.periodStart.getTime();
+    const end = entry.periodEnd.getTime();
+
+    if (end <= start) {
+      throw new Error(`Service period of revenue entry ${entry.id} must end after it starts`);
+    }
+
+    const refund = refunds[entry.id];
+    const stop = refund ? Math.min(Math.max(refund.date.getTime(), start), end) : end;
+    let recognizedSoFar = 0;
+    let cursor = start;
+
+    add(billed, entry.chargeDate, entry.amount.amount);
+
+    // Recognize ratably month by month, rounding on the cumulative total
+    while (cursor < stop) {
+      const boundary = Math.min(getNextMonthStart(new Date(cursor), timeZone).getTime(), stop);
+      const cumulative = multiplyMoney(
+        entry.amount,
+        (boundary - start) / (end - start),
+        roundingMode
+      );
+
+      add(recognized, new Date(cursor), cumulative.amount - recognizedSoFar);
+      recognizedSoFar = cumulative.amount;
+      cursor = boundary;
+    }
+
+    if (refund) {
+      add(refunded, refund.date, refund.amount.amount);
+      add(recognized, refund.date, entry.amount.amount - recognizedSoFar - refund.amount.amount);
+    }
+
+    const dates = [
+      entry.chargeDate.getTime(),
+      start,
+      end - 1,
+      ...(refund ? [refund.date.getTime()] : []),
+    ];
+    first = Math.min(first, ...dates);
+    last = Math.max(last, ...dates);
+  }
+
+  const periods: RevenueRecognitionPeriod[] = [];
+  let deferred = 0;
+  let monthStart = getMonthStart(new Date(first), timeZone);
+  const lastMonth = toMonthKey(new Date(last), timeZone);
+
+  for (;;) {
+    const month = toMonthKey(monthStart, timeZone);
+    const monthEnd = getNextMonthStart(monthStart, timeZone);
+    deferred += (billed[month] || 0) - (refunded[month] || 0) - (recognized[month] || 0);
+
+    periods.push({
+      month,
+      periodStart: monthStart,
+      periodEnd: monthEnd,
+      billed: createMoney(billed[month] || 0, currency),
+      refunded: createMoney(refunded[month] || 0, currency),
+      recognized: createMoney(recognized[month] || 0, currency),
+      deferredBalance: createMoney(deferred, currency),
+    });
+
+    if (month === lastMonth) {
+      break;
+    }
+    monthStart = monthEnd;
+  }
+
+  const total = (key: 'billed' | 'refunded' | 'recognized') =>
+    createMoney(
+      periods.reduce((sum, period) => sum + period[key].amount, 0),
+      currency
+    );
+
+  return {
+    currency,
+    periods,
+    totals: {
+      billed: total('billed'),
+      refunded: total('refunded'),
+      recognized: total('recognized'),
+    },
+  };
+}
+
+/**
+ * Exports a revenue schedule as JSON, with amounts in major units
+ * @param schedule - Revenue schedule
+ * @returns Pretty-printed JSON
+ */
+export function revenueScheduleToJSON(schedule: RevenueSchedule): string {
+  return JSON.stringify(
+    {
+      currency: schedule.currency,
+      periods: schedule.periods.map((period) => ({
+        month: period.month,
+        periodStart: period.periodStart.toISOString(),
+        periodEnd: period.periodEnd.toISOString(),
+        billed: toMajorUnits(period.billed),
+        refunded: toMajorUnits(period.refunded),
+        recognized: toMajorUnits(period.recognized),
+        deferredBalance: toMajorUnits(period.deferredBalance),
+      })),
+      totals: {
+        billed: toMajorUnits(schedule.totals.billed),
+        refunded: toMajorUnits(schedule.totals.refunded),
+        recognized: toMajorUnits(schedule.totals.recognized),
+      },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Exports a revenue schedule as CSV, one row per month, with amounts in major units
+ * @param schedule - Revenue schedule
+ * @returns CSV text with a header row
+ */
+export function revenueScheduleToCSV(schedule: RevenueSchedule): string {
+  const exponent = getCurrencyExponent(schedule.currency);
+  const format = (money: Money) => toMajorUnits(money).toFixed(exponent);
+  const header =
+    'month,period_start,period_end,currency,billed,refunded,recognized,deferred_balance';
+
+  const rows = schedule.periods.map((period) =>
+    [
+      period.month,
+      period.periodStart.toISOString(),
+      period.periodEnd.toISOString(),
+      schedule.currency,
+      format(period.billed),
+      format(period.refunded),
+      format(period.recognized),
+      format(period.deferredBalance),
+    ].join(',')
+  );
+
+  return [header, ...rows].join('\n') + '\n';
+}
+
+/**
+ * Indexes refunds by entry, checking each refers to a known entry
+ * @param refunds - Refunds
+ * @param entries - Revenue entries
+ * @param currency - Schedule currency
+ * @returns Refunds keyed by entry ID
+ */
+function indexRefunds(
+  refunds: RevenueRefund[],
+  entries: RevenueEntry[],
+  currency: string
+): { [entryId: string]: RevenueRefund } {
+  const index: { [entryId: string]: RevenueRefund } = {};
+
+  for (const refund of refunds) {
+    assertCurrency(refund.amount, currency);
+    if (!entries.some((entry) => entry.id === refund.entryId)) {
+      throw new Error(`Refund refers to unknown revenue entry: ${refund.entryId}`);
+    }
+    if (index[refund.entryId]) {
+      throw new Error(`Revenue entry ${refund.entryId} has more than one refund`);
+    }
+    index[refund.entryId] = refund;
+  }
+
+  return index;
+}
+
+/**
+ * Checks that an amount is in the schedule currency
+ * @param money - Amount
+ * @param currency - Schedule currency
+ * @throws Error on a currency mismatch
+ */
+function assertCurrency(money: Money, currency: string): void {
+  if (money.currency !== currency) {
+    throw new Error(`Revenue schedules need a single currency: ${currency} and ${money.currency}`);
+  }
+}
+
+/**
+ * Gets the 'YYYY-MM' month of an instant in a time zone
+ * @param date - Instant
+ * @param timeZone - IANA time zone name
+ * @returns Month key
+ */
+function toMonthKey(date: Date, timeZone: string): string {
+  const zoned = toZonedDateTime(date, timeZone);
+  return `${zoned.year}-${String(zoned.month).padStart(2, '0')}`;
+}
+
+/**
+ * Gets the start of the month containing an instant
+ * @param date - Instant
+ * @param timeZone - IANA time zone name
+ * @returns Local midnight on the first of the month
+ */
+function getMonthStart(date: Date, timeZone: string): Date {
+  const zoned = toZonedDateTime(date, timeZone);
+  return fromZonedDateTime(
+    { year: zoned.year, month: zoned.month, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 },
+    timeZone
+  );
+}
+
+/**
+ * Gets the start of the month after the one containing an instant
+ * @param date - Instant
+ * @param timeZone - IANA time zone name
+ * @returns Local midnight on the first of the next month
+ */
+function getNextMonthStart(date: Date, timeZone: string): Date {
+  const zoned = toZonedDateTime(date, timeZone);
+  const year = zoned.month === 12 ? zoned.year + 1 : zoned.year;
+  const month = zoned.month === 12 ? 1 : zoned.month + 1;
+
+  return fromZonedDateTime(
+    { year, month, day: 1, hour: 0, minute: 0, second: 0, millisecond: 0 },
+    timeZone
+  );
+}
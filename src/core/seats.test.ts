@@ -0,0 +1,82 @@
+import FibonacciBilling from './fibonacci-billing';
+import { calculateSeatPrice, validateSeatPricing } from './seats';
+import { SeatTier } from '../types';
+
+const tiers: SeatTier[] = [
+  { upTo: 5, unitPrice: 10 },
+  { upTo: 20, unitPrice: 8 },
+  { unitPrice: 6 },
+];
+
+describe('seats', () => {
+  describe('calculateSeatPrice', () => {
+    it('should price every seat at the volume tier the quantity falls in', () => {
+      expect(calculateSeatPrice({ mode: 'volume', tiers }, 5, 'USD').amount).toBe(5000);
+      expect(calculateSeatPrice({ mode: 'volume', tiers }, 10, 'USD').amount).toBe(8000);
+      expect(calculateSeatPrice({ mode: 'volume', tiers }, 25, 'USD').amount).toBe(15000);
+    });
+
+    it('should price each graduated tier separately', () => {
+      expect(calculateSeatPrice({ mode: 'graduated', tiers }, 10, 'USD').amount).toBe(9000);
+      expect(calculateSeatPrice({ mode: 'graduated', tiers }, 25, 'USD').amount).toBe(20000);
+    });
+
+    it('should reject quantities past the last tier and invalid tiers', () => {
+      const bounded = { mode: 'volume' as const, tiers: [{ upTo: 10, unitPrice: 5 }] };
+
+      expect(() => calculateSeatPrice(bounded, 11, 'USD')).toThrow(RangeError);
+      expect(() => calculateSeatPrice(bounded, 0, 'USD')).toThrow(RangeError);
+      expect(() =>
+        validateSeatPricing({
+          mode: 'volume',
+          tiers: [
+            { upTo: 10, unitPrice: 5 },
+            { upTo: 5, unitPrice: 4 },
+          ],
+        })
+      ).toThrow();
+      expect(() =>
+        validateSeatPricing({
+          mode: 'graduated',
+          tiers: [{ unitPrice: 5 }, { upTo: 5, unitPrice: 4 }],
+        })
+      ).toThrow();
+    });
+  });
+
+  describe('FibonacciBilling with seats', () => {
+    it('should multiply the base price by the quantity', () => {
+      const billing = new FibonacciBilling({ basePrice: 10, quantity: 3 });
+      const schedule = billing.generateBillingSchedule(3);
+
+      expect(schedule.map((item) => item.quantity)).toEqual([3, 3, 3]);
+      expect(schedule[0].amounts.final.amount).toBe(3000);
+      expect(schedule[2].amounts.final.amount).toBe(8100); // 3 seats x 3 months at 10% off
+    });
+
+    it('should apply the term discount to seat tier prices', () => {
+      const billing = new FibonacciBilling({ quantity: 10, seats: { mode: 'volume', tiers } });
+
+      expect(billing.getMonthlyPrice().amount).toBe(8000);
+      expect(billing.calculateNextBilling(1).amounts.final.amount).toBe(15200);
+      expect(billing.withQuantity(25).getMonthlyPrice().amount).toBe(15000);
+    });
+
+    it('should co-term added seats to the current period end', () => {
+      const billing = new FibonacciBilling({ basePrice: 10, quantity: 5 });
+
+      // 8-month term at 35% off: $260 for 5 seats, $416 for 8, with 40% of the period left
+      const proration = billing.calculateSeatChange({
+        cycle: 4,
+        toQuantity: 8,
+        periodStart: new Date('2024-01-01T00:00:00.000Z'),
+        periodEnd: new Date('2024-01-11T00:00:00.000Z'),
+        changeDate: new Date('2024-01-07T00:00:00.000Z'),
+      });
+
+      expect(proration.unusedCredit.amount).toBe(10400);
+      expect(proration.newPlanCharge.amount).toBe(16640);
+      expect(proration.netAmount.amount).toBe(6240);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Seat-based pricing for Fibonacci Billing
+ *
+ * Seat tiers set the monthly price of a quantity of seats; the term length and
+ * term discount then apply to that monthly price as they would to `basePrice`.
+ */
+
+import { Money, RoundingMode, SeatPricingOptions } from '../types';
+import { addMoney, createMoney, multiplyMoney, toMinorUnits } from './money';
+
+/**
+ * Checks that a seat quantity is a positive whole number
+ * @param quantity - Number of seats
+ * @throws RangeError if the quantity is invalid
+ */
+export function assertQuantity(quantity: number): void {
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new RangeError(`quantity must be a positive whole number, got ${quantity}`);
+  }
+}
+
+/**
+ * Checks that seat tiers are usable
+ * @param options - Seat pricing settings
+ * @throws Error if the tiers are invalid
+ */
+export function validateSeatPricing(options: SeatPricingOptions): void {
+  if (options.mode !== 'volume' && options.mode !== 'graduated') {
+    throw new Error(`Unknown seat pricing mode: ${options.mode}`);
+  }
+
+  if (!options.tiers.length) {
+    throw new Error('Seat pricing needs at least one tier');
+  }
+
+  let previous = 0;
+  options.tiers.forEach((tier, index) => {
+    if (!Number.isFinite(tier.unitPrice) || tier.unitPrice < 0) {
+      throw new Error(`Seat tier unitPrice must be a non-negative number, got ${tier.unitPrice}`);
+    }
+
+    if (tier.upTo === undefined) {
+      if (index !== options.tiers.length - 1) {
+        throw new Error('Only the last seat tier can omit upTo');
+      }
+      return;
+    }
+
+    if (!Number.isInteger(tier.upTo) || tier.upTo <= previous) {
+      throw new Error(`Seat tier upTo values must be ascending whole numbers, got ${tier.upTo}`);
+    }
+    previous = tier.upTo;
+  });
+}
+
+/**
+ * Calculates the monthly price of a number of seats
+ * @param options - Seat pricing settings
+ * @param quantity - Number of seats
+ * @param currency - ISO 4217 currency code
+ * @param roundingMode - Rounding mode for converting unit prices to minor units
+ * @returns Monthly price for all seats
+ * @throws RangeError if the quantity exceeds the last tier
+ */
+export function calculateSeatPrice(
+  options: SeatPricingOptions,
+  quantity: number,
+  currency: string,
+  roundingMode?: RoundingMode
+): Money {
+  assertQuantity(quantity);
+
+  const last = options.tiers[options.tiers.length - 1];
+  if (last.upTo !== undefined && quantity > last.upTo) {
+    throw new RangeError(`quantity ${quantity} exceeds the last seat tier (${last.upTo})`);
+  }
+
+  if (options.mode === 'volume') {
+    // Every seat is priced at the tier the quantity falls in
+    const tier = options.tiers.find((t) => t.upTo === undefined || quantity <= t.upTo) || last;
+    return multiplyMoney(toMinorUnits(tier.unitPrice, currency, roundingMode), quantity);
+  }
+
+  let total = createMoney(0, currency);
+  let from = 0;
+
+  for (const tier of options.tiers) {
+    const to = tier.upTo === undefined ? quantity : Math.min(tier.upTo, quantity);
+    if (to > from) {
+      const unitPrice = toMinorUnits(tier.unitPrice, currency, roundingMode);
+      total = addMoney(total, multiplyMoney(unitPrice, to - from));
+    }
+    if (to >= quantity) {
+      break;
+    }
+    from = to;
+  }
+
+  return total;
+}
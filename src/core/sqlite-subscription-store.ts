@@ -0,0 +1,319 @@
+/**
+ * SQLite subscription store for Fibonacci Billing
+ *
+ * Keeps subscription state in a SQLite database file through any synchronous
+ * driver with a better-sqlite3 style `exec`/`prepare` API. The driver is
+ * passed in, so the package does not depend on one.
+ */
+
+import {
+  CycleHistoryEntry,
+  ReminderRecord,
+  SqliteDatabase,
+  SubscriptionRecord,
+  SubscriptionStore,
+} from '../types';
+
+/**
+ * Tables created when the store is opened
+ */
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS fibonacci_subscriptions (
+  subscription_id TEXT PRIMARY KEY,
+  provider TEXT NOT NULL,
+  customer_id TEXT,
+  cycle INTEGER NOT NULL,
+  discount_cycle INTEGER,
+  plan_id TEXT,
+  plan_version INTEGER,
+  billing TEXT,
+  updated_at TEXT NOT NULL
+);
+CREATE TABLE IF NOT EXISTS fibonacci_cycle_history (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  subscription_id TEXT NOT NULL,
+  cycle INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  billing TEXT NOT NULL,
+  recorded_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS fibonacci_cycle_history_subscription
+  ON fibonacci_cycle_history (subscription_id);
+CREATE TABLE IF NOT EXISTS fibonacci_reminders (
+  id TEXT PRIMARY KEY,
+  subscription_id TEXT NOT NULL,
+  customer_id TEXT,
+  remind_at TEXT NOT NULL,
+  renewal_date TEXT NOT NULL,
+  next_billing TEXT NOT NULL,
+  sent_at TEXT
+);
+CREATE INDEX IF NOT EXISTS fibonacci_reminders_due ON fibonacci_reminders (sent_at, remind_at);
+CREATE TABLE IF NOT EXISTS fibonacci_processed_events (
+  provider TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  processed_at TEXT NOT NULL,
+  PRIMARY KEY (provider, event_id)
+);
+`;
+
+/**
+ * Row of the fibonacci_subscriptions table
+ */
+interface SubscriptionRow {
+  subscription_id: string;
+  provider: string;
+  customer_id: string | null;
+  cycle: number;
+  discount_cycle: number | null;
+  plan_id: string | null;
+  plan_version: number | null;
+  billing: string | null;
+  updated_at: string;
+}
+
+/**
+ * Row of the fibonacci_cycle_history table
+ */
+interface CycleHistoryRow {
+  subscription_id: string;
+  reason: string;
+  billing: string;
+  recorded_at: string;
+}
+
+/**
+ * Row of the fibonacci_reminders table
+ */
+interface ReminderRow {
+  id: string;
+  subscription_id: string;
+  customer_id: string | null;
+  remind_at: string;
+  renewal_date: string;
+  next_billing: string;
+  sent_at: string | null;
+}
+
+/**
+ * Subscription store kept in a SQLite database
+ */
+export class SqliteSubscriptionStore implements SubscriptionStore {
+  private database: SqliteDatabase;
+
+  /**
+   * Opens the store, creating its tables if they do not exist
+   * @param database - Open database, e.g. `new Database('billing.db')` from better-sqlite3
+   */
+  constructor(database: SqliteDatabase) {
+    this.database = database;
+    this.database.exec(SCHEMA);
+  }
+
+  /**
+   * Gets a subscription's state
+   * @param subscriptionId - Provider subscription ID
+   * @returns The stored record, or undefined if the subscription is not stored
+   */
+  async getSubscription(subscriptionId: string): Promise<SubscriptionRecord | undefined> {
+    const row = this.database
+      .prepare('SELECT * FROM fibonacci_subscriptions WHERE subscription_id = ?')
+      .get(subscriptionId) as SubscriptionRow | undefined;
+
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      subscriptionId: row.subscription_id,
+      provider: row.provider,
+      customerId: row.customer_id ?? undefined,
+      cycle: row.cycle,
+      discountCycle: row.discount_cycle ?? undefined,
+      plan:
+        row.plan_id !== null && row.plan_version !== null
+          ? { planId: row.plan_id, version: row.plan_version }
+          : undefined,
+      billing: row.billing ? JSON.parse(row.billing) : undefined,
+      updatedAt: new Date(row.updated_at),
+    };
+  }
+
+  /**
+   * Creates or replaces a subscription's state
+   * @param record - Subscription record
+   */
+  async saveSubscription(record: SubscriptionRecord): Promise<void> {
+    this.database
+      .prepare(
+        'INSERT OR REPLACE INTO fibonacci_subscriptions (subscription_id, provider, ' +
+          'customer_id, cycle, discount_cycle, plan_id, plan_version, billing, updated_at) ' +
+          'VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        record.subscriptionId,
+        record.provider,
+        record.customerId ?? null,
+        record.cycle,
+        record.discountCycle ?? null,
+        record.plan ? record.plan.planId : null,
+        record.plan ? record.plan.version : null,
+        record.billing ? JSON.stringify(record.billing) : null,
+        record.updatedAt.toISOString()
+      );
+  }
+
+  /**
+   * Appends a priced term to a subscription's cycle history
+   * @param entry - Cycle history entry
+   */
+  async addCycle(entry: CycleHistoryEntry): Promise<void> {
+    this.database
+      .prepare(
+        'INSERT INTO fibonacci_cycle_history (subscription_id, cycle, reason, billing, recorded_at) ' +
+          'VALUES (?, ?, ?, ?, ?)'
+      )
+      .run(
+        entry.subscriptionId,
+        entry.billing.cycle,
+        entry.reason,
+        JSON.stringify(entry.billing),
+        entry.recordedAt.toISOString()
+      );
+  }
+
+  /**
+   * Gets a subscription's cycle history
+   * @param subscriptionId - Provider subscription ID
+   * @returns Entries in the order they were added
+   */
+  async getCycleHistory(subscriptionId: string): Promise<CycleHistoryEntry[]> {
+    const rows = this.database
+      .prepare('SELECT * FROM fibonacci_cycle_history WHERE subscription_id = ? ORDER BY id')
+      .all(subscriptionId) as CycleHistoryRow[];
+
+    return rows.map((row) => ({
+      subscriptionId: row.subscription_id,
+      billing: JSON.parse(row.billing),
+      reason: row.reason,
+      recordedAt: new Date(row.recorded_at),
+    }));
+  }
+
+  /**
+   * Creates or replaces a reminder
+   * @param reminder - Reminder
+   */
+  async saveReminder(reminder: ReminderRecord): Promise<void> {
+    this.database
+      .prepare(
+        'INSERT OR REPLACE INTO fibonacci_reminders ' +
+          '(id, subscription_id, customer_id, remind_at, renewal_date, next_billing, sent_at) ' +
+          'VALUES (?, ?, ?, ?, ?, ?, ?)'
+      )
+      .run(
+        reminder.id,
+        reminder.subscriptionId,
+        reminder.customerId ?? null,
+        reminder.remindAt.toISOString(),
+        reminder.renewalDate.toISOString(),
+        JSON.stringify(reminder.nextBilling),
+        reminder.sentAt ? reminder.sentAt.toISOString() : null
+      );
+  }
+
+  /**
+   * Gets a subscription's reminders
+   * @param subscriptionId - Provider subscription ID
+   * @returns Reminders ordered by when they are due
+   */
+  async getReminders(subscriptionId: string): Promise<ReminderRecord[]> {
+    const rows = this.database
+      .prepare('SELECT * FROM fibonacci_reminders WHERE subscription_id = ? ORDER BY remind_at')
+      .all(subscriptionId) as ReminderRow[];
+
+    return rows.map(toReminder);
+  }
+
+  /**
+   * Gets unsent reminders due by a date
+   * @param until - Latest reminder date to include
+   * @returns Reminders ordered by when they are due
+   */
+  async getDueReminders(until: Date): Promise<ReminderRecord[]> {
+    // ISO 8601 UTC timestamps sort as text in date order
+    const rows = this.database
+      .prepare(
+        'SELECT * FROM fibonacci_reminders WHERE sent_at IS NULL AND remind_at <= ? ORDER BY remind_at'
+      )
+      .all(until.toISOString()) as ReminderRow[];
+
+    return rows.map(toReminder);
+  }
+
+  /**
+   * Records that a reminder was sent
+   * @param reminderId - Reminder ID
+   * @param sentAt - When it was sent
+   * @throws Error if the reminder does not exist
+   */
+  async markReminderSent(reminderId: string, sentAt: Date): Promise<void> {
+    const reminder = this.database
+      .prepare('SELECT id FROM fibonacci_reminders WHERE id = ?')
+      .get(reminderId);
+
+    if (!reminder) {
+      throw new Error(`Unknown reminder: ${reminderId}`);
+    }
+
+    this.database
+      .prepare('UPDATE fibonacci_reminders SET sent_at = ? WHERE id = ?')
+      .run(sentAt.toISOString(), reminderId);
+  }
+
+  /**
+   * Checks whether a webhook event was already processed
+   * @param provider - Provider the event came from
+   * @param eventId - Provider event ID
+   * @returns Whether the event was processed
+   */
+  async hasProcessedEvent(provider: string, eventId: string): Promise<boolean> {
+    const row = this.database
+      .prepare('SELECT 1 FROM fibonacci_processed_events WHERE provider = ? AND event_id = ?')
+      .get(provider, eventId);
+
+    return row !== undefined;
+  }
+
+  /**
+   * Records that a webhook event was processed
+   * @param provider - Provider the event came from
+   * @param eventId - Provider event ID
+   * @param processedAt - When it was processed
+   */
+  async markEventProcessed(provider: string, eventId: string, processedAt: Date): Promise<void> {
+    this.database
+      .prepare(
+        'INSERT OR IGNORE INTO fibonacci_processed_events (provider, event_id, processed_at) ' +
+          'VALUES (?, ?, ?)'
+      )
+      .run(provider, eventId, processedAt.toISOString());
+  }
+}
+
+/**
+ * Converts a reminder row to a reminder
+ * @param row - Row of the fibonacci_reminders table
+ * @returns Reminder
+ */
+function toReminder(row: ReminderRow): ReminderRecord {
+  return {
+    id: row.id,
+    subscriptionId: row.subscription_id,
+    customerId: row.customer_id ?? undefined,
+    remindAt: new Date(row.remind_at),
+    renewalDate: new Date(row.renewal_date),
+    nextBilling: JSON.parse(row.next_billing),
+    sentAt: row.sent_at ? new Date(row.sent_at) : undefined,
+  };
+}
@@ -0,0 +1,198 @@
+import {
+  MemorySubscriptionStore,
+  applySubscriptionRecord,
+  getSubscriptionRecordFromMetadata,
+} from './subscription-store';
+import { SqliteSubscriptionStore } from './sqlite-subscription-store';
+import FibonacciBilling from './fibonacci-billing';
+import Database from 'better-sqlite3';
+import { ReminderRecord, SubscriptionStore } from '../types';
+
+const billing = new FibonacciBilling({ basePrice: 10 }).calculateNextBilling(2);
+
+const reminder = (id: string, day: number): ReminderRecord => ({
+  id,
+  subscriptionId: 'sub_1',
+  remindAt: new Date(Date.UTC(2024, 0, day)),
+  renewalDate: new Date(Date.UTC(2024, 0, day + 7)),
+  nextBilling: billing,
+});
+
+const databases: Database.Database[] = [];
+
+/**
+ * Opens a fresh in-memory database, closed after each test
+ */
+const openDatabase = () => {
+  const database = new Database(':memory:');
+  databases.push(database);
+  return database;
+};
+
+afterEach(() => {
+  databases.splice(0).forEach((database) => database.close());
+});
+
+describe.each<[string, () => SubscriptionStore]>([
+  ['MemorySubscriptionStore', () => new MemorySubscriptionStore()],
+  ['SqliteSubscriptionStore', () => new SqliteSubscriptionStore(openDatabase())],
+])('%s', (_name, createStore) => {
+  it('should keep subscription state and cycle history', async () => {
+    const store = createStore();
+    const updatedAt = new Date(Date.UTC(2024, 0, 1));
+
+    await store.saveSubscription({
+      subscriptionId: 'sub_1',
+      provider: 'stripe',
+      cycle: 3,
+      plan: { planId: 'pro', version: 2 },
+      billing,
+      updatedAt,
+    });
+    await store.addCycle({
+      subscriptionId: 'sub_1',
+      billing,
+      reason: 'advance',
+      recordedAt: updatedAt,
+    });
+    await store.addCycle({
+      subscriptionId: 'sub_2',
+      billing,
+      reason: 'created',
+      recordedAt: updatedAt,
+    });
+
+    expect((await store.getSubscription('sub_1'))?.plan).toEqual({ planId: 'pro', version: 2 });
+    expect(await store.getSubscription('sub_2')).toBeUndefined();
+    expect((await store.getCycleHistory('sub_1')).map((entry) => entry.reason)).toEqual([
+      'advance',
+    ]);
+  });
+
+  it('should return unsent reminders that are due, oldest first', async () => {
+    const store = createStore();
+    await store.saveReminder(reminder('sub_1:4', 20));
+    await store.saveReminder(reminder('sub_1:3', 10));
+    await store.saveReminder(reminder('sub_1:5', 30));
+
+    await store.markReminderSent('sub_1:3', new Date(Date.UTC(2024, 0, 10)));
+
+    expect((await store.getDueReminders(new Date(Date.UTC(2024, 0, 25)))).map((r) => r.id)).toEqual(
+      ['sub_1:4']
+    );
+    expect((await store.getReminders('sub_1')).map((r) => r.id)).toEqual([
+      'sub_1:3',
+      'sub_1:4',
+      'sub_1:5',
+    ]);
+    await expect(store.markReminderSent('sub_1:9', new Date())).rejects.toThrow(
+      'Unknown reminder: sub_1:9'
+    );
+  });
+
+  it('should remember processed events per provider', async () => {
+    const store = createStore();
+    await store.markEventProcessed('stripe', 'evt_1', new Date());
+
+    expect(await store.hasProcessedEvent('stripe', 'evt_1')).toBe(true);
+    expect(await store.hasProcessedEvent('paddle', 'evt_1')).toBe(false);
+  });
+});
+
+describe('SqliteSubscriptionStore rows', () => {
+  it('should round-trip optional fields and billing JSON', async () => {
+    const database = openDatabase();
+    const store = new SqliteSubscriptionStore(database);
+    const record = {
+      subscriptionId: 'sub_1',
+      provider: 'paddle',
+      customerId: 'ctm_1',
+      cycle: 2,
+      discountCycle: 4,
+      plan: { planId: 'pro', version: 1 },
+      billing,
+      updatedAt: new Date(Date.UTC(2024, 0, 1)),
+    };
+
+    await store.saveSubscription(record);
+    await store.saveSubscription({
+      subscriptionId: 'sub_2',
+      provider: 'paddle',
+      cycle: 1,
+      updatedAt: record.updatedAt,
+    });
+
+    expect(await store.getSubscription('sub_1')).toEqual(record);
+    expect(await store.getSubscription('sub_2')).toEqual({
+      subscriptionId: 'sub_2',
+      provider: 'paddle',
+      customerId: undefined,
+      cycle: 1,
+      discountCycle: undefined,
+      plan: undefined,
+      billing: undefined,
+      updatedAt: record.updatedAt,
+    });
+    expect(
+      database
+        .prepare('SELECT billing FROM fibonacci_subscriptions WHERE subscription_id = ?')
+        .get('sub_1')
+    ).toEqual({ billing: JSON.stringify(billing) });
+  });
+
+  it('should map sent_at and keep state when the store is reopened', async () => {
+    const database = openDatabase();
+    const sentAt = new Date(Date.UTC(2024, 0, 12));
+    await new SqliteSubscriptionStore(database).saveReminder(reminder('sub_1:3', 10));
+    await new SqliteSubscriptionStore(database).markReminderSent('sub_1:3', sentAt);
+    await new SqliteSubscriptionStore(database).markEventProcessed('stripe', 'evt_1', sentAt);
+
+    const store = new SqliteSubscriptionStore(database);
+    await store.markEventProcessed('stripe', 'evt_1', new Date());
+    const [saved] = await store.getReminders('sub_1');
+
+    expect(database.prepare('SELECT sent_at FROM fibonacci_reminders').get()).toEqual({
+      sent_at: '2024-01-12T00:00:00.000Z',
+    });
+    expect(saved).toEqual({ ...reminder('sub_1:3', 10), customerId: undefined, sentAt });
+    expect(saved.nextBilling).toEqual(billing);
+    expect(await store.hasProcessedEvent('stripe', 'evt_1')).toBe(true);
+    expect(database.prepare('SELECT processed_at FROM fibonacci_processed_events').all()).toEqual([
+      { processed_at: '2024-01-12T00:00:00.000Z' },
+    ]);
+  });
+});
+
+describe('subscription records', () => {
+  it('should read a record from metadata and overlay it back', () => {
+    const metadata = {
+      fibonacciBillingCycle: '2',
+      fibonacciDiscountCycle: '4',
+      fibonacciPlanId: 'pro',
+      fibonacciPlanVersion: '1',
+      quantity: '3',
+    };
+    const record = getSubscriptionRecordFromMetadata('sub_1', 'paddle', metadata);
+
+    expect(record).toMatchObject({
+      cycle: 2,
+      discountCycle: 4,
+      plan: { planId: 'pro', version: 1 },
+    });
+    expect(getSubscriptionRecordFromMetadata('sub_1', 'paddle', { quantity: '3' })).toBeUndefined();
+
+    const applied = applySubscriptionRecord(metadata, {
+      ...(record as NonNullable<typeof record>),
+      cycle: 5,
+      discountCycle: undefined,
+      plan: { planId: 'pro', version: 2 },
+    });
+
+    expect(applied).toEqual({
+      fibonacciBillingCycle: '5',
+      fibonacciPlanId: 'pro',
+      fibonacciPlanVersion: '2',
+      quantity: '3',
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Subscription stores for Fibonacci Billing
+ *
+ * Provider metadata holds a few hundred characters of untyped strings, which
+ * is not enough for cycle history or reminders. A subscription store keeps
+ * that state in the app instead; integrations configured with one read
+ * through it and only fall back to metadata for subscriptions it has not
+ * seen yet.
+ */
+
+import { CycleHistoryEntry, ReminderRecord, SubscriptionRecord, SubscriptionStore } from '../types';
+import { getPlanMetadata, getPlanReference } from './plan-catalog';
+
+/**
+ * Builds a subscription record from the Fibonacci metadata on a provider subscription
+ * @param subscriptionId - Provider subscription ID
+ * @param provider - Provider the subscription is billed by
+ * @param metadata - Provider subscription metadata
+ * @param customerId - Provider customer ID
+ * @returns The record, or undefined if the subscription is not a Fibonacci subscription
+ */
+export function getSubscriptionRecordFromMetadata(
+  subscriptionId: string,
+  provider: string,
+  metadata: { [key: string]: string } | null | undefined,
+  customerId?: string
+): SubscriptionRecord | undefined {
+  if (!metadata?.fibonacciBillingCycle) {
+    return undefined;
+  }
+
+  return {
+    subscriptionId,
+    provider,
+    customerId,
+    cycle: parseInt(metadata.fibonacciBillingCycle, 10),
+    discountCycle: metadata.fibonacciDiscountCycle
+      ? parseInt(metadata.fibonacciDiscountCycle, 10)
+      : undefined,
+    plan: getPlanReference(metadata),
+    updatedAt: new Date(),
+  };
+}
+
+/**
+ * Overlays a stored record on provider metadata, so code that reads the
+ * Fibonacci metadata keys sees the store's state
+ * @param metadata - Provider subscription metadata
+ * @param record - Stored subscription record
+ * @returns Metadata with the stored cycle, kept discount and plan version
+ */
+export function applySubscriptionRecord(
+  metadata: { [key: string]: string } | null | undefined,
+  record: SubscriptionRecord
+): { [key: string]: string } {
+  const applied: { [key: string]: string } = {
+    ...metadata,
+    ...(record.plan && getPlanMetadata(record.plan)),
+    fibonacciBillingCycle: String(record.cycle),
+  };
+
+  if (record.discountCycle) {
+    applied.fibonacciDiscountCycle = String(record.discountCycle);
+  } else {
+    delete applied.fibonacciDiscountCycle;
+  }
+
+  return applied;
+}
+
+/**
+ * Orders reminders by when they are due
+ * @param a - First reminder
+ * @param b - Second reminder
+ * @returns Negative if a is due first
+ */
+function compareReminders(a: ReminderRecord, b: ReminderRecord): number {
+  return a.remindAt.getTime() - b.remindAt.getTime();
+}
+
+/**
+ * Subscription store kept in memory, for tests and single-process apps
+ */
+export class MemorySubscriptionStore implements SubscriptionStore {
+  private subscriptions: { [subscriptionId: string]: SubscriptionRecord } = {};
+  private cycles: CycleHistoryEntry[] = [];
+  private reminders: { [reminderId: string]: ReminderRecord } = {};
+  private processedEvents: { [key: string]: Date } = {};
+
+  /**
+   * Gets a subscription's state
+   * @param subscriptionId - Provider subscription ID
+   * @returns The stored record, or undefined if the subscription is not stored
+   */
+  async getSubscription(subscriptionId: string): Promise<SubscriptionRecord | undefined> {
+    const record = this.subscriptions[subscriptionId];
+    return record && { ...record };
+  }
+
+  /**
+   * Creates or replaces a subscription's state
+   * @param record - Subscription record
+   */
+  async saveSubscription(record: SubscriptionRecord): Promise<void> {
+    this.subscriptions[record.subscriptionId] = { ...record };
+  }
+
+  /**
+   * Appends a priced term to a subscription's cycle history
+   * @param entry - Cycle history entry
+   */
+  async addCycle(entry: CycleHistoryEntry): Promise<void> {
+    this.cycles.push({ ...entry });
+  }
+
+  /**
+   * Gets a subscription's cycle history
+   * @param subscriptionId - Provider subscription ID
+   * @returns Entries in the order they were added
+   */
+  async getCycleHistory(subscriptionId: string): Promise<CycleHistoryEntry[]> {
+    return this.cycles
+      .filter((entry) => entry.subscriptionId === subscriptionId)
+      .map((entry) => ({ ...entry }));
+  }
+
+  /**
+   * Creates or replaces a reminder
+   * @param reminder - Reminder
+   */
+  async saveReminder(reminder: ReminderRecord): Promise<void> {
+    this.reminders[reminder.id] = { ...reminder };
+  }
+
+  /**
+   * Gets a subscription's reminders
+   * @param subscriptionId - Provider subscription ID
+   * @returns Reminders ordered by when they are due
+   */
+  async getReminders(subscriptionId: string): Promise<ReminderRecord[]> {
+    return Object.keys(this.reminders)
+      .map((id) => ({ ...this.reminders[id] }))
+      .filter((reminder) => reminder.subscriptionId === subscriptionId)
+      .sort(compareReminders);
+  }
+
+  /**
+   * Gets unsent reminders due by a date
+   * @param until - Latest reminder date to include
+   * @returns Reminders ordered by when they are due
+   */
+  async getDueReminders(until: Date): Promise<ReminderRecord[]> {
+    return Object.keys(this.reminders)
+      .map((id) => ({ ...this.reminders[id] }))
+      .filter((reminder) => !reminder.sentAt && reminder.remindAt.getTime() <= until.getTime())
+      .sort(compareReminders);
+  }
+
+  /**
+   * Records that a reminder was sent
+   * @param reminderId - Reminder ID
+   * @param sentAt - When it was sent
+   * @throws Error if the reminder does not exist
+   */
+  async markReminderSent(reminderId: string, sentAt: Date): Promise<void> {
+    if (!this.reminders[reminderId]) {
+      throw new Error(`Unknown reminder: ${reminderId}`);
+    }
+
+    this.reminders[reminderId] = { ...this.reminders[reminderId], sentAt };
+  }
+
+  /**
+   * Checks whether a webhook event was already processed
+   * @param provider - Provider the event came from
+   * @param eventId - Provider event ID
+   * @returns Whether the event was processed
+   */
+  async hasProcessedEvent(provider: string, eventId: string): Promise<boolean> {
+    return Boolean(this.processedEvents[`${provider}:${eventId}`]);
+  }
+
+  /**
+   * Records that a webhook event was processed
+   * @param provider - Provider the event came from
+   * @param eventId - Provider event ID
+   * @param processedAt - When it was processed
+   */
+  async markEventProcessed(provider: string, eventId: string, processedAt: Date): Promise<void> {
+    this.processedEvents[`${provider}:${eventId}`] = processedAt;
+  }
+}
@@ -0,0 +1,80 @@
+import FibonacciBilling from './fibonacci-billing';
+import { TaxRateTable, calculateTax } from './tax';
+import { createMoney } from './money';
+
+const rates = [
+  { region: 'DE', rate: 0.19, name: 'VAT' },
+  { region: 'FI', rate: 0.24 },
+  { region: 'FI', rate: 0.255, effectiveFrom: '2024-09-01' },
+  { region: 'US', rate: 0 },
+  { region: 'US-CA', rate: 0.0725 },
+];
+
+describe('tax', () => {
+  describe('TaxRateTable', () => {
+    const table = new TaxRateTable(rates);
+
+    it('should pick the rate in effect on the date', () => {
+      expect(table.getRate('FI', new Date('2024-08-31'))?.rate).toBe(0.24);
+      expect(table.getRate('fi', new Date('2024-09-01'))?.rate).toBe(0.255);
+    });
+
+    it('should fall back from region to country', () => {
+      expect(table.getRate('US-CA', new Date())?.rate).toBe(0.0725);
+      expect(table.getRate('US-NY', new Date())?.rate).toBe(0);
+      expect(table.getRate('FR', new Date())).toBeUndefined();
+    });
+  });
+
+  describe('calculateTax', () => {
+    const amount = createMoney(10000, 'EUR');
+
+    it('should add tax to exclusive prices', () => {
+      const tax = calculateTax(amount, 0.19, 'exclusive');
+      expect([tax.net.amount, tax.tax.amount, tax.gross.amount]).toEqual([10000, 1900, 11900]);
+    });
+
+    it('should extract tax from inclusive prices', () => {
+      const tax = calculateTax(amount, 0.19, 'inclusive');
+      expect([tax.net.amount, tax.tax.amount, tax.gross.amount]).toEqual([8403, 1597, 10000]);
+    });
+
+    it('should not charge tax under the reverse charge', () => {
+      const tax = calculateTax(amount, 0.19, 'exclusive', true);
+      expect([tax.rate, tax.tax.amount, tax.gross.amount]).toEqual([0, 0, 10000]);
+    });
+  });
+
+  describe('FibonacciBilling with tax', () => {
+    it('should tax each calendar term at the rate on its charge date', () => {
+      const billing = new FibonacciBilling({
+        basePrice: 10,
+        currency: 'EUR',
+        tax: { region: 'FI', rates },
+      });
+      const schedule = billing.generateCalendarSchedule({ startDate: '2024-06-01', cycles: 3 });
+
+      expect(schedule.map((item) => item.tax?.rate)).toEqual([0.24, 0.24, 0.255]);
+      expect(schedule[2].tax?.tax.amount).toBe(689); // 27.00 * 25.5%
+    });
+
+    it('should total tax in the billing summary', () => {
+      const billing = new FibonacciBilling({
+        basePrice: 10,
+        tax: { region: 'DE', rates, mode: 'inclusive' },
+      });
+      const schedule = billing.generateBillingSchedule(3);
+      const summary = billing.getBillingSummary(3);
+
+      expect(summary.tax?.totalGross).toEqual(summary.amounts.total);
+      expect(summary.tax?.totalTax.amount).toBe(
+        schedule.reduce((sum, item) => sum + (item.tax?.tax.amount || 0), 0)
+      );
+    });
+
+    it('should fail loudly when the region has no rate', () => {
+      const billing = new FibonacciBilling({ tax: { region: 'FR', rates } });
+      expect(() => billing.calculateNextBilling(0)).toThrow('No tax rate for region FR');
+    });
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Tax calculation for Fibonacci Billing
+ *
+ * Tax is calculated on the discounted amount of each term at the rate in
+ * effect on its charge date, so a prepaid term keeps the rate it was invoiced
+ * at even if the rate changes before the term ends.
+ */
+
+import { Money, RoundingMode, TaxBreakdown, TaxMode, TaxRate } from '../types';
+import { addMoney, createMoney, divideMoney, multiplyMoney, subtractMoney } from './money';
+
+/**
+ * Local table of tax rates keyed by country or region
+ */
+export class TaxRateTable {
+  private rates: TaxRate[];
+
+  /**
+   * Creates a new tax rate table
+   * @param rates - Rates by region, optionally with the date they take effect
+   */
+  constructor(rates: TaxRate[]) {
+    rates.forEach((rate) => {
+      if (!Number.isFinite(rate.rate) || rate.rate < 0) {
+        throw new Error(
+          `Tax rate for ${rate.region} must be a non-negative number, got ${rate.rate}`
+        );
+      }
+    });
+    this.rates = [...rates];
+  }
+
+  /**
+   * Gets the rate for a region on a date. Regions such as 'US-CA' fall back to
+   * their country ('US') when they have no rate of their own.
+   * @param region - Country or region code
+   * @param at - Date the rate applies to
+   * @returns The rate in effect, or undefined if the region has none
+   */
+  getRate(region: string, at: Date): TaxRate | undefined {
+    const code = region.toUpperCase();
+    const country = code.split('-')[0];
+
+    return this.findRate(code, at) || (country !== code ? this.findRate(country, at) : undefined);
+  }
+
+  /**
+   * Finds the latest rate for an exact region code in effect on a date
+   * @param region - Upper-case region code
+   * @param at - Date the rate applies to
+   * @returns The rate in effect, or undefined
+   */
+  private findRate(region: string, at: Date): TaxRate | undefined {
+    let match: TaxRate | undefined;
+    let matchFrom = -Infinity;
+
+    for (const rate of this.rates) {
+      const from = rate.effectiveFrom ? new Date(rate.effectiveFrom).getTime() : -Infinity;
+      if (rate.region.toUpperCase() === region && from <= at.getTime() && from >= matchFrom) {
+        match = rate;
+        matchFrom = from;
+      }
+    }
+
+    return match;
+  }
+}
+
+/**
+ * Calculates tax on an amount
+ * @param amount - Price being taxed
+ * @param rate - Tax rate as a fraction
+ * @param mode - Whether the price includes tax
+ * @param reverseCharge - Whether the customer accounts for the tax themselves
+ * @param roundingMode - Rounding mode for the tax amount
+ * @returns Net, tax and gross amounts (region is left empty)
+ */
+export function calculateTax(
+  amount: Money,
+  rate: number,
+  mode: TaxMode,
+  reverseCharge = false,
+  roundingMode?: RoundingMode
+): TaxBreakdown {
+  const zero = createMoney(0, amount.currency);
+
+  if (reverseCharge) {
+    // The customer self-assesses, so they pay only the net price
+    const net = mode === 'inclusive' ? divideMoney(amount, 1 + rate, roundingMode) : amount;
+    return { region: '', rate: 0, mode, reverseCharge, net, tax: zero, gross: net };
+  }
+
+  if (mode === 'inclusive') {
+    const net = divideMoney(amount, 1 + rate, roundingMode);
+    return {
+      region: '',
+      rate,
+      mode,
+      reverseCharge,
+      net,
+      tax: subtractMoney(amount, net),
+      gross: amount,
+    };
+  }
+
+  const tax = multiplyMoney(amount, rate, roundingMode);
+  return { region: '', rate, mode, reverseCharge, net: amount, tax, gross: addMoney(amount, tax) };
+}
@@ -0,0 +1,58 @@
+import FibonacciBilling from './fibonacci-billing';
+import {
+  FibonacciSequence,
+  LucasSequence,
+  FibonacciSkipOneSequence,
+  GeometricSequence,
+  CustomSequence,
+  resolveTermSequence,
+} from './term-sequences';
+
+const firstTerms = (sequence: { termAt(index: number): number }, count: number) =>
+  Array.from({ length: count }, (_, i) => sequence.termAt(i));
+
+describe('term sequences', () => {
+  it('should produce classic Fibonacci terms', () => {
+    expect(firstTerms(new FibonacciSequence(), 8)).toEqual([1, 2, 3, 5, 8, 13, 21, 34]);
+  });
+
+  it('should produce Lucas terms', () => {
+    expect(firstTerms(new LucasSequence(), 6)).toEqual([1, 3, 4, 7, 11, 18]);
+  });
+
+  it('should skip the initial 1-month term', () => {
+    expect(firstTerms(new FibonacciSkipOneSequence(), 5)).toEqual([2, 3, 5, 8, 13]);
+  });
+
+  it('should produce whole-month geometric terms', () => {
+    expect(firstTerms(new GeometricSequence(1, 2), 5)).toEqual([1, 2, 4, 8, 16]);
+    expect(firstTerms(new GeometricSequence(1, 1.5), 5)).toEqual([1, 2, 2, 3, 5]);
+  });
+
+  it('should repeat the last custom term', () => {
+    expect(firstTerms(new CustomSequence([1, 3, 6]), 5)).toEqual([1, 3, 6, 6, 6]);
+  });
+
+  it('should reject invalid terms', () => {
+    expect(() => new CustomSequence([])).toThrow();
+    expect(() => new CustomSequence([1, 2.5])).toThrow();
+    expect(() => new GeometricSequence(1, 0.5)).toThrow();
+  });
+
+  it('should resolve built-in sequence names', () => {
+    expect(resolveTermSequence().name).toBe('fibonacci');
+    expect(resolveTermSequence('lucas').name).toBe('lucas');
+    expect(resolveTermSequence('fibonacci-skip-one').name).toBe('fibonacci-skip-one');
+  });
+
+  it('should drive FibonacciBilling terms', () => {
+    const billing = new FibonacciBilling({
+      basePrice: 10,
+      sequence: new CustomSequence([1, 6, 12]),
+    });
+
+    expect(billing.generateBillingSchedule(4).map((item) => item.termMonths)).toEqual([
+      1, 6, 12, 12,
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Term sequence strategies for Fibonacci Billing
+ *
+ * A term sequence decides how many months each billing cycle lasts. The
+ * classic plan uses the Fibonacci numbers, but any strategy implementing
+ * `TermSequence` can be plugged into `FibonacciBilling`.
+ */
+
+import { TermSequence, TermSequenceDefinition, TermSequenceName } from '../types';
+import { TermOverflowError } from './errors';
+
+/**
+ * Sequence where each term is the sum of the previous two
+ */
+export class AdditiveSequence implements TermSequence {
+  readonly name: string;
+  private terms: number[];
+
+  /**
+   * Creates a new additive sequence
+   * @param first - First term in months
+   * @param second - Second term in months
+   * @param name - Sequence name
+   */
+  constructor(first: number, second: number, name = 'additive') {
+    assertTermLength(first);
+    assertTermLength(second);
+    this.terms = [first, second];
+    this.name = name;
+  }
+
+  /**
+   * Gets the term length at a position in the sequence. Terms are memoized,
+   * so lookups are constant time once a position has been reached.
+   * @param index - Position in the sequence (0-indexed)
+   * @returns Term length in months
+   * @throws TermOverflowError if the term exceeds Number.MAX_SAFE_INTEGER
+   */
+  termAt(index: number): number {
+    const position = Math.max(index, 0);
+
+    while (this.terms.length <= position) {
+      const length = this.terms.length;
+      const next = this.terms[length - 1] + this.terms[length - 2];
+      if (!Number.isSafeInteger(next)) {
+        throw new TermOverflowError(this.name, length);
+      }
+      this.terms.push(next);
+    }
+
+    return this.terms[position];
+  }
+
+  /**
+   * Describes the sequence for a plan definition
+   * @returns Term sequence definition
+   */
+  toJSON(): TermSequenceDefinition {
+    return { type: 'additive', first: this.terms[0], second: this.terms[1] };
+  }
+}
+
+/**
+ * Classic Fibonacci terms: 1, 2, 3, 5, 8, 13, ...
+ */
+export class FibonacciSequence extends AdditiveSequence {
+  constructor() {
+    super(1, 2, 'fibonacci');
+  }
+
+  toJSON(): TermSequenceDefinition {
+    return { type: 'fibonacci' };
+  }
+}
+
+/**
+ * Lucas terms starting from L1: 1, 3, 4, 7, 11, 18, ...
+ */
+export class LucasSequence extends AdditiveSequence {
+  constructor() {
+    super(1, 3, 'lucas');
+  }
+
+  toJSON(): TermSequenceDefinition {
+    return { type: 'lucas' };
+  }
+}
+
+/**
+ * Fibonacci terms without the initial 1-month term: 2, 3, 5, 8, 13, ...
+ */
+export class FibonacciSkipOneSequence extends AdditiveSequence {
+  constructor() {
+    super(2, 3, 'fibonacci-skip-one');
+  }
+
+  toJSON(): TermSequenceDefinition {
+    return { type: 'fibonacci-skip-one' };
+  }
+}
+
+/**
+ * Geometric terms: initial, initial * ratio, initial * ratio^2, ...
+ * Terms are rounded to whole months and never shrink.
+ */
+export class GeometricSequence implements TermSequence {
+  readonly name = 'geometric';
+  private initial: number;
+  private ratio: number;
+  private terms: number[];
+
+  /**
+   * Creates a new geometric sequence
+   * @param initial - First term in months
+   * @param ratio - Growth ratio between terms (>= 1)
+   */
+  constructor(initial = 1, ratio = 2) {
+    assertTermLength(initial);
+    if (!Number.isFinite(ratio) || ratio < 1) {
+      throw new Error(`Geometric ratio must be a finite number >= 1, got ${ratio}`);
+    }
+    this.initial = initial;
+    this.ratio = ratio;
+    this.terms = [initial];
+  }
+
+  /**
+   * Gets the term length at a position in the sequence. Terms are memoized,
+   * so lookups are constant time once a position has been reached.
+   * @param index - Position in the sequence (0-indexed)
+   * @returns Term length in months
+   * @throws TermOverflowError if the term exceeds Number.MAX_SAFE_INTEGER
+   */
+  termAt(index: number): number {
+    const position = Math.max(index, 0);
+
+    while (this.terms.length <= position) {
+      const length = this.terms.length;
+      const next = Math.max(
+        this.terms[length - 1],
+        Math.round(this.initial * Math.pow(this.ratio, length))
+      );
+      if (!Number.isSafeInteger(next)) {
+        throw new TermOverflowError(this.name, length);
+      }
+      this.terms.push(next);
+    }
+
+    return this.terms[position];
+  }
+
+  /**
+   * Describes the sequence for a plan definition
+   * @returns Term sequence definition
+   */
+  toJSON(): TermSequenceDefinition {
+    return { type: 'geometric', initial: this.initial, ratio: this.ratio };
+  }
+}
+
+/**
+ * Explicit list of terms. Cycles past the end of the list repeat the last term.
+ */
+export class CustomSequence implements TermSequence {
+  readonly name = 'custom';
+  private terms: number[];
+
+  /**
+   * Creates a new custom sequence
+   * @param terms - Term lengths in months
+   */
+  constructor(terms: number[]) {
+    if (!terms.length) {
+      throw new Error('Custom sequence requires at least one term');
+    }
+    terms.forEach(assertTermLength);
+    this.terms = [...terms];
+  }
+
+  /**
+   * Gets the term length at a position in the sequence
+   * @param index - Position in the sequence (0-indexed)
+   * @returns Term length in months
+   */
+  termAt(index: number): number {
+    return this.terms[Math.min(Math.max(index, 0), this.terms.length - 1)];
+  }
+
+  /**
+   * Describes the sequence for a plan definition
+   * @returns Term sequence definition
+   */
+  toJSON(): TermSequenceDefinition {
+    return { type: 'custom', terms: [...this.terms] };
+  }
+}
+
+/**
+ * Resolves a sequence option into a sequence instance
+ * @param sequence - Sequence instance or built-in sequence name
+ * @returns The term sequence (classic Fibonacci by default)
+ */
+export function resolveTermSequence(sequence?: TermSequence | TermSequenceName): TermSequence {
+  if (sequence === undefined) {
+    return new FibonacciSequence();
+  }
+
+  if (typeof sequence !== 'string') {
+    return sequence;
+  }
+
+  switch (sequence) {
+    case 'fibonacci':
+      return new FibonacciSequence();
+    case 'lucas':
+      return new LucasSequence();
+    case 'fibonacci-skip-one':
+      return new FibonacciSkipOneSequence();
+    default:
+      throw new Error(`Unknown term sequence: ${sequence}`);
+  }
+}
+
+/**
+ * Ensures a term length is a positive whole number of months
+ * @param term - Term length to check
+ */
+function assertTermLength(term: number): void {
+  if (!Number.isInteger(term) || term < 1) {
+    throw new Error(`Term lengths must be positive whole months, got ${term}`);
+  }
+}
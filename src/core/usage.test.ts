@@ -0,0 +1,56 @@
+import FibonacciBilling from './fibonacci-billing';
+import { getUsagePeriods, validateUsageComponent } from './usage';
+import { UsageComponent } from '../types';
+
+const apiCalls: UsageComponent = { id: 'api', unitPrice: 0.002, includedUnits: 1000 };
+const dataExports: UsageComponent = { id: 'exports', unitPrice: 0.5, billing: 'arrears' };
+
+const term = {
+  periodStart: new Date('2024-01-15T00:00:00.000Z'),
+  periodEnd: new Date('2024-04-15T00:00:00.000Z'),
+};
+
+describe('usage', () => {
+  it('should split a term into monthly usage periods', () => {
+    const periods = getUsagePeriods(apiCalls, {
+      periodStart: new Date('2024-01-31T00:00:00.000Z'),
+      periodEnd: new Date('2024-03-15T00:00:00.000Z'),
+    });
+
+    expect(periods.map((period) => period.periodEnd.toISOString())).toEqual([
+      '2024-02-29T00:00:00.000Z',
+      '2024-03-15T00:00:00.000Z',
+    ]);
+    expect(getUsagePeriods(dataExports, term)).toEqual([term]);
+  });
+
+  it('should charge usage beyond the included units per period', () => {
+    const billing = new FibonacciBilling({ usage: [apiCalls, dataExports] });
+    const charges = billing.calculateUsageCharges(term, [
+      { componentId: 'api', quantity: 1500, timestamp: new Date('2024-01-20T00:00:00.000Z') },
+      { componentId: 'api', quantity: 1000, timestamp: new Date('2024-02-01T00:00:00.000Z') },
+      { componentId: 'api', quantity: 500, timestamp: new Date('2024-02-20T00:00:00.000Z') },
+      { componentId: 'api', quantity: 10000, timestamp: new Date('2024-04-10T00:00:00.000Z') },
+      { componentId: 'exports', quantity: 3, timestamp: new Date('2024-03-01T00:00:00.000Z') },
+    ]);
+
+    expect(charges.map((charge) => [charge.componentId, charge.billableQuantity])).toEqual([
+      ['api', 1500],
+      ['api', 0],
+      ['api', 9000],
+      ['exports', 3],
+    ]);
+    expect(charges.map((charge) => charge.amount.amount)).toEqual([300, 0, 1800, 150]);
+  });
+
+  it('should reject unknown components and invalid definitions', () => {
+    const billing = new FibonacciBilling({ usage: [apiCalls] });
+
+    expect(() =>
+      billing.calculateUsageCharges(term, [
+        { componentId: 'sms', quantity: 1, timestamp: term.periodStart },
+      ])
+    ).toThrow('Unknown usage component: sms');
+    expect(() => validateUsageComponent({ id: 'bad', unitPrice: -1 })).toThrow();
+  });
+});
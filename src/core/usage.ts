@@ -0,0 +1,109 @@
+/**
+ * Metered usage for Fibonacci Billing
+ *
+ * Usage components are billed in arrears next to the prepaid term: either
+ * once a month through the term, or once when the term ends. Each usage
+ * period is charged at its end for the units used beyond those included.
+ */
+
+import { RoundingMode, TermPeriod, UsageCharge, UsageComponent, UsageRecord } from '../types';
+import { addMonths, fromZonedDateTime, toZonedDateTime } from './calendar';
+import { toMinorUnits } from './money';
+
+/**
+ * Checks that a usage component definition is usable
+ * @param component - Usage component to check
+ * @throws Error if the component is invalid
+ */
+export function validateUsageComponent(component: UsageComponent): void {
+  if (!component.id) {
+    throw new Error('Usage component id is required');
+  }
+
+  if (!Number.isFinite(component.unitPrice) || component.unitPrice < 0) {
+    throw new Error(
+      `Usage component ${component.id} must have a non-negative unitPrice, got ${component.unitPrice}`
+    );
+  }
+
+  const included = component.includedUnits;
+  if (included !== undefined && (!Number.isFinite(included) || included < 0)) {
+    throw new Error(
+      `Usage component ${component.id} must have non-negative includedUnits, got ${included}`
+    );
+  }
+
+  if (component.billing !== undefined && !['monthly', 'arrears'].includes(component.billing)) {
+    throw new Error(`Unknown usage billing mode for ${component.id}: ${component.billing}`);
+  }
+}
+
+/**
+ * Splits a term into the periods a usage component is billed for
+ * @param component - Usage component
+ * @param term - Start and end of the prepaid term
+ * @param timeZone - IANA time zone months are counted in (defaults to 'UTC')
+ * @returns Usage periods covering the term, in order
+ */
+export function getUsagePeriods(
+  component: UsageComponent,
+  term: TermPeriod,
+  timeZone = 'UTC'
+): TermPeriod[] {
+  if (term.periodEnd.getTime() <= term.periodStart.getTime()) {
+    throw new Error('Billing period must end after it starts');
+  }
+
+  if (component.billing === 'arrears') {
+    return [{ periodStart: term.periodStart, periodEnd: term.periodEnd }];
+  }
+
+  const start = toZonedDateTime(term.periodStart, timeZone);
+  const periods: TermPeriod[] = [];
+  let periodStart = term.periodStart;
+
+  for (let months = 1; periodStart.getTime() < term.periodEnd.getTime(); months++) {
+    const monthEnd = fromZonedDateTime(addMonths(start, months, start.day), timeZone);
+    const periodEnd = monthEnd.getTime() < term.periodEnd.getTime() ? monthEnd : term.periodEnd;
+
+    periods.push({ periodStart, periodEnd });
+    periodStart = periodEnd;
+  }
+
+  return periods;
+}
+
+/**
+ * Calculates the charge for a usage component over one period
+ * @param component - Usage component
+ * @param records - Usage records (records for other components or outside the period are ignored)
+ * @param period - Usage period
+ * @param currency - ISO 4217 currency code
+ * @param roundingMode - Rounding mode for the charge
+ * @returns Usage charge for the period
+ */
+export function calculateUsageCharge(
+  component: UsageComponent,
+  records: UsageRecord[],
+  period: TermPeriod,
+  currency: string,
+  roundingMode?: RoundingMode
+): UsageCharge {
+  const start = period.periodStart.getTime();
+  const end = period.periodEnd.getTime();
+
+  const quantity = records
+    .filter((record) => record.componentId === component.id)
+    .filter((record) => record.timestamp.getTime() >= start && record.timestamp.getTime() < end)
+    .reduce((sum, record) => sum + record.quantity, 0);
+  const billableQuantity = Math.max(quantity - (component.includedUnits || 0), 0);
+
+  return {
+    componentId: component.id,
+    periodStart: period.periodStart,
+    periodEnd: period.periodEnd,
+    quantity,
+    billableQuantity,
+    amount: toMinorUnits(component.unitPrice * billableQuantity, currency, roundingMode),
+  };
+}
@@ -0,0 +1,54 @@
+import FibonacciBilling from './fibonacci-billing';
+import { InvalidBillingOptionsError } from './errors';
+import { validateBillingOptions } from './validation';
+
+describe('billing option validation', () => {
+  it('should keep explicit zeros instead of falling back to defaults', () => {
+    const free = new FibonacciBilling({ basePrice: 0 });
+    const undiscounted = new FibonacciBilling({ basePrice: 10, discountRate: 0 });
+
+    expect(free.calculateNextBilling(3).finalAmount).toBe(0);
+    expect(undiscounted.calculateNextBilling(3).finalAmount).toBe(50);
+    expect(undiscounted.calculateNextBilling(3).discount).toBe(0);
+  });
+
+  it('should list every problem in one error', () => {
+    let error: unknown;
+    try {
+      new FibonacciBilling({ basePrice: -5, discountRate: 1.5, capTerm: true, maxTerm: 0 });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(InvalidBillingOptionsError);
+    expect((error as InvalidBillingOptionsError).issues.map((issue) => issue.path)).toEqual([
+      'basePrice',
+      'discountRate',
+      'maxTerm',
+    ]);
+    expect((error as InvalidBillingOptionsError).message).toContain(
+      'maxTerm must be at least 1 when capTerm is true'
+    );
+  });
+
+  it('should report problems from nested options with their paths', () => {
+    const issues = validateBillingOptions(
+      {
+        currency: 'dollars',
+        quantity: 30,
+        seats: { mode: 'volume', tiers: [{ upTo: 10, unitPrice: 5 }] },
+        coupons: [{ id: 'BAD', type: 'percent', value: 2, duration: 'once' }],
+        usage: [{ id: 'api', unitPrice: -1 }],
+      },
+      'billingOptions'
+    );
+
+    expect(issues.map((issue) => issue.path)).toEqual([
+      'billingOptions.currency',
+      'billingOptions.coupons[0]',
+      'billingOptions.quantity',
+      'billingOptions.usage[0]',
+    ]);
+    expect(validateBillingOptions({ basePrice: 0, discountRate: 0, maxTerm: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Billing option validation for Fibonacci Billing
+ *
+ * Options are checked as a whole so every problem is reported at once rather
+ * than one per attempt. Omitted options fall back to their defaults; explicit
+ * zeros, such as a free plan or no term discount, are valid.
+ */
+
+import { BillingOptionsIssue, FibonacciBillingOptions } from '../types';
+import { InvalidBillingOptionsError } from './errors';
+import { validateCoupon } from './coupons';
+import { assertQuantity, calculateSeatPrice, validateSeatPricing } from './seats';
+import { TaxRateTable } from './tax';
+import { resolveTermSequence } from './term-sequences';
+import { validateUsageComponent } from './usage';
+
+const ROUNDING_MODES = ['half-even', 'half-up', 'floor'];
+
+/**
+ * Finds every problem with a set of billing options
+ * @param options - Billing options to check
+ * @param prefix - Path prefix for the issues, e.g. 'billingOptions'
+ * @returns Problems found (empty if the options are valid)
+ */
+export function validateBillingOptions(
+  options: Partial<FibonacciBillingOptions>,
+  prefix?: string
+): BillingOptionsIssue[] {
+  const issues: BillingOptionsIssue[] = [];
+  const report = (path: string, message: string) =>
+    issues.push({ path: prefix ? `${prefix}.${path}` : path, message });
+
+  // Reuse the validators that throw, turning each failure into an issue
+  const check = (path: string, validate: () => void): boolean => {
+    try {
+      validate();
+      return true;
+    } catch (error) {
+      report(path, error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  };
+
+  const { basePrice, discountRate, capTerm, maxTerm, currency, roundingMode } = options;
+
+  if (basePrice !== undefined && !(Number.isFinite(basePrice) && basePrice >= 0)) {
+    report('basePrice', `basePrice must be a non-negative number, got ${basePrice}`);
+  }
+
+  if (
+    discountRate !== undefined &&
+    !(Number.isFinite(discountRate) && discountRate >= 0 && discountRate <= 1)
+  ) {
+    report('discountRate', `discountRate must be between 0 and 1, got ${discountRate}`);
+  }
+
+  if (capTerm !== undefined && typeof capTerm !== 'boolean') {
+    report('capTerm', `capTerm must be true or false, got ${capTerm}`);
+  }
+
+  if (maxTerm !== undefined && !(Number.isInteger(maxTerm) && maxTerm >= 0)) {
+    report('maxTerm', `maxTerm must be a non-negative whole number, got ${maxTerm}`);
+  } else if (capTerm === true && !maxTerm) {
+    report('maxTerm', 'maxTerm must be at least 1 when capTerm is true');
+  }
+
+  if (options.sequence !== undefined) {
+    check('sequence', () => resolveTermSequence(options.sequence));
+  }
+
+  if (currency !== undefined && !/^[A-Za-z]{3}$/.test(currency)) {
+    report('currency', `currency must be a three-letter ISO 4217 code, got ${currency}`);
+  }
+
+  if (roundingMode !== undefined && !ROUNDING_MODES.includes(roundingMode)) {
+    report('roundingMode', `Unknown rounding mode: ${roundingMode}`);
+  }
+
+  if (options.tax) {
+    const tax = options.tax;
+    check('tax.rates', () => new TaxRateTable(tax.rates));
+  }
+
+  (options.coupons || []).forEach((coupon, index) => {
+    check(`coupons[${index}]`, () => validateCoupon(coupon));
+  });
+
+  const { days, introPrice } = options.trial || {};
+  if (days !== undefined && !(Number.isInteger(days) && days >= 0)) {
+    report('trial.days', `trial.days must be a non-negative whole number, got ${days}`);
+  }
+  if (introPrice !== undefined && !(Number.isFinite(introPrice) && introPrice >= 0)) {
+    report('trial.introPrice', `trial.introPrice must be a non-negative number, got ${introPrice}`);
+  }
+
+  const quantity = options.quantity === undefined ? 1 : options.quantity;
+  const quantityValid = check('quantity', () => assertQuantity(quantity));
+
+  if (options.seats) {
+    const seats = options.seats;
+
+    // Price the quantity now so one past the last tier fails here, not on the first bill
+    if (check('seats', () => validateSeatPricing(seats)) && quantityValid) {
+      check('quantity', () => calculateSeatPrice(seats, quantity, 'USD'));
+    }
+  }
+
+  (options.usage || []).forEach((component, index) => {
+    check(`usage[${index}]`, () => validateUsageComponent(component));
+  });
+
+  return issues;
+}
+
+/**
+ * Checks billing options, throwing if there is any problem
+ * @param options - Billing options to check
+ * @param prefix - Path prefix for the issues, e.g. 'billingOptions'
+ * @throws InvalidBillingOptionsError listing every problem found
+ */
+export function assertValidBillingOptions(
+  options: Partial<FibonacciBillingOptions>,
+  prefix?: string
+): void {
+  const issues = validateBillingOptions(options, prefix);
+
+  if (issues.length) {
+    throw new InvalidBillingOptionsError(issues);
+  }
+}
@@ -7,6 +7,111 @@
 
 // Core exports
 export { default as FibonacciBilling } from './core/fibonacci-billing';
+export {
+  AdditiveSequence,
+  FibonacciSequence,
+  LucasSequence,
+  FibonacciSkipOneSequence,
+  GeometricSequence,
+  CustomSequence,
+  resolveTermSequence,
+} from './core/term-sequences';
+export {
+  TermOverflowError,
+  InvalidBillingOptionsError,
+  InvalidPlanDefinitionError,
+} from './core/errors';
+export {
+  CURRENCY_EXPONENTS,
+  getCurrencyExponent,
+  roundToInteger,
+  createMoney,
+  toMinorUnits,
+  toMajorUnits,
+  addMoney,
+  subtractMoney,
+  multiplyMoney,
+  divideMoney,
+  sumMoney,
+  formatMoney,
+} from './core/money';
+export {
+  LinearDiscountPolicy,
+  SteppedDiscountPolicy,
+  CycleTableDiscountPolicy,
+  ExponentialDecayDiscountPolicy,
+} from './core/discount-policies';
+export {
+  isLeapYear,
+  daysInMonth,
+  addMonths,
+  addDays,
+  toZonedDateTime,
+  fromZonedDateTime,
+  getTimeZoneOffset,
+  toStartOfDay,
+  getReminderDate,
+} from './core/calendar';
+export { getRemainingFraction, calculateProration } from './core/proration';
+export {
+  NoRefundPolicy,
+  ProRataRefundPolicy,
+  DiscountClawbackRefundPolicy,
+  MinimumFeeRefundPolicy,
+} from './core/refund-policies';
+export { TaxRateTable, calculateTax } from './core/tax';
+export {
+  validateCoupon,
+  isCouponEligible,
+  getCouponCycleLimit,
+  getCouponAmount,
+  applyCoupons,
+} from './core/coupons';
+export { assertQuantity, validateSeatPricing, calculateSeatPrice } from './core/seats';
+export { validateUsageComponent, getUsagePeriods, calculateUsageCharge } from './core/usage';
+export {
+  createRevenueEntries,
+  prorationToRevenueEntry,
+  buildRevenueSchedule,
+  revenueScheduleToJSON,
+  revenueScheduleToCSV,
+} from './core/revenue-recognition';
+export { simulateCohort } from './core/cohort-simulator';
+export { comparePlans } from './core/plan-comparison';
+export { PlanCatalog, getPlanMetadata, getPlanReference } from './core/plan-catalog';
+export { validateBillingOptions, assertValidBillingOptions } from './core/validation';
+export {
+  PLAN_DEFINITION_SCHEMA,
+  PLAN_DEFINITION_VERSION,
+  validatePlanDefinition,
+  parsePlanDefinition,
+} from './core/plan-definition';
+export { solvePricing } from './core/pricing-solver';
+export { SUBSCRIPTION_TRANSITIONS, SubscriptionLifecycle, isCurrentCycle } from './core/lifecycle';
+export {
+  MemorySubscriptionStore,
+  getSubscriptionRecordFromMetadata,
+  applySubscriptionRecord,
+} from './core/subscription-store';
+export { SqliteSubscriptionStore } from './core/sqlite-subscription-store';
+export {
+  DEFAULT_REMINDER_DAYS,
+  NO_STORE_REMINDER_REASON,
+  ReminderScheduler,
+  getReminderOffset,
+  createReminder,
+  saveReminder,
+} from './core/reminder-scheduler';
+export {
+  DEFAULT_NOTIFICATION_TEMPLATES,
+  NotificationRenderer,
+  createNotificationTemplate,
+  escapeHtml,
+} from './core/notifications';
+export {
+  ConsoleNotificationTransport,
+  FileNotificationTransport,
+} from './core/notification-transports';
 
 // Integrations
 export { default as FibonacciStripeIntegration } from './integrations/stripe';
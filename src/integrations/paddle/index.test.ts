@@ -0,0 +1,119 @@
+import FibonacciPaddleIntegration from './index';
+import FibonacciBilling from '../../core/fibonacci-billing';
+import { MemorySubscriptionStore } from '../../core/subscription-store';
+import { NO_STORE_REMINDER_REASON } from '../../core/reminder-scheduler';
+
+// Shaped like a subscription from the Paddle SDK (camelCase, no period end field)
+const paddleSubscription = {
+  id: 'sub_01',
+  customerId: 'ctm_01',
+  status: 'active',
+  currentBillingPeriod: {
+    startsAt: '2024-01-01T00:00:00.000Z',
+    endsAt: '2024-06-01T00:00:00.000Z',
+  },
+  nextBilledAt: '2024-06-01T00:00:00.000Z',
+  items: [{ quantity: 1, price: { id: 'pri_01', productId: 'pro_01' } }],
+  metadata: { fibonacciBillingCycle: '3' },
+};
+
+const createIntegration = (store = new MemorySubscriptionStore()) => {
+  const paddle = new FibonacciPaddleIntegration({
+    apiKey: 'test_key',
+    vendorId: '1234',
+    vendorAuthCode: 'test_auth',
+    billingOptions: { basePrice: 10 },
+    store,
+  });
+  const client = {
+    subscriptions: {
+      get: jest.fn().mockResolvedValue(paddleSubscription),
+      update: jest.fn().mockImplementation(async (id, params) => ({ id, ...params })),
+    },
+    prices: { create: jest.fn().mockResolvedValue({ id: 'pri_02' }) },
+  };
+
+  Object.assign(paddle, { paddleClient: client });
+  return { paddle, client, store };
+};
+
+describe('FibonacciPaddleIntegration', () => {
+  describe('updateSubscriptionToNextTerm', () => {
+    it('should bill the next term at its own price and length', async () => {
+      const { paddle, client } = createIntegration();
+
+      await paddle.updateSubscriptionToNextTerm('sub_01', 3);
+
+      expect(client.prices.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          productId: 'pro_01',
+          unitPrice: { amount: '4000', currencyCode: 'USD' },
+          billingCycle: { interval: 'month', frequency: 5 },
+        })
+      );
+      expect(client.subscriptions.update).toHaveBeenCalledWith(
+        'sub_01',
+        expect.objectContaining({
+          items: [{ priceId: 'pri_02', quantity: 1 }],
+          prorationBillingMode: 'do_not_bill',
+          metadata: expect.objectContaining({ fibonacciRenewed: 'true' }),
+        })
+      );
+    });
+
+    it('should reprice a held term', async () => {
+      const { paddle, client, store } = createIntegration();
+
+      await paddle.updateSubscriptionToNextTerm('sub_01', 3, { progression: 'hold' });
+
+      expect(client.prices.create.mock.calls[0][0].billingCycle.frequency).toBe(3);
+      expect(client.prices.create.mock.calls[0][0].unitPrice.amount).toBe('2700');
+      expect((await store.getCycleHistory('sub_01')).map((entry) => entry.reason)).toEqual([
+        'hold',
+      ]);
+    });
+  });
+
+  describe('payment reminders', () => {
+    it('should schedule the reminder from the next billing date', async () => {
+      const { paddle, store } = createIntegration();
+
+      const result = await paddle.handleWebhook({
+        event_type: 'subscription.payment_succeeded',
+        event_id: 'evt_01',
+        subscription_id: 'sub_01',
+        customer_id: 'ctm_01',
+      });
+      const [reminder] = await store.getReminders('sub_01');
+
+      expect(result.action).toBe('payment_succeeded');
+      expect(reminder.id).toBe('sub_01:4');
+      expect(reminder.renewalDate).toEqual(new Date('2024-06-01T00:00:00.000Z'));
+      expect(reminder.remindAt).toEqual(new Date('2024-05-25T00:00:00.000Z'));
+    });
+
+    it('should fall back to the end of the billing period', async () => {
+      const { paddle } = createIntegration();
+
+      const scheduled = await paddle.scheduleNextPaymentReminder(
+        { ...paddleSubscription, nextBilledAt: undefined },
+        new FibonacciBilling({ basePrice: 10 }).calculateNextBilling(3)
+      );
+
+      expect(scheduled.next_billing_date).toBe('2024-06-01T00:00:00.000Z');
+      expect(scheduled.reminder_date).toBe('2024-05-25T00:00:00.000Z');
+    });
+
+    it('should not report a reminder as scheduled without a store', async () => {
+      const { paddle } = createIntegration();
+      Object.assign(paddle, { store: undefined });
+
+      const scheduled = await paddle.scheduleNextPaymentReminder(
+        paddleSubscription,
+        new FibonacciBilling({ basePrice: 10 }).calculateNextBilling(3)
+      );
+
+      expect(scheduled).toMatchObject({ scheduled: false, reason: NO_STORE_REMINDER_REASON });
+    });
+  });
+});
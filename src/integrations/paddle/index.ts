@@ -4,10 +4,40 @@
 
 import { Paddle, Environment } from '@paddle/paddle-node-sdk';
 import FibonacciBilling from '../../core/fibonacci-billing';
+import { calculateProration } from '../../core/proration';
+import { PlanCatalog, getPlanMetadata, getPlanReference } from '../../core/plan-catalog';
+import { assertValidBillingOptions } from '../../core/validation';
+import { applySubscriptionRecord } from '../../core/subscription-store';
 import {
+  NO_STORE_REMINDER_REASON,
+  createReminder,
+  saveReminder,
+} from '../../core/reminder-scheduler';
+import {
+  BillingCycleInfo,
+  FibonacciBillingOptions,
+  LifecycleEvent,
+  LifecycleEventType,
+  PaddleAdjustment,
   PaddleIntegrationOptions,
+  PaddlePaymentReminder,
+  PaddleSubscription,
+  PaddleTransaction,
+  PaddleWebhookPayload,
   ProductCreationOptions,
   CheckoutSessionOptions,
+  PlanChangeOptions,
+  PlanMigrationOptions,
+  PlanMigrationResult,
+  PauseResult,
+  PlanReference,
+  PlanVersion,
+  ProrationResult,
+  RefundBreakdown,
+  ReminderOffsets,
+  SubscriptionPauseOptions,
+  SubscriptionStore,
+  TermChangeOptions,
   WebhookResult
 } from '../../types';
 
@@ -19,7 +49,14 @@ class FibonacciPaddleIntegration {
   private vendorId: string;
   private vendorAuthCode: string;
   private isSandbox: boolean;
+  private billingOptions: FibonacciBillingOptions;
   private billingEngine: FibonacciBilling;
+  private planCatalog: PlanCatalog;
+  private planId?: string;
+  private timeZone: string;
+  private refundOnCancel: boolean;
+  private store?: SubscriptionStore;
+  private reminderOffsets?: ReminderOffsets;
   private paddleClient: any; // Using any type to avoid linter errors with SDK
 
   /**
@@ -31,8 +68,16 @@ class FibonacciPaddleIntegration {
     this.vendorId = options.vendorId;
     this.vendorAuthCode = options.vendorAuthCode;
     this.isSandbox = options.isSandbox || false;
+    assertValidBillingOptions(options.billingOptions, 'billingOptions');
+    this.billingOptions = options.billingOptions;
     this.billingEngine = new FibonacciBilling(options.billingOptions);
-    
+    this.planCatalog = new PlanCatalog(options.plans);
+    this.planId = options.planId;
+    this.timeZone = options.timeZone || 'UTC';
+    this.refundOnCancel = options.refundOnCancel || false;
+    this.store = options.store;
+    this.reminderOffsets = options.reminderOffsets;
+
     // Initialize Paddle SDK - using any type to avoid typechecking issues
     this.paddleClient = new Paddle(this.apiKey, {
       environment: this.isSandbox ? Environment.sandbox : Environment.production
@@ -45,28 +90,46 @@ class FibonacciPaddleIntegration {
    * @returns Promise resolving to the created product
    */
   async createProduct(options: ProductCreationOptions): Promise<any> {
-    const basePrice = options.basePrice || this.billingEngine.calculateNextBilling(0).baseAmount;
-    
+    const plan = this.getPlan(options.planId, options.planVersion);
+    const engine = this.getPlanEngine(plan);
+    const basePrice = options.basePrice || engine.calculateNextBilling(0).baseAmount;
+
     try {
-      // Create product in Paddle
+      // Create product in Paddle, recording the plan version it sells
       const product = await this.paddleClient.products.create({
         name: options.name,
         description: options.description,
+        ...(plan && { customData: getPlanMetadata(plan) }),
         // Use any additional fields required by Paddle API
       });
       
       // Create a price for the product (initial term)
+      const basePriceMoney = engine.toMoney(basePrice);
+      const firstBilling = engine.calculateNextBilling(0);
+      const trialDays = engine.getTrialDays();
+
+      // Paddle trials belong to the price, so checkouts for it start with the trial
       const price = await this.paddleClient.prices.create({
         productId: product.id,
-        description: `${options.name} - Monthly`,
+        description: firstBilling.introductory
+          ? `${options.name} - Introductory ${firstBilling.termMonths} Month Term`
+          : `${options.name} - Monthly`,
         unitPrice: {
-          amount: String(Math.round(basePrice * 100)),
-          currencyCode: 'USD'
+          amount: String(
+            firstBilling.introductory ? firstBilling.amounts.subtotal.amount : basePriceMoney.amount
+          ),
+          currencyCode: basePriceMoney.currency,
         },
         billingCycle: {
           interval: 'month',
-          frequency: 1
+          frequency: firstBilling.introductory ? firstBilling.termMonths : 1,
         },
+        ...(trialDays > 0 && {
+          trialPeriod: {
+            interval: 'day',
+            frequency: trialDays,
+          },
+        }),
         // Store Fibonacci data as metadata
       });
       
@@ -80,6 +143,16 @@ class FibonacciPaddleIntegration {
     }
   }
 
+  /**
+   * Rehydrates the billing engine for a product from the plan version
+   * recorded in its custom data
+   * @param productId - Paddle product ID
+   * @returns Promise resolving to the product's billing engine
+   */
+  async getProductEngine(productId: string): Promise<FibonacciBilling> {
+    return this.getPlanEngine(await this.getProductPlan(productId));
+  }
+
   /**
    * Generates a checkout URL for a product
    * @param options - Checkout session options
@@ -87,16 +160,24 @@ class FibonacciPaddleIntegration {
    */
   async generateCheckoutUrl(options: CheckoutSessionOptions): Promise<string> {
     try {
+      const plan = await this.getProductPlan(
+        options.productId,
+        options.planId,
+        options.planVersion
+      );
+
       // Create a checkout session
       const checkout = await this.paddleClient.checkout.create({
         items: [
           {
             priceId: options.priceId, // Use the specific price ID
-            quantity: 1
-          }
+            quantity: options.quantity || this.getPlanEngine(plan).getQuantity(),
+          },
         ],
         // Add customer details, success URL, etc.
         customerId: options.customerId,
+        // Record the plan version so renewals keep its pricing
+        ...(plan && { metadata: getPlanMetadata(plan) }),
         // Additional checkout options as required by Paddle API
       });
       
@@ -113,37 +194,31 @@ class FibonacciPaddleIntegration {
    * @param payload - Webhook payload
    * @returns Promise resolving to webhook processing result
    */
-  async handleWebhook(payload: any): Promise<WebhookResult> {
+  async handleWebhook(payload: PaddleWebhookPayload): Promise<WebhookResult> {
     try {
       // Verify webhook signature
       // Note: In production, you would verify the webhook signature using Paddle's API
       
       const eventType = payload.type || payload.event_type || payload.alert_name;
-      
-      switch (eventType) {
-        case 'subscription.created':
-          return this.handleSubscriptionCreated(payload);
-          
-        case 'subscription.updated':
-          return this.handleSubscriptionUpdated(payload);
-          
-        case 'subscription.canceled':
-          return this.handleSubscriptionCanceled(payload);
-          
-        case 'subscription.payment_succeeded':
-        case 'payment_succeeded':
-          return this.handlePaymentSucceeded(payload);
-          
-        case 'subscription.payment_failed':
-        case 'payment_failed':
-          return this.handlePaymentFailed(payload);
-          
-        default:
-          return {
-            action: 'ignored',
-            eventType
-          };
+      const eventId = payload.event_id || payload.eventId || payload.alert_id;
+
+      // Paddle retries deliveries, so skip events that were already handled
+      if (this.store && eventId && (await this.store.hasProcessedEvent('paddle', eventId))) {
+        return {
+          action: 'duplicate',
+          eventId,
+          eventType,
+        };
+      }
+
+      const result = await this.routeEvent(eventType, payload);
+      const lifecycleEvent = this.toLifecycleEvent(eventType, payload);
+
+      if (this.store && eventId && result.action !== 'error') {
+        await this.store.markEventProcessed('paddle', eventId, new Date());
       }
+
+      return lifecycleEvent ? { ...result, lifecycleEvent } : result;
     } catch (error) {
       console.error('Error handling Paddle webhook:', error);
       return {
@@ -153,12 +228,55 @@ class FibonacciPaddleIntegration {
     }
   }
   
+  /**
+   * Routes an event to its handler
+   * @param eventType - Paddle event type
+   * @param payload - Webhook payload
+   * @returns Webhook result
+   */
+  private async routeEvent(
+    eventType: string | undefined,
+    payload: PaddleWebhookPayload
+  ): Promise<WebhookResult> {
+    switch (eventType) {
+      case 'subscription.created':
+        return this.handleSubscriptionCreated(payload);
+
+      case 'subscription.updated':
+      case 'subscription.activated':
+      case 'subscription.past_due':
+      case 'subscription.paused':
+      case 'subscription.resumed':
+        return this.handleSubscriptionUpdated(payload);
+
+      case 'subscription.canceled':
+        return this.handleSubscriptionCanceled(payload);
+
+      case 'subscription.trialing':
+        return this.handleSubscriptionTrialing(payload);
+
+      case 'subscription.payment_succeeded':
+      case 'payment_succeeded':
+        return this.handlePaymentSucceeded(payload);
+
+      case 'subscription.payment_failed':
+      case 'payment_failed':
+        return this.handlePaymentFailed(payload);
+
+      default:
+        return {
+          action: 'ignored',
+          eventType,
+        };
+    }
+  }
+
   /**
    * Handle subscription created event
    * @param payload - Webhook payload
    * @returns Webhook result
    */
-  private async handleSubscriptionCreated(payload: any): Promise<WebhookResult> {
+  private async handleSubscriptionCreated(payload: PaddleWebhookPayload): Promise<WebhookResult> {
     const subscriptionId = this.extractId(payload, 'subscription');
     const customerId = this.extractId(payload, 'customer');
     
@@ -168,12 +286,29 @@ class FibonacciPaddleIntegration {
         error: 'No subscription ID found in webhook payload'
       };
     }
-    
+
+    const subscription = payload.subscription || { ...payload, id: subscriptionId };
+
+    // Subscriptions started from a checkout are first seen here
+    if (
+      this.store &&
+      subscription.metadata?.fibonacciBillingCycle &&
+      !(await this.store.getSubscription(subscriptionId))
+    ) {
+      const cycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+      const billing = this.getSubscriptionEngine(subscription).calculateNextBilling(
+        cycle - 1,
+        undefined,
+        this.getDiscountCycle(subscription)
+      );
+      await this.recordBilling(subscription, billing, 'created');
+    }
+
     return {
       action: 'subscription_created',
       customerId,
       subscriptionId,
-      subscription: payload.subscription || payload
+      subscription,
     };
   }
   
@@ -182,7 +317,7 @@ class FibonacciPaddleIntegration {
    * @param payload - Webhook payload
    * @returns Webhook result
    */
-  private async handleSubscriptionUpdated(payload: any): Promise<WebhookResult> {
+  private async handleSubscriptionUpdated(payload: PaddleWebhookPayload): Promise<WebhookResult> {
     const subscriptionId = this.extractId(payload, 'subscription');
     const customerId = this.extractId(payload, 'customer');
     
@@ -206,7 +341,7 @@ class FibonacciPaddleIntegration {
    * @param payload - Webhook payload
    * @returns Webhook result
    */
-  private async handleSubscriptionCanceled(payload: any): Promise<WebhookResult> {
+  private async handleSubscriptionCanceled(payload: PaddleWebhookPayload): Promise<WebhookResult> {
     const subscriptionId = this.extractId(payload, 'subscription');
     const customerId = this.extractId(payload, 'customer');
     
@@ -216,12 +351,74 @@ class FibonacciPaddleIntegration {
         error: 'No subscription ID found in webhook payload'
       };
     }
-    
-    return {
+
+    const subscription = await this.withStoredState(
+      subscriptionId,
+      payload.subscription || { ...payload, id: subscriptionId }
+    );
+    const result: WebhookResult = {
       action: 'subscription_ended',
       customerId,
       subscriptionId,
-      subscription: payload.subscription || payload
+      subscription,
+    };
+
+    // Non-Fibonacci subscriptions have no term to refund
+    if (!subscription.metadata?.fibonacciBillingCycle) {
+      return result;
+    }
+
+    try {
+      if (this.refundOnCancel) {
+        const { breakdown, adjustment } = await this.refundCancelledSubscription(subscription);
+        result.refund = breakdown;
+        result.adjustmentId = adjustment?.id;
+      } else {
+        result.refund = this.calculateCancellationRefund(subscription);
+      }
+    } catch (error) {
+      console.error('Error refunding canceled subscription:', error);
+      result.refundError = String(error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Handle subscription trialing event
+   * @param payload - Webhook payload
+   * @returns Webhook result, with the trial end and the first term that will be charged
+   */
+  private async handleSubscriptionTrialing(payload: PaddleWebhookPayload): Promise<WebhookResult> {
+    const subscriptionId = this.extractId(payload, 'subscription');
+    const customerId = this.extractId(payload, 'customer');
+
+    if (!subscriptionId) {
+      return {
+        action: 'error',
+        error: 'No subscription ID found in webhook payload',
+      };
+    }
+
+    const subscription = await this.withStoredState(
+      subscriptionId,
+      payload.subscription || { ...payload, id: subscriptionId }
+    );
+    const trialDates = subscription.items?.[0]?.trialDates || subscription.items?.[0]?.trial_dates;
+    const trialEnd = trialDates?.endsAt || trialDates?.ends_at;
+    const metadata = subscription.metadata || {};
+
+    return {
+      action: 'subscription_trialing',
+      customerId,
+      subscriptionId,
+      trialEnd: trialEnd ? new Date(trialEnd) : undefined,
+      nextBilling: metadata.fibonacciBillingCycle
+        ? this.getSubscriptionEngine(subscription).calculateNextBilling(
+            parseInt(metadata.fibonacciBillingCycle, 10) - 1
+          )
+        : undefined,
+      subscription,
     };
   }
   
@@ -230,7 +427,7 @@ class FibonacciPaddleIntegration {
    * @param payload - Webhook payload
    * @returns Webhook result
    */
-  private async handlePaymentSucceeded(payload: any): Promise<WebhookResult> {
+  private async handlePaymentSucceeded(payload: PaddleWebhookPayload): Promise<WebhookResult> {
     const subscriptionId = this.extractId(payload, 'subscription');
     const customerId = this.extractId(payload, 'customer');
     
@@ -243,8 +440,8 @@ class FibonacciPaddleIntegration {
     
     try {
       // Get the subscription
-      const subscription = await this.paddleClient.subscriptions.get(subscriptionId);
-      
+      const subscription = await this.retrieveSubscription(subscriptionId);
+
       // Check if this is a Fibonacci billing subscription
       // This would be stored in metadata or custom fields
       const metadata = subscription.metadata || {};
@@ -257,10 +454,16 @@ class FibonacciPaddleIntegration {
       }
       
       const currentCycle = parseInt(metadata.fibonacciBillingCycle, 10);
-      
-      // Schedule the next payment reminder
-      await this.scheduleNextPaymentReminder(subscription, this.billingEngine.calculateNextBilling(currentCycle));
-      
+
+      // Schedule the next payment reminder for the term updateSubscriptionToNextTerm will price
+      await this.scheduleNextPaymentReminder(
+        subscription,
+        this.getSubscriptionEngine(subscription).calculateTermChange({
+          cycle: currentCycle - 1,
+          discountCycle: this.getDiscountCycle(subscription),
+        })
+      );
+
       return {
         action: 'payment_succeeded',
         customerId,
@@ -282,7 +485,7 @@ class FibonacciPaddleIntegration {
    * @param payload - Webhook payload
    * @returns Webhook result
    */
-  private async handlePaymentFailed(payload: any): Promise<WebhookResult> {
+  private async handlePaymentFailed(payload: PaddleWebhookPayload): Promise<WebhookResult> {
     const subscriptionId = this.extractId(payload, 'subscription');
     const customerId = this.extractId(payload, 'customer');
     
@@ -301,58 +504,219 @@ class FibonacciPaddleIntegration {
     };
   }
 
+  /**
+   * Normalizes a Paddle event for the subscription lifecycle
+   * @param eventType - Paddle event type
+   * @param payload - Webhook payload
+   * @returns Lifecycle event, or undefined if the event does not affect a subscription's lifecycle
+   */
+  private toLifecycleEvent(
+    eventType: string | undefined,
+    payload: PaddleWebhookPayload
+  ): LifecycleEvent | undefined {
+    const subscriptionId = this.extractId(payload, 'subscription');
+    const subscription = payload.subscription || payload;
+    let type: LifecycleEventType | undefined;
+
+    switch (eventType) {
+      case 'subscription.created':
+      case 'subscription.updated':
+        type = this.getLifecycleEventType(subscription.status);
+        break;
+      case 'subscription.trialing':
+        type = 'trial-started';
+        break;
+      case 'subscription.activated':
+        type = 'activated';
+        break;
+      case 'subscription.past_due':
+      case 'subscription.payment_failed':
+      case 'payment_failed':
+        type = 'payment-failed';
+        break;
+      case 'subscription.paused':
+        type = 'paused';
+        break;
+      case 'subscription.resumed':
+        type = 'resumed';
+        break;
+      case 'subscription.canceled':
+        type = 'canceled';
+        break;
+      case 'subscription.payment_succeeded':
+      case 'payment_succeeded':
+        type = 'payment-succeeded';
+        break;
+    }
+
+    if (!type || !subscriptionId) {
+      return undefined;
+    }
+
+    const occurredAt = payload.occurredAt || payload.occurred_at;
+    const cycle = subscription.metadata?.fibonacciBillingCycle;
+
+    return {
+      type,
+      occurredAt: occurredAt ? new Date(occurredAt) : new Date(),
+      subscriptionId,
+      customerId: this.extractId(payload, 'customer'),
+      cycle: cycle ? parseInt(cycle, 10) : undefined,
+      provider: 'paddle',
+      providerEventType: eventType,
+    };
+  }
+
+  /**
+   * Maps the status of a created or updated subscription to a lifecycle event
+   * @param status - Paddle subscription status
+   * @returns Lifecycle event type, or undefined for an unknown status
+   */
+  private getLifecycleEventType(status: string | undefined): LifecycleEventType | undefined {
+    switch (status) {
+      case 'trialing':
+        return 'trial-started';
+      case 'active':
+        return 'activated';
+      case 'past_due':
+        return 'payment-failed';
+      case 'paused':
+        return 'paused';
+      case 'canceled':
+        return 'canceled';
+      default:
+        return undefined;
+    }
+  }
+
   /**
    * Helper to extract IDs from webhook payloads
    * @param payload - Webhook payload
    * @param type - ID type to extract
    * @returns The extracted ID or undefined
    */
-  private extractId(payload: any, type: string): string | undefined {
+  private extractId(
+    payload: PaddleWebhookPayload,
+    type: 'subscription' | 'customer'
+  ): string | undefined {
     // Handle different payload formats
-    if (payload[type]?.id) {
-      return payload[type].id;
-    }
-    
-    if (payload[`${type}_id`]) {
-      return payload[`${type}_id`];
+    const ids =
+      type === 'subscription'
+        ? [payload.subscription?.id, payload.subscription_id, payload.subscriptionId]
+        : [payload.customer?.id, payload.customer_id, payload.customerId];
+
+    return ids.find((id) => id);
+  }
+
+  /**
+   * Refunds a canceled subscription according to the plan's refund policy,
+   * as a refund adjustment on the latest completed transaction
+   * @param subscription - Paddle subscription object with Fibonacci metadata
+   * @returns Promise resolving to the refund breakdown and the adjustment, if any was issued
+   */
+  async refundCancelledSubscription(
+    subscription: PaddleSubscription
+  ): Promise<{ breakdown: RefundBreakdown; adjustment?: PaddleAdjustment }> {
+    const breakdown = this.calculateCancellationRefund(subscription);
+
+    if (breakdown.refundAmount.amount <= 0) {
+      return { breakdown };
     }
-    
-    if (payload[`${type}Id`]) {
-      return payload[`${type}Id`];
+
+    const adjustment = await this.issueAdjustment(
+      subscription.id,
+      'refund',
+      breakdown.refundAmount.amount,
+      `Early cancellation refund (${breakdown.policy})`
+    );
+
+    return { breakdown, adjustment };
+  }
+
+  /**
+   * Calculates the refund owed for a canceled subscription
+   * @param subscription - Paddle subscription object with Fibonacci metadata
+   * @returns Itemized refund
+   */
+  private calculateCancellationRefund(subscription: PaddleSubscription): RefundBreakdown {
+    const metadata = subscription.metadata || {};
+    if (!metadata.fibonacciBillingCycle) {
+      throw new Error('Not a Fibonacci billing subscription');
     }
-    
-    return undefined;
+
+    const currentCycle = parseInt(metadata.fibonacciBillingCycle, 10);
+    const period = this.getBillingPeriod(subscription);
+    const canceledAt = subscription.canceledAt || subscription.canceled_at;
+
+    return this.getSubscriptionEngine(subscription).calculateRefund({
+      cycle: currentCycle - 1,
+      discountCycle: this.getDiscountCycle(subscription),
+      renewed: this.hasRenewed(subscription),
+      periodStart: period.start,
+      periodEnd: period.end,
+      cancelDate: canceledAt ? new Date(canceledAt) : undefined,
+    });
+  }
+
+  /**
+   * Helper to read the current billing period from a subscription
+   * @param subscription - Paddle subscription object
+   * @returns Start and end of the current billing period
+   */
+  private getBillingPeriod(subscription: PaddleSubscription): { start: Date; end: Date } {
+    const period = subscription.currentBillingPeriod || subscription.current_billing_period || {};
+
+    return {
+      start: new Date(period.startsAt || period.starts_at || NaN),
+      end: new Date(period.endsAt || period.ends_at || NaN),
+    };
   }
 
   /**
    * Schedules the next payment reminder
    * @param subscription - Paddle subscription object
    * @param nextBilling - Next billing information
-   * @returns Promise resolving when reminder is scheduled
+   * @returns Promise resolving to the scheduled reminder
    */
-  async scheduleNextPaymentReminder(subscription: any, nextBilling: any): Promise<any> {
+  async scheduleNextPaymentReminder(
+    subscription: PaddleSubscription,
+    nextBilling: BillingCycleInfo
+  ): Promise<PaddlePaymentReminder> {
     try {
       const subscriptionId = subscription.id;
       const customerId = subscription.customerId || subscription.customer_id;
-      
-      // Get the next billing date - adapt to match SDK response format
-      const currentPeriodEnd = new Date(subscription.currentPeriodEnd || subscription.current_period_end);
-      const daysBeforeRenewal = 7;
-      const reminderDate = new Date(currentPeriodEnd.getTime() - (daysBeforeRenewal * 24 * 60 * 60 * 1000));
-      
-      // In a real implementation, you would use a scheduling service or database
-      // to store the reminder and trigger it at the appropriate time
-      
-      return {
+
+      // The next charge is at the end of the current billing period
+      const nextBilledAt = subscription.nextBilledAt || subscription.next_billed_at;
+      const renewalDate = nextBilledAt
+        ? new Date(nextBilledAt)
+        : this.getBillingPeriod(subscription).end;
+      const reminder = createReminder(
+        { subscriptionId, customerId, renewalDate, nextBilling },
+        this.reminderOffsets,
+        this.timeZone
+      );
+
+      const result: PaddlePaymentReminder = {
         scheduled: true,
         subscription_id: subscriptionId,
         customer_id: customerId,
-        reminder_date: reminderDate.toISOString(),
-        next_billing_date: currentPeriodEnd.toISOString(),
+        reminder_date: reminder.remindAt.toISOString(),
+        next_billing_date: renewalDate.toISOString(),
         next_cycle: nextBilling.cycle,
         next_term_months: nextBilling.termMonths,
-        next_amount: nextBilling.finalAmount
+        next_amount: nextBilling.finalAmount,
+        next_amount_minor: nextBilling.amounts.final.amount,
+        currency: nextBilling.currency,
       };
+
+      // Reminders are delivered from the store, so without one nothing would ever be sent
+      if (!this.store) {
+        return { ...result, scheduled: false, reason: NO_STORE_REMINDER_REASON };
+      }
+
+      await saveReminder(this.store, reminder);
+      return result;
     } catch (error) {
       console.error('Error scheduling next payment reminder:', error);
       throw error;
@@ -360,41 +724,749 @@ class FibonacciPaddleIntegration {
   }
 
   /**
-   * Updates a subscription to the next Fibonacci term
+   * Updates a subscription to the next Fibonacci term, or holds it at (or
+   * steps it back from) the current term when the customer asks
    * @param subscriptionId - Paddle subscription ID
    * @param currentCycle - Current Fibonacci cycle
+   * @param options - How the next term moves through the sequence and whether it keeps the earned discount
    * @returns Promise resolving to the updated subscription
    */
-  async updateSubscriptionToNextTerm(subscriptionId: string, currentCycle: number): Promise<any> {
+  async updateSubscriptionToNextTerm(
+    subscriptionId: string,
+    currentCycle: number,
+    options: TermChangeOptions = {}
+  ): Promise<PaddleSubscription> {
     try {
       // Get the subscription
-      const subscription = await this.paddleClient.subscriptions.get(subscriptionId);
-      
-      // Calculate next billing cycle
-      const nextBilling = this.billingEngine.calculateNextBilling(currentCycle);
-      
-      // Update the subscription with new billing information
-      // The exact implementation depends on Paddle's API for updating subscriptions
+      const subscription = await this.retrieveSubscription(subscriptionId);
+
+      // Calculate next billing cycle on the plan version the subscription was sold under
+      const nextBilling = this.getSubscriptionEngine(subscription).calculateTermChange({
+        ...options,
+        cycle: currentCycle - 1,
+        discountCycle: this.getDiscountCycle(subscription),
+      });
+
+      const productId = this.getTermProductId(subscription);
+      const item = await this.createTermItem(productId, nextBilling);
+
+      // Swap in the next term's price and interval from the next renewal, without
+      // charging for the change now
       const updatedSubscription = await this.paddleClient.subscriptions.update(subscriptionId, {
-        // Fields to update based on Paddle API requirements
-        // Store Fibonacci data in metadata
-        metadata: {
-          fibonacciBillingCycle: String(nextBilling.cycle),
-          termMonths: String(nextBilling.termMonths),
-          baseAmount: String(nextBilling.baseAmount),
-          discount: String(nextBilling.discount),
-          finalAmount: String(nextBilling.finalAmount),
-          savingsAmount: String(nextBilling.savingsAmount),
-          effectiveMonthlyRate: String(nextBilling.effectiveMonthlyRate)
-        }
+        items: [item],
+        prorationBillingMode: 'do_not_bill',
+        metadata: this.getSubscriptionMetadata(
+          nextBilling,
+          this.getSubscriptionPlan(subscription),
+          true
+        ),
       });
-      
+      await this.recordBilling(subscription, nextBilling, options.progression || 'advance');
+
       return updatedSubscription;
     } catch (error) {
       console.error('Error updating subscription to next term:', error);
       throw error;
     }
   }
+
+  /**
+   * Changes the plan of a subscription part way through its current term.
+   * The unused part of the current term is credited at its discounted rate and
+   * the new plan is charged for the rest of the period; the net amount is
+   * charged immediately or credited against the latest transaction.
+   * @param subscriptionId - Paddle subscription ID
+   * @param currentCycle - Current Fibonacci cycle (1-indexed, as stored in metadata)
+   * @param options - New plan options
+   * @returns Promise resolving to the updated subscription and the proration applied
+   */
+  async changeSubscriptionPlan(
+    subscriptionId: string,
+    currentCycle: number,
+    options: PlanChangeOptions
+  ): Promise<{ subscription: PaddleSubscription; proration: ProrationResult }> {
+    try {
+      // Get the subscription
+      const subscription = await this.retrieveSubscription(subscriptionId);
+      const currentEngine = this.getSubscriptionEngine(subscription);
+      const currentPlan = this.getSubscriptionPlan(subscription);
+      const newPlan =
+        options.planId || options.planVersion !== undefined
+          ? this.getPlan(options.planId || currentPlan?.planId, options.planVersion)
+          : currentPlan;
+      const newEngine = new FibonacciBilling({
+        ...(newPlan ? newPlan.billingOptions : this.billingOptions),
+        quantity: currentEngine.getQuantity(),
+        ...options.billingOptions,
+      });
+
+      // Price the running term on both plans
+      // A discount kept after a hold or step-down does not carry over to the new plan
+      const currentBilling = currentEngine.calculateNextBilling(
+        currentCycle - 1,
+        undefined,
+        this.getDiscountCycle(subscription)
+      );
+      const newBilling = newEngine.calculateNextBilling(currentCycle - 1);
+
+      const period = this.getBillingPeriod(subscription);
+      const proration = calculateProration({
+        currentBilling,
+        newBilling,
+        periodStart: period.start,
+        periodEnd: period.end,
+        changeDate: options.changeDate,
+        // Round as the plan version the subscription was sold under does
+        roundingMode: (currentPlan ? currentPlan.billingOptions : this.billingOptions).roundingMode,
+      });
+
+      const productId = options.productId || this.getTermProductId(subscription);
+
+      // Create a price for the new plan at the current term length
+      const item = await this.createTermItem(productId, newBilling);
+
+      // Swap the price without Paddle's own proration; ours is applied below
+      const updatedSubscription = await this.paddleClient.subscriptions.update(subscriptionId, {
+        items: [item],
+        prorationBillingMode: 'do_not_bill',
+        metadata: this.getSubscriptionMetadata(newBilling, newPlan, this.hasRenewed(subscription)),
+      });
+      await this.recordBilling(subscription, newBilling, 'plan-change', newPlan);
+
+      await this.applyProration(
+        subscriptionId,
+        productId,
+        proration,
+        `Fibonacci plan change proration (cycle ${newBilling.cycle})`
+      );
+
+      return {
+        subscription: updatedSubscription,
+        proration,
+      };
+    } catch (error) {
+      console.error('Error changing subscription plan:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Changes the number of seats on a subscription part way through its term.
+   * The change is co-termed to the current period end: added seats are charged
+   * at the running term's discounted rate for the time remaining, and removed
+   * seats are credited against the latest transaction.
+   * @param subscriptionId - Paddle subscription ID
+   * @param currentCycle - Current Fibonacci cycle (1-indexed, as stored in metadata)
+   * @param quantity - New number of seats
+   * @param changeDate - When the change takes effect (defaults to now)
+   * @returns Promise resolving to the updated subscription and the proration applied
+   */
+  async updateSubscriptionSeats(
+    subscriptionId: string,
+    currentCycle: number,
+    quantity: number,
+    changeDate?: Date
+  ): Promise<{ subscription: PaddleSubscription; proration: ProrationResult }> {
+    try {
+      const subscription = await this.retrieveSubscription(subscriptionId);
+      const engine = this.getSubscriptionEngine(subscription);
+      const fromQuantity = engine.getQuantity();
+      const period = this.getBillingPeriod(subscription);
+
+      const discountCycle = this.getDiscountCycle(subscription);
+      const proration = engine.calculateSeatChange({
+        cycle: currentCycle - 1,
+        discountCycle,
+        fromQuantity,
+        toQuantity: quantity,
+        periodStart: period.start,
+        periodEnd: period.end,
+        changeDate,
+      });
+
+      // Reprice the running term, since seat tiers can change the per-seat price
+      const productId = this.getTermProductId(subscription);
+      const newBilling = engine
+        .withQuantity(quantity)
+        .calculateNextBilling(currentCycle - 1, undefined, discountCycle);
+      const item = await this.createTermItem(productId, newBilling);
+
+      const updatedSubscription = await this.paddleClient.subscriptions.update(subscriptionId, {
+        items: [item],
+        prorationBillingMode: 'do_not_bill',
+        metadata: this.getSubscriptionMetadata(
+          newBilling,
+          this.getSubscriptionPlan(subscription),
+          this.hasRenewed(subscription)
+        ),
+      });
+      await this.recordBilling(subscription, newBilling, 'seat-change');
+
+      await this.applyProration(
+        subscriptionId,
+        productId,
+        proration,
+        `Fibonacci seat change proration (${fromQuantity} to ${quantity} seats)`
+      );
+
+      return {
+        subscription: updatedSubscription,
+        proration,
+      };
+    } catch (error) {
+      console.error('Error updating subscription seats:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves a subscription to another version of its catalog plan. By default
+   * the current term keeps its price and the next term is priced on the new
+   * version; an immediate migration reprices the running term with proration.
+   * @param subscriptionId - Paddle subscription ID
+   * @param options - Target version and when the migration takes effect
+   * @returns Promise resolving to the migration result
+   */
+  async migrateSubscription(
+    subscriptionId: string,
+    options: PlanMigrationOptions = {}
+  ): Promise<PlanMigrationResult> {
+    try {
+      const subscription = await this.retrieveSubscription(subscriptionId);
+      const metadata = subscription.metadata || {};
+      const reference = getPlanReference(metadata);
+
+      if (!reference) {
+        throw new Error('Subscription was not sold under a versioned plan');
+      }
+
+      const plan = this.planCatalog.getVersion(reference.planId, options.toVersion);
+      const result: PlanMigrationResult = {
+        subscriptionId,
+        planId: plan.planId,
+        fromVersion: reference.version,
+        toVersion: plan.version,
+      };
+
+      if (plan.version === reference.version) {
+        return result;
+      }
+
+      if (options.effective === 'immediately') {
+        const { proration } = await this.changeSubscriptionPlan(
+          subscriptionId,
+          parseInt(metadata.fibonacciBillingCycle, 10),
+          { planVersion: plan.version, changeDate: options.changeDate }
+        );
+        return { ...result, proration };
+      }
+
+      await this.paddleClient.subscriptions.update(subscriptionId, {
+        metadata: { ...metadata, ...getPlanMetadata(plan) },
+      });
+
+      if (this.store) {
+        const record = await this.store.getSubscription(subscriptionId);
+        if (record) {
+          await this.store.saveSubscription({
+            ...record,
+            plan: { planId: plan.planId, version: plan.version },
+            updatedAt: new Date(),
+          });
+        }
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Error migrating subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves every live subscription on one version of a plan to another version
+   * @param planId - Plan identifier
+   * @param fromVersion - Version to migrate from
+   * @param options - Target version and when the migration takes effect
+   * @returns Promise resolving to the result for each migrated subscription
+   */
+  async migrateSubscriptions(
+    planId: string,
+    fromVersion: number,
+    options: PlanMigrationOptions = {}
+  ): Promise<PlanMigrationResult[]> {
+    // Resolve the target up front so an unknown version fails before any update
+    const toVersion = this.planCatalog.getVersion(planId, options.toVersion).version;
+    const results: PlanMigrationResult[] = [];
+
+    // Paddle cannot filter by metadata, so page through live subscriptions
+    const collection = this.paddleClient.subscriptions.list({
+      status: ['active', 'trialing', 'past_due', 'paused'],
+    });
+
+    do {
+      const page = await collection.next();
+
+      for (const subscription of page) {
+        const reference = getPlanReference(subscription.metadata);
+        if (reference?.planId === planId && reference.version === fromVersion) {
+          results.push(await this.migrateSubscription(subscription.id, { ...options, toVersion }));
+        }
+      }
+    } while (collection.hasMore);
+
+    return results;
+  }
+
+  /**
+   * Pauses a subscription without losing its place in the sequence. The
+   * unused part of the current term is credited against the latest
+   * transaction, and the stored cycle is left unchanged so resuming starts
+   * the same term again in a new billing period.
+   * @param subscriptionId - Paddle subscription ID
+   * @param options - When the subscription should resume (paused until resumed if omitted)
+   * @returns Promise resolving to the paused subscription and the pause credit
+   */
+  async pauseSubscription(
+    subscriptionId: string,
+    options: SubscriptionPauseOptions = {}
+  ): Promise<{ subscription: PaddleSubscription; pause: PauseResult }> {
+    try {
+      const subscription = await this.retrieveSubscription(subscriptionId);
+      const metadata = subscription.metadata || {};
+
+      if (!metadata.fibonacciBillingCycle) {
+        throw new Error('Not a Fibonacci billing subscription');
+      }
+
+      if (subscription.status === 'paused') {
+        throw new Error(`Subscription ${subscriptionId} is already paused`);
+      }
+
+      const currentCycle = parseInt(metadata.fibonacciBillingCycle, 10);
+      const period = this.getBillingPeriod(subscription);
+      const pause = this.getSubscriptionEngine(subscription).calculatePause({
+        cycle: currentCycle - 1,
+        discountCycle: this.getDiscountCycle(subscription),
+        renewed: this.hasRenewed(subscription),
+        periodStart: period.start,
+        periodEnd: period.end,
+        resumeDate: options.resumeDate,
+        timeZone: this.timeZone,
+      });
+
+      await this.paddleClient.subscriptions.pause(subscriptionId, {
+        effectiveFrom: 'immediately',
+        ...(options.resumeDate && { resumeAt: options.resumeDate.toISOString() }),
+      });
+
+      // Paddle replaces metadata wholesale, so carry the stored cycle and plan across
+      const updatedSubscription = await this.paddleClient.subscriptions.update(subscriptionId, {
+        metadata: {
+          ...metadata,
+          fibonacciPausedAt: pause.pauseDate.toISOString(),
+          ...(options.resumeDate && { fibonacciResumeAt: options.resumeDate.toISOString() }),
+        },
+      });
+
+      if (pause.unusedCredit.amount > 0) {
+        await this.issueAdjustment(
+          subscriptionId,
+          'credit',
+          pause.unusedCredit.amount,
+          `Fibonacci pause credit (cycle ${pause.billing.cycle})`
+        );
+      }
+
+      return {
+        subscription: updatedSubscription,
+        pause,
+      };
+    } catch (error) {
+      console.error('Error pausing subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Resumes a paused subscription at the term it was paused in. Paddle starts
+   * a new billing period on resume, so the same term runs again in full from now.
+   * @param subscriptionId - Paddle subscription ID
+   * @returns Promise resolving to the resumed subscription
+   */
+  async resumeSubscription(subscriptionId: string): Promise<PaddleSubscription> {
+    try {
+      const subscription = await this.retrieveSubscription(subscriptionId);
+      const metadata = subscription.metadata || {};
+
+      if (subscription.status !== 'paused' || !metadata.fibonacciBillingCycle) {
+        throw new Error(
+          `Subscription ${subscriptionId} is not a paused Fibonacci billing subscription`
+        );
+      }
+
+      // The stored cycle was kept while paused, so this reprices the same term
+      const currentCycle = parseInt(metadata.fibonacciBillingCycle, 10);
+      const billing = this.getSubscriptionEngine(subscription).calculateNextBilling(
+        currentCycle - 1,
+        undefined,
+        this.getDiscountCycle(subscription)
+      );
+      const productId = this.getTermProductId(subscription);
+      const item = await this.createTermItem(productId, billing);
+
+      await this.paddleClient.subscriptions.resume(subscriptionId, {
+        effectiveFrom: 'immediately',
+      });
+
+      const resumedMetadata = {
+        ...metadata,
+        ...this.getSubscriptionMetadata(billing, this.getSubscriptionPlan(subscription)),
+      };
+      delete resumedMetadata.fibonacciPausedAt;
+      delete resumedMetadata.fibonacciResumeAt;
+
+      const updatedSubscription = await this.paddleClient.subscriptions.update(subscriptionId, {
+        items: [item],
+        prorationBillingMode: 'do_not_bill',
+        metadata: resumedMetadata,
+      });
+      await this.recordBilling(subscription, billing, 'resume');
+
+      return updatedSubscription;
+    } catch (error) {
+      console.error('Error resuming subscription:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Creates a price for a Fibonacci term and returns the subscription item for it.
+   * Paddle prices are whole minor units per seat, so when the term does not
+   * divide evenly between seats it is priced as a single item to keep the total exact.
+   * @param productId - Paddle product ID
+   * @param billing - Term being priced
+   * @returns Promise resolving to the subscription item (price ID and quantity)
+   */
+  private async createTermItem(
+    productId: string,
+    billing: BillingCycleInfo
+  ): Promise<{ priceId: string; quantity: number }> {
+    const total = billing.amounts.final.amount;
+    const perSeat = total % billing.quantity === 0;
+    const quantity = perSeat ? billing.quantity : 1;
+    const seats = billing.quantity > 1 ? `, ${billing.quantity} seats` : '';
+
+    const price = await this.paddleClient.prices.create({
+      productId,
+      description: `Fibonacci term ${billing.cycle} - ${billing.termMonths} months${seats}`,
+      unitPrice: {
+        amount: String(total / quantity),
+        currencyCode: billing.currency,
+      },
+      billingCycle: {
+        interval: 'month',
+        frequency: billing.termMonths,
+      },
+    });
+
+    return { priceId: price.id, quantity };
+  }
+
+  /**
+   * Gets the product of the Fibonacci term item on a subscription
+   * @param subscription - Paddle subscription object
+   * @returns Paddle product ID
+   * @throws Error if the subscription has no product to price terms for
+   */
+  private getTermProductId(subscription: PaddleSubscription): string {
+    const productId = subscription.items?.[0]?.price?.productId;
+
+    if (!productId) {
+      throw new Error(`Subscription ${subscription.id} has no product to price terms for`);
+    }
+
+    return productId;
+  }
+
+  /**
+   * Builds the Fibonacci metadata stored on a subscription. Paddle replaces
+   * metadata on update, so the plan version and renewal mark are written every time.
+   * @param billing - Term the subscription is on
+   * @param plan - Plan version the subscription is on, if it was sold from the catalog
+   * @param renewed - Whether the subscription has renewed since it was created
+   * @returns Subscription metadata
+   */
+  private getSubscriptionMetadata(
+    billing: BillingCycleInfo,
+    plan?: PlanVersion,
+    renewed = false
+  ): Record<string, string> {
+    return {
+      ...(plan && getPlanMetadata(plan)),
+      fibonacciBillingCycle: String(billing.cycle),
+      termMonths: String(billing.termMonths),
+      baseAmount: String(billing.baseAmount),
+      discount: String(billing.discount),
+      finalAmount: String(billing.finalAmount),
+      savingsAmount: String(billing.savingsAmount),
+      effectiveMonthlyRate: String(billing.effectiveMonthlyRate),
+      finalAmountMinor: String(billing.amounts.final.amount),
+      currency: billing.currency,
+      quantity: String(billing.quantity),
+      ...(billing.discountCycle && { fibonacciDiscountCycle: String(billing.discountCycle) }),
+      ...(renewed && { fibonacciRenewed: 'true' }),
+    };
+  }
+
+  /**
+   * Reads the cycle whose discount a subscription kept after a hold or step-down
+   * @param subscription - Paddle subscription with Fibonacci metadata
+   * @returns Cycle whose discount applies (0-indexed), or undefined if none was kept
+   */
+  private getDiscountCycle(subscription: PaddleSubscription): number | undefined {
+    const discountCycle = subscription.metadata?.fibonacciDiscountCycle;
+    return discountCycle ? parseInt(discountCycle, 10) - 1 : undefined;
+  }
+
+  /**
+   * Checks whether a subscription has renewed since it was created, so its term is not introductory
+   * @param subscription - Paddle subscription with Fibonacci metadata
+   * @returns True once the subscription has moved to a new term
+   */
+  private hasRenewed(subscription: PaddleSubscription): boolean {
+    return subscription.metadata?.fibonacciRenewed === 'true';
+  }
+
+  /**
+   * Fetches a subscription with its Fibonacci state read from the store
+   * @param subscriptionId - Paddle subscription ID
+   * @returns Promise resolving to the subscription
+   */
+  private async retrieveSubscription(subscriptionId: string): Promise<PaddleSubscription> {
+    const subscription = await this.paddleClient.subscriptions.get(subscriptionId);
+    return this.withStoredState(subscriptionId, subscription);
+  }
+
+  /**
+   * Overlays the stored Fibonacci state on a subscription's metadata, so the
+   * store wins over metadata for subscriptions it has a record of
+   * @param subscriptionId - Paddle subscription ID
+   * @param subscription - Paddle subscription object
+   * @returns Promise resolving to the subscription with the stored state
+   */
+  private async withStoredState(
+    subscriptionId: string,
+    subscription: PaddleSubscription
+  ): Promise<PaddleSubscription> {
+    const record = this.store && (await this.store.getSubscription(subscriptionId));
+
+    return record
+      ? { ...subscription, metadata: applySubscriptionRecord(subscription.metadata, record) }
+      : subscription;
+  }
+
+  /**
+   * Saves a newly priced term to the store, if there is one
+   * @param subscription - Paddle subscription object
+   * @param billing - Term billing
+   * @param reason - Why the term was priced
+   * @param plan - Plan version the term was priced on (defaults to the one in metadata)
+   * @returns Promise resolving when the term has been saved
+   */
+  private async recordBilling(
+    subscription: PaddleSubscription,
+    billing: BillingCycleInfo,
+    reason: string,
+    plan?: PlanReference
+  ): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const recordedAt = new Date();
+    const reference = plan || getPlanReference(subscription.metadata);
+
+    await this.store.saveSubscription({
+      subscriptionId: subscription.id,
+      provider: 'paddle',
+      customerId: subscription.customerId || subscription.customer_id,
+      cycle: billing.cycle,
+      discountCycle: billing.discountCycle,
+      plan: reference && { planId: reference.planId, version: reference.version },
+      billing,
+      updatedAt: recordedAt,
+    });
+    await this.store.addCycle({ subscriptionId: subscription.id, billing, reason, recordedAt });
+  }
+
+  /**
+   * Gets a billing engine for the plan version and number of seats on a subscription
+   * @param subscription - Paddle subscription object
+   * @returns Billing engine for the subscription's plan version and quantity
+   */
+  private getSubscriptionEngine(subscription: PaddleSubscription): FibonacciBilling {
+    const metadata = subscription.metadata || {};
+    const engine = this.getPlanEngine(this.getSubscriptionPlan(subscription));
+    const quantity = metadata.quantity
+      ? parseInt(metadata.quantity, 10)
+      : subscription.items?.[0]?.quantity;
+
+    return quantity ? engine.withQuantity(quantity) : engine;
+  }
+
+  /**
+   * Gets the catalog plan version to sell
+   * @param planId - Plan identifier (defaults to the integration's planId)
+   * @param version - Version number (defaults to the latest version)
+   * @returns The plan version, or undefined when selling without a catalog plan
+   */
+  private getPlan(planId = this.planId, version?: number): PlanVersion | undefined {
+    return planId ? this.planCatalog.getVersion(planId, version) : undefined;
+  }
+
+  /**
+   * Gets the catalog plan version to sell for a product: the requested plan,
+   * otherwise the plan recorded on the product
+   * @param productId - Paddle product ID
+   * @param planId - Requested plan identifier
+   * @param version - Requested version number (defaults to the latest version)
+   * @returns Promise resolving to the plan version, or undefined when selling without a catalog plan
+   */
+  private async getProductPlan(
+    productId: string,
+    planId?: string,
+    version?: number
+  ): Promise<PlanVersion | undefined> {
+    if (planId) {
+      return this.getPlan(planId, version);
+    }
+
+    const product = await this.paddleClient.products.get(productId);
+    const reference = getPlanReference(product.customData);
+    return reference
+      ? this.planCatalog.getVersion(reference.planId, reference.version)
+      : this.getPlan();
+  }
+
+  /**
+   * Gets the catalog plan version recorded on a subscription
+   * @param subscription - Paddle subscription object
+   * @returns The plan version, or undefined for subscriptions sold without a catalog plan
+   */
+  private getSubscriptionPlan(subscription: PaddleSubscription): PlanVersion | undefined {
+    const reference = getPlanReference(subscription.metadata);
+    return reference ? this.planCatalog.getVersion(reference.planId, reference.version) : undefined;
+  }
+
+  /**
+   * Gets a billing engine for a plan version
+   * @param plan - Plan version, or undefined for the integration's billing options
+   * @returns Billing engine
+   */
+  private getPlanEngine(plan?: PlanVersion): FibonacciBilling {
+    return plan ? new FibonacciBilling(plan.billingOptions) : this.billingEngine;
+  }
+
+  /**
+   * Charges a positive net proration immediately, or credits a negative one
+   * against the latest transaction
+   * @param subscriptionId - Paddle subscription ID
+   * @param productId - Paddle product ID for the one-time charge
+   * @param proration - Proration to apply
+   * @param description - Description shown on the charge or adjustment
+   * @returns Promise resolving when the proration has been applied
+   */
+  private async applyProration(
+    subscriptionId: string,
+    productId: string,
+    proration: ProrationResult,
+    description: string
+  ): Promise<void> {
+    if (proration.netAmount.amount > 0) {
+      // Charge the difference now rather than at the end of a long term
+      await this.paddleClient.subscriptions.createOneTimeCharge(subscriptionId, {
+        effectiveFrom: 'immediately',
+        items: [
+          {
+            quantity: 1,
+            price: {
+              productId,
+              description,
+              name: description,
+              unitPrice: {
+                amount: String(proration.netAmount.amount),
+                currencyCode: proration.netAmount.currency,
+              },
+            },
+          },
+        ],
+      });
+    } else if (proration.netAmount.amount < 0) {
+      await this.issueAdjustment(
+        subscriptionId,
+        'credit',
+        -proration.netAmount.amount,
+        description
+      );
+    }
+  }
+
+  /**
+   * Gets the most recent completed transaction for a subscription
+   * @param subscriptionId - Paddle subscription ID
+   * @returns Promise resolving to the transaction, or undefined if there is none
+   */
+  private async getLatestTransaction(
+    subscriptionId: string
+  ): Promise<PaddleTransaction | undefined> {
+    const transactions = await this.paddleClient.transactions
+      .list({
+        subscriptionId: [subscriptionId],
+        status: ['completed'],
+        orderBy: 'billed_at[DESC]',
+        perPage: 1,
+      })
+      .next();
+
+    return transactions[0];
+  }
+
+  /**
+   * Issues a partial adjustment against the latest transaction of a subscription
+   * @param subscriptionId - Paddle subscription ID
+   * @param action - Adjustment action ('credit' or 'refund')
+   * @param amount - Amount in minor units
+   * @param reason - Reason shown on the adjustment
+   * @returns Promise resolving to the created adjustment
+   */
+  private async issueAdjustment(
+    subscriptionId: string,
+    action: 'credit' | 'refund',
+    amount: number,
+    reason: string
+  ): Promise<PaddleAdjustment> {
+    const transaction = await this.getLatestTransaction(subscriptionId);
+    const itemId = transaction?.details?.lineItems?.[0]?.id;
+
+    if (!transaction || !itemId) {
+      throw new Error(`No completed transaction found for subscription ${subscriptionId}`);
+    }
+
+    return this.paddleClient.adjustments.create({
+      action,
+      transactionId: transaction.id,
+      reason,
+      type: 'partial',
+      items: [
+        {
+          itemId,
+          type: 'partial',
+          amount: String(amount),
+        },
+      ],
+    });
+  }
 }
 
 export default FibonacciPaddleIntegration; 
\ No newline at end of file
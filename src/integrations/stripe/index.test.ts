@@ -0,0 +1,270 @@
+import Stripe from 'stripe';
+import FibonacciStripeIntegration from './index';
+import FibonacciBilling from '../../core/fibonacci-billing';
+import { ProRataRefundPolicy } from '../../core/refund-policies';
+import { calculateProration } from '../../core/proration';
+import { SubscriptionLifecycle } from '../../core/lifecycle';
+import { MemorySubscriptionStore } from '../../core/subscription-store';
+import { NO_STORE_REMINDER_REASON } from '../../core/reminder-scheduler';
+import { StripeIntegrationOptions } from '../../types';
+
+const webhookSecret = 'whsec_test';
+const seconds = (date: string) => Date.parse(date) / 1000;
+
+const stripeSubscription = {
+  id: 'sub_1',
+  object: 'subscription',
+  customer: 'cus_1',
+  status: 'active',
+  current_period_start: seconds('2024-01-01T00:00:00Z'),
+  current_period_end: seconds('2024-04-01T00:00:00Z'),
+  cancel_at: null,
+  cancel_at_period_end: false,
+  canceled_at: null,
+  ended_at: null,
+  items: {
+    object: 'list',
+    data: [{ id: 'si_1', quantity: 1, price: { id: 'price_1', product: 'prod_1', metadata: {} } }],
+  },
+  metadata: { fibonacciBillingCycle: '3' },
+};
+
+const createIntegration = (options: Partial<StripeIntegrationOptions> = {}) =>
+  new FibonacciStripeIntegration({
+    stripeSecretKey: 'sk_test_123',
+    webhookSecret,
+    billingOptions: { basePrice: 10, refundPolicy: new ProRataRefundPolicy() },
+    ...options,
+  });
+
+let eventCount = 0;
+
+/**
+ * Sends a signed webhook event to an integration
+ */
+const sendEvent = (integration: FibonacciStripeIntegration, type: string, object: object) => {
+  eventCount += 1;
+  const payload = JSON.stringify({
+    id: `evt_${eventCount}`,
+    object: 'event',
+    created: seconds('2024-01-01T00:00:00Z') + eventCount,
+    type,
+    data: { object },
+  });
+  const signature = new Stripe('sk_test_123').webhooks.generateTestHeaderString({
+    payload,
+    secret: webhookSecret,
+  });
+
+  return integration.handleWebhook(payload, signature);
+};
+
+describe('FibonacciStripeIntegration', () => {
+  describe('createCheckoutSession', () => {
+    it('should apply first-term coupons to the session', async () => {
+      const integration = createIntegration({
+        billingOptions: {
+          basePrice: 10,
+          coupons: [{ id: 'launch', type: 'fixed', value: 5, duration: 'once' }],
+        },
+      });
+      const stripe = {
+        products: { retrieve: jest.fn().mockResolvedValue({ id: 'prod_1', metadata: {} }) },
+        prices: {
+          list: jest.fn().mockResolvedValue({ data: [{ id: 'price_1', unit_amount: 1000 }] }),
+        },
+        coupons: { retrieve: jest.fn().mockResolvedValue({ id: 'fib-launch-500usd' }) },
+        checkout: { sessions: { create: jest.fn().mockResolvedValue({ id: 'cs_1' }) } },
+      };
+      Object.assign(integration, { stripe });
+
+      await integration.createCheckoutSession({
+        customerId: 'cus_1',
+        productId: 'prod_1',
+        successUrl: 'https://example.com/success',
+        cancelUrl: 'https://example.com/cancel',
+      });
+
+      expect(stripe.checkout.sessions.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          line_items: [{ price: 'price_1', quantity: 1 }],
+          discounts: [{ coupon: 'fib-launch-500usd' }],
+        })
+      );
+    });
+  });
+
+  describe('lifecycle events', () => {
+    it('should keep a subscription trialing through the $0 trial invoice', async () => {
+      const integration = createIntegration();
+      const trialing = { ...stripeSubscription, status: 'trialing' };
+      const invoice = {
+        id: 'in_1',
+        object: 'invoice',
+        customer: 'cus_1',
+        subscription: 'sub_1',
+        billing_reason: 'subscription_create',
+        amount_paid: 0,
+        subscription_details: { metadata: stripeSubscription.metadata },
+      };
+      const lifecycle = new SubscriptionLifecycle();
+      Object.assign(integration['stripe'].subscriptions, {
+        retrieve: jest.fn().mockResolvedValue(trialing),
+      });
+
+      const created = await sendEvent(integration, 'customer.subscription.created', trialing);
+      const trialInvoice = await sendEvent(integration, 'invoice.payment_succeeded', invoice);
+      lifecycle.send(created.lifecycleEvent!);
+
+      expect(trialInvoice.action).toBe('payment_succeeded');
+      expect(trialInvoice.lifecycleEvent).toBeUndefined();
+      expect(lifecycle.getState()).toBe('trialing');
+
+      const firstCharge = await sendEvent(integration, 'invoice.payment_succeeded', {
+        ...invoice,
+        id: 'in_2',
+        billing_reason: 'subscription_cycle',
+        amount_paid: 1000,
+      });
+      lifecycle.send(firstCharge.lifecycleEvent!);
+
+      expect(lifecycle.getState()).toBe('active');
+    });
+  });
+
+  describe('schedulePaymentReminder', () => {
+    it('should remind about the next term with the discount a hold kept', async () => {
+      const integration = createIntegration();
+      Object.assign(integration['stripe'].subscriptions, {
+        retrieve: jest.fn().mockResolvedValue({
+          ...stripeSubscription,
+          metadata: { fibonacciBillingCycle: '3', fibonacciDiscountCycle: '5' },
+        }),
+      });
+      const engine = new FibonacciBilling({ basePrice: 10 });
+
+      const result = await integration.schedulePaymentReminder('sub_1');
+
+      expect(result).toMatchObject({
+        currentCycle: 3,
+        nextCycle: 4,
+        nextTermMonths: 5,
+        nextAmount: engine.calculateTermChange({ cycle: 2, discountCycle: 4 }).finalAmount,
+        reminderDate: new Date('2024-03-25T00:00:00Z'),
+      });
+      expect(result.nextAmount).toBeLessThan(engine.calculateNextBilling(3).finalAmount);
+    });
+
+    it('should only report a reminder as scheduled once it is saved to the store', async () => {
+      const store = new MemorySubscriptionStore();
+      const withStore = createIntegration({ store });
+      const withoutStore = createIntegration();
+      [withStore, withoutStore].forEach((integration) =>
+        Object.assign(integration['stripe'].subscriptions, {
+          retrieve: jest.fn().mockResolvedValue(stripeSubscription),
+        })
+      );
+
+      const saved = await withStore.schedulePaymentReminder('sub_1');
+      const unsaved = await withoutStore.schedulePaymentReminder('sub_1');
+
+      expect(saved.scheduled).toBe(true);
+      expect(await store.getReminders('sub_1')).toHaveLength(1);
+      expect(unsaved).toMatchObject({ scheduled: false, reason: NO_STORE_REMINDER_REASON });
+    });
+  });
+
+  describe('changeSubscriptionPlan', () => {
+    it('should round the proration as the pinned plan version does', async () => {
+      const integration = createIntegration({
+        plans: [
+          { planId: 'pro', version: 1, billingOptions: { basePrice: 10, roundingMode: 'floor' } },
+          { planId: 'pro', version: 2, billingOptions: { basePrice: 13, roundingMode: 'floor' } },
+        ],
+      });
+      const stripe = {
+        subscriptions: {
+          retrieve: jest.fn().mockResolvedValue({
+            ...stripeSubscription,
+            metadata: {
+              fibonacciBillingCycle: '3',
+              fibonacciPlanId: 'pro',
+              fibonacciPlanVersion: '1',
+            },
+          }),
+          update: jest.fn().mockResolvedValue(stripeSubscription),
+        },
+        prices: { create: jest.fn().mockResolvedValue({ id: 'price_2' }) },
+        invoiceItems: { create: jest.fn().mockResolvedValue({}) },
+        invoices: { create: jest.fn().mockResolvedValue({}) },
+      };
+      Object.assign(integration, { stripe });
+      const changeDate = new Date('2024-02-15T00:00:00Z');
+      const prorate = (roundingMode: 'floor' | 'half-up') =>
+        calculateProration({
+          currentBilling: new FibonacciBilling({ basePrice: 10 }).calculateNextBilling(2),
+          newBilling: new FibonacciBilling({ basePrice: 13 }).calculateNextBilling(2),
+          periodStart: new Date('2024-01-01T00:00:00Z'),
+          periodEnd: new Date('2024-04-01T00:00:00Z'),
+          changeDate,
+          roundingMode,
+        });
+
+      const { proration } = await integration.changeSubscriptionPlan('sub_1', {
+        planVersion: 2,
+        changeDate,
+      });
+
+      expect(proration).toEqual(prorate('floor'));
+      expect(proration).not.toEqual(prorate('half-up'));
+      expect(stripe.invoiceItems.create).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: prorate('floor').netAmount.amount })
+      );
+    });
+  });
+
+  describe('migrateSubscriptions', () => {
+    it('should escape the plan ID in the subscription search', async () => {
+      const planId = "pro's \\ plan";
+      const integration = createIntegration({
+        plans: [{ planId, version: 1, billingOptions: { basePrice: 10 } }],
+      });
+      const search = jest.fn().mockReturnValue([]);
+      integration['stripe'].subscriptions.search = search;
+
+      await integration.migrateSubscriptions(planId, 1);
+
+      expect(search).toHaveBeenCalledWith({
+        query:
+          "metadata['fibonacciPlanId']:'pro\\'s \\\\ plan' AND metadata['fibonacciPlanVersion']:'1'",
+      });
+    });
+  });
+
+  describe('cancellation refunds', () => {
+    it('should not refund time used before a cancellation at period end', async () => {
+      const result = await sendEvent(createIntegration(), 'customer.subscription.deleted', {
+        ...stripeSubscription,
+        status: 'canceled',
+        cancel_at_period_end: true,
+        canceled_at: seconds('2024-02-01T00:00:00Z'),
+        cancel_at: stripeSubscription.current_period_end,
+        ended_at: stripeSubscription.current_period_end,
+      });
+
+      expect(result.action).toBe('subscription_ended');
+      expect(result.refund?.refundAmount.amount).toBe(0);
+    });
+
+    it('should refund the unused part of an immediate cancellation', async () => {
+      const result = await sendEvent(createIntegration(), 'customer.subscription.deleted', {
+        ...stripeSubscription,
+        status: 'canceled',
+        canceled_at: seconds('2024-02-01T00:00:00Z'),
+        ended_at: seconds('2024-02-01T00:00:00Z'),
+      });
+
+      expect(result.refund?.refundAmount.amount).toBeGreaterThan(0);
+    });
+  });
+});
@@ -4,11 +4,39 @@
 
 import Stripe from 'stripe';
 import FibonacciBilling from '../../core/fibonacci-billing';
+import { calculateProration } from '../../core/proration';
+import { getCurrencyExponent } from '../../core/money';
+import { PlanCatalog, getPlanMetadata, getPlanReference } from '../../core/plan-catalog';
+import { assertValidBillingOptions } from '../../core/validation';
+import { applySubscriptionRecord } from '../../core/subscription-store';
 import {
+  NO_STORE_REMINDER_REASON,
+  createReminder,
+  saveReminder,
+} from '../../core/reminder-scheduler';
+import {
+  BillingCycleInfo,
+  FibonacciBillingOptions,
+  LifecycleEvent,
+  LifecycleEventType,
   StripeIntegrationOptions,
   ProductCreationOptions,
   SubscriptionCreationOptions,
   CheckoutSessionOptions,
+  PlanChangeOptions,
+  PlanMigrationOptions,
+  PlanMigrationResult,
+  PlanReference,
+  PlanVersion,
+  PauseResult,
+  PaymentReminderResult,
+  ProrationResult,
+  RefundBreakdown,
+  ReminderOffsets,
+  SubscriptionPauseOptions,
+  SubscriptionStore,
+  TermChangeOptions,
+  UsageRecord,
   WebhookResult
 } from '../../types';
 
@@ -18,7 +46,14 @@ import {
 class FibonacciStripeIntegration {
   private stripeSecretKey: string;
   private webhookSecret?: string;
+  private billingOptions: FibonacciBillingOptions;
   private billingEngine: FibonacciBilling;
+  private planCatalog: PlanCatalog;
+  private planId?: string;
+  private timeZone: string;
+  private refundOnCancel: boolean;
+  private store?: SubscriptionStore;
+  private reminderOffsets?: ReminderOffsets;
   private stripe: Stripe;
 
   /**
@@ -28,8 +63,16 @@ class FibonacciStripeIntegration {
   constructor(options: StripeIntegrationOptions) {
     this.stripeSecretKey = options.stripeSecretKey;
     this.webhookSecret = options.webhookSecret;
+    assertValidBillingOptions(options.billingOptions, 'billingOptions');
+    this.billingOptions = options.billingOptions;
     this.billingEngine = new FibonacciBilling(options.billingOptions);
-    
+    this.planCatalog = new PlanCatalog(options.plans);
+    this.planId = options.planId;
+    this.timeZone = options.timeZone || 'UTC';
+    this.refundOnCancel = options.refundOnCancel || false;
+    this.store = options.store;
+    this.reminderOffsets = options.reminderOffsets;
+
     // Initialize Stripe SDK
     this.stripe = new Stripe(this.stripeSecretKey, {
       apiVersion: '2023-10-16' as Stripe.LatestApiVersion, // Use latest API version
@@ -42,13 +85,16 @@ class FibonacciStripeIntegration {
    * @returns Promise resolving to the created product
    */
   async createProduct(options: ProductCreationOptions): Promise<Stripe.Product> {
-    const basePrice = options.basePrice || this.billingEngine.calculateNextBilling(0).baseAmount;
-    
-    // Create product in Stripe
+    const plan = this.getPlan(options.planId, options.planVersion);
+    const engine = this.getPlanEngine(plan);
+    const basePrice = options.basePrice || engine.calculateNextBilling(0).baseAmount;
+
+    // Create product in Stripe, recording the plan version it sells
     const product = await this.stripe.products.create({
       name: options.name,
       description: options.description,
       metadata: {
+        ...(plan && getPlanMetadata(plan)),
         basePrice: basePrice.toString(),
         fibonacciBilling: 'true'
       },
@@ -56,10 +102,11 @@ class FibonacciStripeIntegration {
     });
     
     // Create a price for the product
+    const basePriceMoney = engine.toMoney(basePrice);
     await this.stripe.prices.create({
       product: product.id,
-      unit_amount: Math.round(basePrice * 100), // Convert to cents
-      currency: 'usd',
+      unit_amount: basePriceMoney.amount, // Already in minor units
+      currency: basePriceMoney.currency.toLowerCase(),
       recurring: {
         interval: 'month',
         interval_count: 1
@@ -72,78 +119,57 @@ class FibonacciStripeIntegration {
     return product;
   }
 
+  /**
+   * Rehydrates the billing engine for a product from the plan version
+   * recorded in its metadata
+   * @param productId - Stripe product ID
+   * @returns Promise resolving to the product's billing engine
+   */
+  async getProductEngine(productId: string): Promise<FibonacciBilling> {
+    return this.getPlanEngine(await this.getProductPlan(productId));
+  }
+
   /**
    * Creates a subscription for a customer
    * @param options - Subscription creation options
    * @returns Promise resolving to the created subscription
    */
   async createSubscription(options: SubscriptionCreationOptions): Promise<Stripe.Subscription> {
+    const plan = await this.getProductPlan(options.productId, options.planId, options.planVersion);
+    const engine = this.getPlanEngine(plan);
+    const quantity = options.quantity || engine.getQuantity();
+
     // Get next billing cycle information
-    const nextBilling = this.billingEngine.calculateNextBilling(0);
-    
-    // Get product to get default price
-    const product = await this.stripe.products.retrieve(options.productId);
-    
-    // Get the price ID
-    const prices = await this.stripe.prices.list({
-      product: options.productId,
-      limit: 1,
-      active: true
-    });
-    
-    if (!prices.data.length) {
-      throw new Error('No prices found for this product');
-    }
-    
-    // Create a new price for the Fibonacci term if needed
-    let priceId = prices.data[0].id;
-    
-    // If this is not the first cycle, create a custom price for the term
-    if (nextBilling.cycle > 1) {
-      const newPrice = await this.stripe.prices.create({
-        product: options.productId,
-        unit_amount: Math.round(nextBilling.finalAmount * 100), // Convert to cents
-        currency: 'usd',
-        recurring: {
-          interval: 'month',
-          interval_count: nextBilling.termMonths
-        },
-        metadata: {
-          fibonacciBillingCycle: nextBilling.cycle.toString(),
-          termMonths: nextBilling.termMonths.toString(),
-          discount: nextBilling.discount.toString(),
-          effectiveMonthlyRate: nextBilling.effectiveMonthlyRate.toString()
-        }
-      });
-      
-      priceId = newPrice.id;
-    }
-    
+    const nextBilling = engine.withQuantity(quantity).calculateNextBilling(0);
+
+    const priceId = await this.getFirstTermPriceId(options.productId, nextBilling);
+    const usagePrices = await this.createUsagePrices(options.productId, nextBilling, engine);
+    const discounts = await this.getStripeDiscounts(nextBilling);
+    const trialDays = engine.getTrialDays();
+
     // Create subscription
     const subscription = await this.stripe.subscriptions.create({
       customer: options.customerId,
       items: [
         {
-          price: priceId
-        }
+          price: priceId,
+          quantity,
+        },
+        ...usagePrices.map((price) => ({ price: price.id })),
       ],
+      ...(discounts && { discounts }),
+      ...(trialDays > 0 && { trial_period_days: trialDays }),
       payment_settings: {
         payment_method_types: ['card'],
         save_default_payment_method: 'on_subscription'
       },
       payment_behavior: 'default_incomplete',
       expand: ['latest_invoice.payment_intent'],
-      metadata: {
-        fibonacciBillingCycle: nextBilling.cycle.toString(),
-        termMonths: nextBilling.termMonths.toString(),
-        baseAmount: nextBilling.baseAmount.toString(),
-        discount: nextBilling.discount.toString(),
-        finalAmount: nextBilling.finalAmount.toString(),
-        savingsAmount: nextBilling.savingsAmount.toString(),
-        effectiveMonthlyRate: nextBilling.effectiveMonthlyRate.toString()
-      }
+      metadata: this.getSubscriptionMetadata(nextBilling, plan),
     });
-    
+
+    await this.recordBilling(subscription, nextBilling, 'created', plan);
+
     // If payment method is provided, attach it to the subscription
     if (options.paymentMethodId) {
       await this.stripe.paymentMethods.attach(options.paymentMethodId, {
@@ -167,30 +193,34 @@ class FibonacciStripeIntegration {
    * @returns Promise resolving to the created checkout session
    */
   async createCheckoutSession(options: CheckoutSessionOptions): Promise<Stripe.Checkout.Session> {
-    // Get the price ID for the product
-    const prices = await this.stripe.prices.list({
-      product: options.productId,
-      limit: 1,
-      active: true
-    });
-    
-    if (!prices.data.length) {
-      throw new Error('No prices found for this product');
-    }
-    
+    const plan = await this.getProductPlan(options.productId, options.planId, options.planVersion);
+    const engine = this.getPlanEngine(plan);
+    const quantity = options.quantity || engine.getQuantity();
+    const firstBilling = engine.withQuantity(quantity).calculateNextBilling(0);
+    const trialDays = engine.getTrialDays();
+    const priceId = await this.getFirstTermPriceId(options.productId, firstBilling);
+    const usagePrices = await this.createUsagePrices(options.productId, firstBilling, engine);
+    const discounts = await this.getStripeDiscounts(firstBilling);
+
     // Create a checkout session
     const session = await this.stripe.checkout.sessions.create({
       payment_method_types: ['card'],
       line_items: [
         {
-          price: prices.data[0].id,
-          quantity: 1
-        }
+          price: priceId,
+          quantity,
+        },
+        ...usagePrices.map((price) => ({ price: price.id })),
       ],
       mode: 'subscription',
+      ...(discounts && { discounts }),
       success_url: options.successUrl,
       cancel_url: options.cancelUrl,
       customer: options.customerId,
+      subscription_data: {
+        ...(trialDays > 0 && { trial_period_days: trialDays }),
+        metadata: this.getSubscriptionMetadata(firstBilling, plan),
+      },
       metadata: {
         fibonacciBilling: 'true'
       }
@@ -217,30 +247,24 @@ class FibonacciStripeIntegration {
         signature,
         this.webhookSecret
       );
-      
-      // Process based on event type
-      switch (event.type) {
-        case 'customer.subscription.created':
-          return this.handleSubscriptionCreated(event.data.object as Stripe.Subscription);
-          
-        case 'customer.subscription.updated':
-          return this.handleSubscriptionUpdated(event.data.object as Stripe.Subscription);
-          
-        case 'customer.subscription.deleted':
-          return this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
-          
-        case 'invoice.payment_succeeded':
-          return this.handlePaymentSucceeded(event.data.object as Stripe.Invoice);
-          
-        case 'invoice.payment_failed':
-          return this.handlePaymentFailed(event.data.object as Stripe.Invoice);
-          
-        default:
-          return {
-            action: 'ignored',
-            eventType: event.type
-          };
+
+      // Stripe retries deliveries, so skip events that were already handled
+      if (this.store && (await this.store.hasProcessedEvent('stripe', event.id))) {
+        return {
+          action: 'duplicate',
+          eventId: event.id,
+          eventType: event.type,
+        };
       }
+
+      const result = await this.routeEvent(event);
+      const lifecycleEvent = this.toLifecycleEvent(event);
+
+      if (this.store) {
+        await this.store.markEventProcessed('stripe', event.id, new Date());
+      }
+
+      return lifecycleEvent ? { ...result, lifecycleEvent } : result;
     } catch (err) {
       const error = err as Error;
       return {
@@ -250,12 +274,64 @@ class FibonacciStripeIntegration {
     }
   }
 
+  /**
+   * Routes a verified event to its handler
+   * @param event - Stripe event
+   * @returns Webhook result
+   */
+  private async routeEvent(event: Stripe.Event): Promise<WebhookResult> {
+    // Process based on event type
+    switch (event.type) {
+      case 'customer.subscription.created':
+        return this.handleSubscriptionCreated(await this.getEventSubscription(event));
+
+      case 'customer.subscription.updated':
+        return this.handleSubscriptionUpdated(await this.getEventSubscription(event));
+
+      case 'customer.subscription.deleted':
+        return this.handleSubscriptionDeleted(await this.getEventSubscription(event));
+
+      case 'customer.subscription.trial_will_end':
+        return this.handleTrialWillEnd(await this.getEventSubscription(event));
+
+      case 'invoice.payment_succeeded':
+        return this.handlePaymentSucceeded(event.data.object as Stripe.Invoice);
+
+      case 'invoice.payment_failed':
+        return this.handlePaymentFailed(event.data.object as Stripe.Invoice);
+
+      case 'invoice.upcoming':
+        return this.handleInvoiceUpcoming(event.data.object as Stripe.Invoice);
+
+      default:
+        return {
+          action: 'ignored',
+          eventType: event.type,
+        };
+    }
+  }
+
   /**
    * Handle subscription created event
    * @param subscription - Stripe subscription object
    * @returns Webhook result
    */
   private async handleSubscriptionCreated(subscription: Stripe.Subscription): Promise<WebhookResult> {
+    // Subscriptions started from a Checkout session are first seen here
+    if (
+      this.store &&
+      subscription.metadata?.fibonacciBillingCycle &&
+      !(await this.store.getSubscription(subscription.id))
+    ) {
+      const cycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+      const billing = this.getSubscriptionEngine(subscription).calculateNextBilling(
+        cycle - 1,
+        undefined,
+        this.getDiscountCycle(subscription)
+      );
+      await this.recordBilling(subscription, billing, 'created');
+    }
+
     return {
       action: 'subscription_created',
       customerId: subscription.customer as string,
@@ -284,10 +360,52 @@ class FibonacciStripeIntegration {
    * @returns Webhook result
    */
   private async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<WebhookResult> {
-    return {
+    const result: WebhookResult = {
       action: 'subscription_ended',
       customerId: subscription.customer as string,
       subscriptionId: subscription.id,
+      subscription,
+    };
+
+    // Non-Fibonacci subscriptions have no term to refund
+    if (!subscription.metadata?.fibonacciBillingCycle) {
+      return result;
+    }
+
+    try {
+      if (this.refundOnCancel) {
+        const { breakdown, refund } = await this.refundCancelledSubscription(subscription);
+        result.refund = breakdown;
+        result.refundId = refund?.id;
+      } else {
+        result.refund = this.calculateCancellationRefund(subscription);
+      }
+    } catch (err) {
+      const error = err as Error;
+      result.refundError = error.message;
+    }
+
+    return result;
+  }
+
+  /**
+   * Handle trial will end event (sent three days before the trial ends)
+   * @param subscription - Stripe subscription object
+   * @returns Webhook result, with the first term that will be charged
+   */
+  private async handleTrialWillEnd(subscription: Stripe.Subscription): Promise<WebhookResult> {
+    const cycle = subscription.metadata?.fibonacciBillingCycle
+      ? parseInt(subscription.metadata.fibonacciBillingCycle, 10)
+      : undefined;
+
+    return {
+      action: 'trial_will_end',
+      customerId: subscription.customer as string,
+      subscriptionId: subscription.id,
+      trialEnd: subscription.trial_end ? new Date(subscription.trial_end * 1000) : undefined,
+      nextBilling: cycle
+        ? this.getSubscriptionEngine(subscription).calculateNextBilling(cycle - 1)
+        : undefined,
       subscription
     };
   }
@@ -308,8 +426,8 @@ class FibonacciStripeIntegration {
     }
     
     // Get the subscription
-    const subscription = await this.stripe.subscriptions.retrieve(invoice.subscription as string);
-    
+    const subscription = await this.retrieveSubscription(invoice.subscription as string);
+
     // Check if this is a Fibonacci billing subscription
     if (!subscription.metadata?.fibonacciBillingCycle) {
       return {
@@ -360,17 +478,241 @@ class FibonacciStripeIntegration {
       invoice
     };
   }
+  /**
+   * Handle upcoming invoice event (sent before a subscription renews)
+   * @param invoice - Stripe invoice preview
+   * @returns Webhook result
+   */
+  private async handleInvoiceUpcoming(invoice: Stripe.Invoice): Promise<WebhookResult> {
+    return {
+      action: 'renewal_upcoming',
+      customerId: invoice.customer as string,
+      subscriptionId: invoice.subscription as string,
+      nextPaymentAttempt: invoice.next_payment_attempt
+        ? new Date(invoice.next_payment_attempt * 1000)
+        : undefined,
+      invoice,
+    };
+  }
+
+  /**
+   * Normalizes a Stripe event for the subscription lifecycle
+   * @param event - Stripe event
+   * @returns Lifecycle event, or undefined if the event does not affect a subscription's lifecycle
+   */
+  private toLifecycleEvent(event: Stripe.Event): LifecycleEvent | undefined {
+    let type: LifecycleEventType | undefined;
+    let subscriptionId: string | undefined;
+    let customerId: string;
+    let metadata: Stripe.Metadata | undefined;
+
+    switch (event.type) {
+      case 'customer.subscription.created':
+      case 'customer.subscription.updated':
+      case 'customer.subscription.deleted':
+      case 'customer.subscription.trial_will_end': {
+        const subscription = event.data.object;
+
+        if (event.type === 'customer.subscription.deleted') {
+          // Stripe ends subscriptions itself once retries for an unpaid invoice run out
+          type =
+            subscription.cancellation_details?.reason === 'payment_failed' ? 'expired' : 'canceled';
+        } else if (event.type === 'customer.subscription.trial_will_end') {
+          type = 'renewal-due';
+        } else {
+          type = this.getLifecycleEventType(subscription);
+        }
+
+        subscriptionId = subscription.id;
+        customerId = subscription.customer as string;
+        metadata = subscription.metadata;
+        break;
+      }
+
+      case 'invoice.payment_succeeded':
+      case 'invoice.payment_failed':
+      case 'invoice.upcoming': {
+        const invoice = event.data.object;
+
+        if (event.type === 'invoice.payment_succeeded') {
+          // Starting a trial "pays" a $0 invoice; the subscription events already
+          // report the trial (or activation, if the first term was free), so this
+          // must not move a trialing subscription to active
+          type =
+            invoice.billing_reason === 'subscription_create' && invoice.amount_paid === 0
+              ? undefined
+              : 'payment-succeeded';
+        } else if (event.type === 'invoice.payment_failed') {
+          type = 'payment-failed';
+        } else {
+          type = 'renewal-due';
+        }
+
+        subscriptionId = (invoice.subscription as string) || undefined;
+        customerId = invoice.customer as string;
+        metadata = invoice.subscription_details?.metadata || undefined;
+        break;
+      }
+
+      default:
+        return undefined;
+    }
+
+    // One-off invoices and incomplete subscriptions do not move the lifecycle
+    if (!type || !subscriptionId) {
+      return undefined;
+    }
+
+    return {
+      type,
+      occurredAt: new Date(event.created * 1000),
+      subscriptionId,
+      customerId,
+      cycle: metadata?.fibonacciBillingCycle
+        ? parseInt(metadata.fibonacciBillingCycle, 10)
+        : undefined,
+      provider: 'stripe',
+      providerEventType: event.type,
+    };
+  }
+
+  /**
+   * Maps the status of a created or updated subscription to a lifecycle event
+   * @param subscription - Stripe subscription object
+   * @returns Lifecycle event type, or undefined while the first payment is incomplete
+   */
+  private getLifecycleEventType(subscription: Stripe.Subscription): LifecycleEventType | undefined {
+    if (subscription.pause_collection) {
+      return 'paused';
+    }
+
+    switch (subscription.status) {
+      case 'trialing':
+        return 'trial-started';
+      case 'active':
+        return 'activated';
+      case 'past_due':
+        return 'payment-failed';
+      case 'paused':
+        return 'paused';
+      case 'canceled':
+        return 'canceled';
+      case 'unpaid':
+      case 'incomplete_expired':
+        return 'expired';
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Refunds a cancelled subscription according to the plan's refund policy.
+   * The refund is made against the payment for the latest invoice, and is
+   * idempotent per subscription.
+   * @param subscriptionOrId - Stripe subscription or subscription ID
+   * @returns Promise resolving to the refund breakdown and the Stripe refund, if any was issued
+   */
+  async refundCancelledSubscription(
+    subscriptionOrId: Stripe.Subscription | string
+  ): Promise<{ breakdown: RefundBreakdown; refund?: Stripe.Refund }> {
+    const subscription =
+      typeof subscriptionOrId === 'string'
+        ? await this.retrieveSubscription(subscriptionOrId)
+        : subscriptionOrId;
+
+    // Check if this is a Fibonacci billing subscription
+    if (!subscription.metadata?.fibonacciBillingCycle) {
+      throw new Error('Not a Fibonacci billing subscription');
+    }
+
+    const breakdown = this.calculateCancellationRefund(subscription);
+
+    if (breakdown.refundAmount.amount <= 0) {
+      return { breakdown };
+    }
+
+    if (!subscription.latest_invoice) {
+      throw new Error('No invoice found to refund for this subscription');
+    }
+
+    const invoiceId =
+      typeof subscription.latest_invoice === 'string'
+        ? subscription.latest_invoice
+        : subscription.latest_invoice.id;
+    const invoice = await this.stripe.invoices.retrieve(invoiceId);
+
+    if (!invoice.payment_intent) {
+      throw new Error('No payment found to refund for this subscription');
+    }
+
+    const refund = await this.stripe.refunds.create(
+      {
+        payment_intent:
+          typeof invoice.payment_intent === 'string'
+            ? invoice.payment_intent
+            : invoice.payment_intent.id,
+        amount: breakdown.refundAmount.amount,
+        metadata: {
+          fibonacciBillingCycle: subscription.metadata.fibonacciBillingCycle,
+          refundPolicy: breakdown.policy,
+        },
+      },
+      {
+        idempotencyKey: `fibonacci-refund-${subscription.id}`,
+      }
+    );
+
+    return { breakdown, refund };
+  }
+
+  /**
+   * Calculates the refund owed for a cancelled subscription
+   * @param subscription - Stripe subscription with Fibonacci metadata
+   * @returns Itemized refund
+   */
+  private calculateCancellationRefund(subscription: Stripe.Subscription): RefundBreakdown {
+    const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+
+    return this.getSubscriptionEngine(subscription).calculateRefund({
+      cycle: currentCycle - 1,
+      discountCycle: this.getDiscountCycle(subscription),
+      renewed: this.hasRenewed(subscription),
+      periodStart: new Date(subscription.current_period_start * 1000),
+      periodEnd: new Date(subscription.current_period_end * 1000),
+      cancelDate: this.getServiceEndDate(subscription),
+    });
+  }
+
+  /**
+   * Gets when a cancelled subscription's service ends. For a cancellation at
+   * period end, `canceled_at` is when the customer asked to cancel, not when
+   * they lost access, so the end of service is read from `ended_at` or
+   * `cancel_at` first.
+   * @param subscription - Stripe subscription
+   * @returns End of service, or undefined if it is not known yet
+   */
+  private getServiceEndDate(subscription: Stripe.Subscription): Date | undefined {
+    const endedAt =
+      subscription.ended_at ||
+      (subscription.status !== 'canceled' ? subscription.cancel_at : null) ||
+      subscription.canceled_at;
+
+    return endedAt ? new Date(endedAt * 1000) : undefined;
+  }
 
   /**
    * Schedules the next payment reminder
    * @param subscriptionId - Stripe subscription ID
-   * @param daysBeforeRenewal - Days before renewal to send reminder
-   * @returns Promise resolving when reminder is scheduled
+   * @param daysBeforeRenewal - Days before renewal to send reminder (defaults to reminderOffsets)
+   * @returns Promise resolving to the scheduled reminder
    */
-  async schedulePaymentReminder(subscriptionId: string, daysBeforeRenewal = 7): Promise<any> {
+  async schedulePaymentReminder(
+    subscriptionId: string,
+    daysBeforeRenewal?: number
+  ): Promise<PaymentReminderResult> {
     // Get the subscription
-    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
-    
+    const subscription = await this.retrieveSubscription(subscriptionId);
+
     // Check if this is a Fibonacci billing subscription
     if (!subscription.metadata?.fibonacciBillingCycle) {
       throw new Error('Not a Fibonacci billing subscription');
@@ -378,88 +720,917 @@ class FibonacciStripeIntegration {
     
     const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
     const currentTermEnd = subscription.current_period_end * 1000; // Convert to milliseconds
-    const reminderDate = new Date(currentTermEnd - (daysBeforeRenewal * 24 * 60 * 60 * 1000));
-    
-    // Calculate next billing cycle
-    const nextBilling = this.billingEngine.calculateNextBilling(currentCycle);
-    
-    // In a real implementation, you would use a scheduling service or database
-    // to store the reminder and trigger it at the appropriate time
-    
-    return {
+
+    // Price the next term as updateSubscriptionToNextTerm will, keeping any held discount
+    const nextBilling = this.getSubscriptionEngine(subscription).calculateTermChange({
+      cycle: currentCycle - 1,
+      discountCycle: this.getDiscountCycle(subscription),
+    });
+    const reminder = createReminder(
+      {
+        subscriptionId,
+        customerId: subscription.customer as string,
+        renewalDate: new Date(currentTermEnd),
+        nextBilling,
+        daysBefore: daysBeforeRenewal,
+      },
+      this.reminderOffsets,
+      this.timeZone
+    );
+
+    const result: PaymentReminderResult = {
       scheduled: true,
       subscriptionId,
       customerId: subscription.customer as string,
-      reminderDate,
+      reminderDate: reminder.remindAt,
       currentCycle,
       nextCycle: nextBilling.cycle,
       nextTermMonths: nextBilling.termMonths,
-      nextAmount: nextBilling.finalAmount
+      nextAmount: nextBilling.finalAmount,
+      nextAmountMinor: nextBilling.amounts.final.amount,
+      currency: nextBilling.currency,
     };
+
+    // Reminders are delivered from the store, so without one nothing would ever be sent
+    if (!this.store) {
+      return { ...result, scheduled: false, reason: NO_STORE_REMINDER_REASON };
+    }
+
+    await saveReminder(this.store, reminder);
+    return result;
   }
 
   /**
-   * Updates a subscription to the next Fibonacci term
+   * Updates a subscription to the next Fibonacci term, or holds it at (or
+   * steps it back from) the current term when the customer asks
    * @param subscriptionId - Stripe subscription ID
+   * @param options - How the next term moves through the sequence and whether it keeps the earned discount
    * @returns Promise resolving to the updated subscription
    */
-  async updateSubscriptionToNextTerm(subscriptionId: string): Promise<Stripe.Subscription> {
+  async updateSubscriptionToNextTerm(
+    subscriptionId: string,
+    options: TermChangeOptions = {}
+  ): Promise<Stripe.Subscription> {
     // Get the subscription
-    const subscription = await this.stripe.subscriptions.retrieve(subscriptionId);
-    
+    const subscription = await this.retrieveSubscription(subscriptionId);
+
     // Check if this is a Fibonacci billing subscription
     if (!subscription.metadata?.fibonacciBillingCycle) {
       throw new Error('Not a Fibonacci billing subscription');
     }
     
     const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
-    
-    // Calculate next billing cycle
-    const nextBilling = this.billingEngine.calculateNextBilling(currentCycle);
-    
+
+    // Calculate next billing cycle on the plan version the subscription was sold under
+    const engine = this.getSubscriptionEngine(subscription);
+    const nextBilling = engine.calculateTermChange({
+      ...options,
+      cycle: currentCycle - 1,
+      discountCycle: this.getDiscountCycle(subscription),
+    });
+
     // Get the product ID
-    const currentItem = subscription.items.data[0];
+    const currentItem = this.getTermItem(subscription);
     const productId = currentItem.price.product as string;
     
     // Create a new price for the next term
-    const newPrice = await this.stripe.prices.create({
+    const newPrice = await this.createTermPrice(productId, nextBilling);
+
+    // Metered items must share the term's interval, so they move to new prices too
+    const usagePrices = await this.createUsagePrices(productId, nextBilling, engine);
+    const usageItems = usagePrices.map((price) => {
+      const existing = subscription.items.data.find(
+        (item) =>
+          item.price.metadata?.fibonacciUsageComponent === price.metadata.fibonacciUsageComponent
+      );
+      return existing ? { id: existing.id, price: price.id } : { price: price.id };
+    });
+
+    const discounts = await this.getStripeDiscounts(nextBilling);
+
+    // Update the subscription with the new price
+    const updatedSubscription = await this.stripe.subscriptions.update(subscriptionId, {
+      items: [
+        {
+          id: currentItem.id,
+          price: newPrice.id,
+          quantity: nextBilling.quantity,
+        },
+        ...usageItems,
+      ],
+      ...(discounts && { discounts }),
+      proration_behavior: 'none',
+      // Stripe merges metadata, so the renewal mark outlives later updates
+      metadata: { ...this.getSubscriptionMetadata(nextBilling), fibonacciRenewed: 'true' },
+    });
+
+    await this.recordBilling(updatedSubscription, nextBilling, options.progression || 'advance');
+
+    return updatedSubscription;
+  }
+
+  /**
+   * Gets the price for the first term: the product's monthly price when it
+   * already matches, or a new term price (e.g. for intro prices or seat tiers)
+   * @param productId - Stripe product ID
+   * @param billing - First term
+   * @returns Promise resolving to the price ID
+   */
+  private async getFirstTermPriceId(productId: string, billing: BillingCycleInfo): Promise<string> {
+    const prices = await this.stripe.prices.list({
       product: productId,
-      unit_amount: Math.round(nextBilling.finalAmount * 100), // Convert to cents
-      currency: 'usd',
+      limit: 1,
+      active: true,
+    });
+
+    if (!prices.data.length) {
+      throw new Error('No prices found for this product');
+    }
+
+    const defaultPrice = prices.data[0];
+    const matchesDefault =
+      billing.termMonths === 1 &&
+      defaultPrice.unit_amount !== null &&
+      defaultPrice.unit_amount * billing.quantity === billing.amounts.subtotal.amount;
+
+    if (matchesDefault) {
+      return defaultPrice.id;
+    }
+
+    const termPrice = await this.createTermPrice(productId, billing);
+    return termPrice.id;
+  }
+
+  /**
+   * Creates a per-seat price for a Fibonacci term. Coupons are left to
+   * discounts, and the unit amount is a decimal so that the seats add up to
+   * exactly the term subtotal.
+   * @param productId - Stripe product ID
+   * @param billing - Term being priced
+   * @returns Promise resolving to the created price
+   */
+  private async createTermPrice(
+    productId: string,
+    billing: BillingCycleInfo
+  ): Promise<Stripe.Price> {
+    return this.stripe.prices.create({
+      product: productId,
+      unit_amount_decimal: toUnitAmountDecimal(billing.amounts.subtotal.amount, billing.quantity),
+      currency: billing.currency.toLowerCase(),
       recurring: {
         interval: 'month',
-        interval_count: nextBilling.termMonths
+        interval_count: billing.termMonths,
       },
       metadata: {
-        fibonacciBillingCycle: nextBilling.cycle.toString(),
-        termMonths: nextBilling.termMonths.toString(),
-        discount: nextBilling.discount.toString(),
-        effectiveMonthlyRate: nextBilling.effectiveMonthlyRate.toString()
+        fibonacciBillingCycle: billing.cycle.toString(),
+        termMonths: billing.termMonths.toString(),
+        discount: billing.discount.toString(),
+        effectiveMonthlyRate: billing.effectiveMonthlyRate.toString(),
+        quantity: billing.quantity.toString(),
+        ...(billing.introductory && { introductory: 'true' }),
+      },
+    });
+  }
+
+  /**
+   * Creates metered prices for the plan's usage components. Stripe requires
+   * every item on a subscription to share one interval, so usage is billed in
+   * arrears at the end of each term, with monthly included units scaled to the term.
+   * @param productId - Stripe product ID
+   * @param billing - Term the usage is billed with
+   * @param engine - Billing engine of the plan version the subscription is on
+   * @returns Promise resolving to one metered price per usage component
+   */
+  private async createUsagePrices(
+    productId: string,
+    billing: BillingCycleInfo,
+    engine: FibonacciBilling
+  ): Promise<Stripe.Price[]> {
+    const prices: Stripe.Price[] = [];
+
+    const currency = billing.currency.toLowerCase();
+    const exponent = getCurrencyExponent(billing.currency);
+
+    for (const component of engine.getUsageComponents()) {
+      const unitAmountDecimal = toUnitAmountDecimal(
+        component.unitPrice * Math.pow(10, exponent),
+        1
+      );
+      const included =
+        (component.includedUnits || 0) * (component.billing === 'arrears' ? 1 : billing.termMonths);
+
+      const price = await this.stripe.prices.create({
+        product: productId,
+        currency,
+        nickname: component.name || component.id,
+        recurring: {
+          interval: 'month',
+          interval_count: billing.termMonths,
+          usage_type: 'metered',
+          aggregate_usage: 'sum',
+        },
+        ...(included > 0
+          ? {
+              billing_scheme: 'tiered' as const,
+              tiers_mode: 'graduated' as const,
+              tiers: [
+                { up_to: included, unit_amount: 0 },
+                { up_to: 'inf' as const, unit_amount_decimal: unitAmountDecimal },
+              ],
+            }
+          : { unit_amount_decimal: unitAmountDecimal }),
+        metadata: {
+          fibonacciUsageComponent: component.id,
+          fibonacciBillingCycle: billing.cycle.toString(),
+        },
+      });
+
+      prices.push(price);
+    }
+
+    return prices;
+  }
+
+  /**
+   * Gets the subscription item for the Fibonacci term, as opposed to metered usage items
+   * @param subscription - Stripe subscription
+   * @returns Term subscription item
+   */
+  private getTermItem(subscription: Stripe.Subscription): Stripe.SubscriptionItem {
+    return (
+      subscription.items.data.find((item) => !item.price.metadata?.fibonacciUsageComponent) ||
+      subscription.items.data[0]
+    );
+  }
+
+  /**
+   * Builds the Fibonacci metadata stored on a subscription
+   * @param billing - Term the subscription is on
+   * @param plan - Plan version the subscription is on, if it was sold from the catalog
+   * @returns Subscription metadata
+   */
+  private getSubscriptionMetadata(
+    billing: BillingCycleInfo,
+    plan?: PlanVersion
+  ): Stripe.MetadataParam {
+    return {
+      ...(plan && getPlanMetadata(plan)),
+      fibonacciBillingCycle: billing.cycle.toString(),
+      termMonths: billing.termMonths.toString(),
+      baseAmount: billing.baseAmount.toString(),
+      discount: billing.discount.toString(),
+      finalAmount: billing.finalAmount.toString(),
+      savingsAmount: billing.savingsAmount.toString(),
+      effectiveMonthlyRate: billing.effectiveMonthlyRate.toString(),
+      finalAmountMinor: billing.amounts.final.amount.toString(),
+      currency: billing.currency,
+      quantity: billing.quantity.toString(),
+      // Stripe merges metadata, so an empty value clears a discount that is no longer kept
+      fibonacciDiscountCycle: billing.discountCycle ? billing.discountCycle.toString() : '',
+    };
+  }
+
+  /**
+   * Reads the cycle whose discount a subscription kept after a hold or step-down
+   * @param subscription - Stripe subscription with Fibonacci metadata
+   * @returns Cycle whose discount applies (0-indexed), or undefined if none was kept
+   */
+  private getDiscountCycle(subscription: Stripe.Subscription): number | undefined {
+    const discountCycle = subscription.metadata?.fibonacciDiscountCycle;
+    return discountCycle ? parseInt(discountCycle, 10) - 1 : undefined;
+  }
+
+  /**
+   * Checks whether a subscription has renewed since it was created, so its term is not introductory
+   * @param subscription - Stripe subscription with Fibonacci metadata
+   * @returns True once the subscription has moved to a new term
+   */
+  private hasRenewed(subscription: Stripe.Subscription): boolean {
+    return subscription.metadata?.fibonacciRenewed === 'true';
+  }
+
+  /**
+   * Retrieves a subscription with its Fibonacci state read from the store
+   * @param subscriptionId - Stripe subscription ID
+   * @returns Promise resolving to the subscription
+   */
+  private async retrieveSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    return this.withStoredState(await this.stripe.subscriptions.retrieve(subscriptionId));
+  }
+
+  /**
+   * Gets the subscription an event is about, with its Fibonacci state read from the store
+   * @param event - Stripe subscription event
+   * @returns Promise resolving to the subscription
+   */
+  private async getEventSubscription(event: Stripe.Event): Promise<Stripe.Subscription> {
+    return this.withStoredState(event.data.object as Stripe.Subscription);
+  }
+
+  /**
+   * Overlays the stored Fibonacci state on a subscription's metadata, so the
+   * store wins over metadata for subscriptions it has a record of
+   * @param subscription - Stripe subscription object
+   * @returns Promise resolving to the subscription with the stored state
+   */
+  private async withStoredState(subscription: Stripe.Subscription): Promise<Stripe.Subscription> {
+    const record = this.store && (await this.store.getSubscription(subscription.id));
+
+    return record
+      ? { ...subscription, metadata: applySubscriptionRecord(subscription.metadata, record) }
+      : subscription;
+  }
+
+  /**
+   * Saves a newly priced term to the store, if there is one
+   * @param subscription - Stripe subscription object
+   * @param billing - Term billing
+   * @param reason - Why the term was priced
+   * @param plan - Plan version the term was priced on (defaults to the one in metadata)
+   * @returns Promise resolving when the term has been saved
+   */
+  private async recordBilling(
+    subscription: Stripe.Subscription,
+    billing: BillingCycleInfo,
+    reason: string,
+    plan?: PlanReference
+  ): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    const recordedAt = new Date();
+    const reference = plan || getPlanReference(subscription.metadata);
+
+    await this.store.saveSubscription({
+      subscriptionId: subscription.id,
+      provider: 'stripe',
+      customerId: subscription.customer as string,
+      cycle: billing.cycle,
+      discountCycle: billing.discountCycle,
+      plan: reference && { planId: reference.planId, version: reference.version },
+      billing,
+      updatedAt: recordedAt,
+    });
+    await this.store.addCycle({ subscriptionId: subscription.id, billing, reason, recordedAt });
+  }
+
+  /**
+   * Gets a billing engine for the plan version and number of seats on a subscription
+   * @param subscription - Stripe subscription
+   * @returns Billing engine for the subscription's plan version and quantity
+   */
+  private getSubscriptionEngine(subscription: Stripe.Subscription): FibonacciBilling {
+    const engine = this.getPlanEngine(this.getSubscriptionPlan(subscription));
+    const quantity = subscription.items?.data.length
+      ? this.getTermItem(subscription).quantity
+      : undefined;
+    return quantity ? engine.withQuantity(quantity) : engine;
+  }
+
+  /**
+   * Gets the catalog plan version to sell
+   * @param planId - Plan identifier (defaults to the integration's planId)
+   * @param version - Version number (defaults to the latest version)
+   * @returns The plan version, or undefined when selling without a catalog plan
+   */
+  private getPlan(planId = this.planId, version?: number): PlanVersion | undefined {
+    return planId ? this.planCatalog.getVersion(planId, version) : undefined;
+  }
+
+  /**
+   * Gets the catalog plan version to sell for a product: the requested plan,
+   * otherwise the plan recorded on the product
+   * @param productId - Stripe product ID
+   * @param planId - Requested plan identifier
+   * @param version - Requested version number (defaults to the latest version)
+   * @returns Promise resolving to the plan version, or undefined when selling without a catalog plan
+   */
+  private async getProductPlan(
+    productId: string,
+    planId?: string,
+    version?: number
+  ): Promise<PlanVersion | undefined> {
+    if (planId) {
+      return this.getPlan(planId, version);
+    }
+
+    const product = await this.stripe.products.retrieve(productId);
+    const reference = getPlanReference(product.metadata);
+    return reference
+      ? this.planCatalog.getVersion(reference.planId, reference.version)
+      : this.getPlan();
+  }
+
+  /**
+   * Gets the catalog plan version recorded on a subscription
+   * @param subscription - Stripe subscription
+   * @returns The plan version, or undefined for subscriptions sold without a catalog plan
+   */
+  private getSubscriptionPlan(subscription: Stripe.Subscription): PlanVersion | undefined {
+    const reference = getPlanReference(subscription.metadata);
+    return reference ? this.planCatalog.getVersion(reference.planId, reference.version) : undefined;
+  }
+
+  /**
+   * Gets a billing engine for a plan version
+   * @param plan - Plan version, or undefined for the integration's billing options
+   * @returns Billing engine
+   */
+  private getPlanEngine(plan?: PlanVersion): FibonacciBilling {
+    return plan ? new FibonacciBilling(plan.billingOptions) : this.billingEngine;
+  }
+
+  /**
+   * Maps the coupons applied to a term onto Stripe coupons. Each coupon line
+   * becomes a one-off amount-off coupon for exactly the amount the billing
+   * engine took off, so Stripe invoices the same total; coupons are reused
+   * across subscriptions by ID.
+   * @param billing - Term being invoiced
+   * @returns Promise resolving to subscription discounts, or undefined if the plan has no coupons
+   */
+  private async getStripeDiscounts(
+    billing: BillingCycleInfo
+  ): Promise<Array<{ coupon: string }> | undefined> {
+    if (!billing.coupons) {
+      return undefined;
+    }
+
+    const discounts: Array<{ coupon: string }> = [];
+
+    for (const item of billing.coupons) {
+      if (item.amount.amount <= 0) {
+        continue;
+      }
+
+      const currency = item.amount.currency.toLowerCase();
+      const couponId = `fib-${item.couponId}-${item.amount.amount}${currency}`;
+
+      try {
+        await this.stripe.coupons.retrieve(couponId);
+      } catch (err) {
+        if ((err as Stripe.errors.StripeError).code !== 'resource_missing') {
+          throw err;
+        }
+
+        await this.stripe.coupons.create({
+          id: couponId,
+          name: item.description,
+          amount_off: item.amount.amount,
+          currency,
+          duration: 'once',
+          metadata: {
+            fibonacciCouponId: item.couponId,
+            replacedTermDiscount: item.replacedTermDiscount.toString(),
+          },
+        });
       }
+
+      discounts.push({ coupon: couponId });
+    }
+
+    return discounts;
+  }
+
+  /**
+   * Reports usage of a metered component on a subscription
+   * @param subscriptionId - Stripe subscription ID
+   * @param record - Usage record
+   * @returns Promise resolving to the Stripe usage record
+   */
+  async reportUsage(subscriptionId: string, record: UsageRecord): Promise<Stripe.UsageRecord> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+    const item = subscription.items.data.find(
+      (subscriptionItem) =>
+        subscriptionItem.price.metadata?.fibonacciUsageComponent === record.componentId
+    );
+
+    if (!item) {
+      throw new Error(`Subscription ${subscriptionId} has no usage item for ${record.componentId}`);
+    }
+
+    return this.stripe.subscriptionItems.createUsageRecord(item.id, {
+      quantity: record.quantity,
+      timestamp: Math.floor(record.timestamp.getTime() / 1000),
+      action: 'increment',
     });
-    
-    // Update the subscription with the new price
+  }
+
+  /**
+   * Changes the plan of a subscription part way through its current term.
+   * The unused part of the current term is credited at its discounted rate and
+   * the new plan is charged for the rest of the period; the net amount is
+   * invoiced immediately or added to the customer's credit balance.
+   * @param subscriptionId - Stripe subscription ID
+   * @param options - New plan options
+   * @returns Promise resolving to the updated subscription and the proration applied
+   */
+  async changeSubscriptionPlan(
+    subscriptionId: string,
+    options: PlanChangeOptions
+  ): Promise<{ subscription: Stripe.Subscription; proration: ProrationResult }> {
+    // Get the subscription
+    const subscription = await this.retrieveSubscription(subscriptionId);
+
+    // Check if this is a Fibonacci billing subscription
+    if (!subscription.metadata?.fibonacciBillingCycle) {
+      throw new Error('Not a Fibonacci billing subscription');
+    }
+
+    const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+    const currentEngine = this.getSubscriptionEngine(subscription);
+    const currentPlan = this.getSubscriptionPlan(subscription);
+    const newPlan =
+      options.planId || options.planVersion !== undefined
+        ? this.getPlan(options.planId || currentPlan?.planId, options.planVersion)
+        : currentPlan;
+    const newEngine = new FibonacciBilling({
+      ...(newPlan ? newPlan.billingOptions : this.billingOptions),
+      quantity: currentEngine.getQuantity(),
+      ...options.billingOptions,
+    });
+
+    // Price the running term on both plans (metadata cycles are 1-indexed)
+    // A discount kept after a hold or step-down does not carry over to the new plan
+    const currentBilling = currentEngine.calculateNextBilling(
+      currentCycle - 1,
+      undefined,
+      this.getDiscountCycle(subscription)
+    );
+    const newBilling = newEngine.calculateNextBilling(currentCycle - 1);
+
+    const proration = calculateProration({
+      currentBilling,
+      newBilling,
+      periodStart: new Date(subscription.current_period_start * 1000),
+      periodEnd: new Date(subscription.current_period_end * 1000),
+      changeDate: options.changeDate,
+      // Round as the plan version the subscription was sold under does
+      roundingMode: (currentPlan ? currentPlan.billingOptions : this.billingOptions).roundingMode,
+    });
+
+    const currentItem = this.getTermItem(subscription);
+    const productId = options.productId || (currentItem.price.product as string);
+    const customerId = subscription.customer as string;
+
+    // Create a price for the new plan at the current term length
+    const newPrice = await this.createTermPrice(productId, newBilling);
+
+    // Swap the price without Stripe's own proration; ours is applied below
     const updatedSubscription = await this.stripe.subscriptions.update(subscriptionId, {
       items: [
         {
           id: currentItem.id,
-          price: newPrice.id
-        }
+          price: newPrice.id,
+          quantity: newBilling.quantity,
+        },
       ],
       proration_behavior: 'none',
-      metadata: {
-        fibonacciBillingCycle: nextBilling.cycle.toString(),
-        termMonths: nextBilling.termMonths.toString(),
-        baseAmount: nextBilling.baseAmount.toString(),
-        discount: nextBilling.discount.toString(),
-        finalAmount: nextBilling.finalAmount.toString(),
-        savingsAmount: nextBilling.savingsAmount.toString(),
-        effectiveMonthlyRate: nextBilling.effectiveMonthlyRate.toString()
+      billing_cycle_anchor: 'unchanged',
+      metadata: this.getSubscriptionMetadata(newBilling, newPlan),
+    });
+
+    await this.recordBilling(updatedSubscription, newBilling, 'plan-change', newPlan);
+    await this.applyProration(
+      subscriptionId,
+      customerId,
+      proration,
+      `Fibonacci plan change proration (cycle ${newBilling.cycle})`
+    );
+
+    return {
+      subscription: updatedSubscription,
+      proration,
+    };
+  }
+
+  /**
+   * Changes the number of seats on a subscription part way through its term.
+   * The change is co-termed to the current period end: added seats are charged
+   * at the running term's discounted rate for the time remaining, and removed
+   * seats are credited the same way.
+   * @param subscriptionId - Stripe subscription ID
+   * @param quantity - New number of seats
+   * @param changeDate - When the change takes effect (defaults to now)
+   * @returns Promise resolving to the updated subscription and the proration applied
+   */
+  async updateSubscriptionSeats(
+    subscriptionId: string,
+    quantity: number,
+    changeDate?: Date
+  ): Promise<{ subscription: Stripe.Subscription; proration: ProrationResult }> {
+    // Get the subscription
+    const subscription = await this.retrieveSubscription(subscriptionId);
+
+    // Check if this is a Fibonacci billing subscription
+    if (!subscription.metadata?.fibonacciBillingCycle) {
+      throw new Error('Not a Fibonacci billing subscription');
+    }
+
+    const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+    const currentItem = this.getTermItem(subscription);
+    const fromQuantity = currentItem.quantity || 1;
+    const engine = this.getSubscriptionEngine(subscription);
+
+    const discountCycle = this.getDiscountCycle(subscription);
+    const proration = engine.calculateSeatChange({
+      cycle: currentCycle - 1,
+      discountCycle,
+      fromQuantity,
+      toQuantity: quantity,
+      periodStart: new Date(subscription.current_period_start * 1000),
+      periodEnd: new Date(subscription.current_period_end * 1000),
+      changeDate,
+    });
+
+    // Reprice the running term, since seat tiers can change the per-seat price
+    const newBilling = engine
+      .withQuantity(quantity)
+      .calculateNextBilling(currentCycle - 1, undefined, discountCycle);
+    const newPrice = await this.createTermPrice(currentItem.price.product as string, newBilling);
+
+    const updatedSubscription = await this.stripe.subscriptions.update(subscriptionId, {
+      items: [
+        {
+          id: currentItem.id,
+          price: newPrice.id,
+          quantity,
+        },
+      ],
+      proration_behavior: 'none',
+      billing_cycle_anchor: 'unchanged',
+      metadata: this.getSubscriptionMetadata(newBilling),
+    });
+
+    await this.recordBilling(updatedSubscription, newBilling, 'seat-change');
+    await this.applyProration(
+      subscriptionId,
+      subscription.customer as string,
+      proration,
+      `Fibonacci seat change proration (${fromQuantity} to ${quantity} seats)`
+    );
+
+    return {
+      subscription: updatedSubscription,
+      proration,
+    };
+  }
+
+  /**
+   * Moves a subscription to another version of its catalog plan. By default
+   * the current term keeps its price and the next term is priced on the new
+   * version; an immediate migration reprices the running term with proration.
+   * @param subscriptionId - Stripe subscription ID
+   * @param options - Target version and when the migration takes effect
+   * @returns Promise resolving to the migration result
+   */
+  async migrateSubscription(
+    subscriptionId: string,
+    options: PlanMigrationOptions = {}
+  ): Promise<PlanMigrationResult> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+    const reference = getPlanReference(subscription.metadata);
+
+    if (!reference) {
+      throw new Error('Subscription was not sold under a versioned plan');
+    }
+
+    const plan = this.planCatalog.getVersion(reference.planId, options.toVersion);
+    const result: PlanMigrationResult = {
+      subscriptionId,
+      planId: plan.planId,
+      fromVersion: reference.version,
+      toVersion: plan.version,
+    };
+
+    if (plan.version === reference.version) {
+      return result;
+    }
+
+    if (options.effective === 'immediately') {
+      const { proration } = await this.changeSubscriptionPlan(subscriptionId, {
+        planVersion: plan.version,
+        changeDate: options.changeDate,
+      });
+      return { ...result, proration };
+    }
+
+    // Metadata updates are merged, so only the plan version changes
+    await this.stripe.subscriptions.update(subscriptionId, {
+      metadata: getPlanMetadata(plan),
+    });
+
+    if (this.store) {
+      const record = await this.store.getSubscription(subscriptionId);
+      if (record) {
+        await this.store.saveSubscription({
+          ...record,
+          plan: { planId: plan.planId, version: plan.version },
+          updatedAt: new Date(),
+        });
       }
+    }
+
+    return result;
+  }
+
+  /**
+   * Moves every live subscription on one version of a plan to another version
+   * @param planId - Plan identifier
+   * @param fromVersion - Version to migrate from
+   * @param options - Target version and when the migration takes effect
+   * @returns Promise resolving to the result for each migrated subscription
+   */
+  async migrateSubscriptions(
+    planId: string,
+    fromVersion: number,
+    options: PlanMigrationOptions = {}
+  ): Promise<PlanMigrationResult[]> {
+    // Resolve the target up front so an unknown version fails before any update
+    const toVersion = this.planCatalog.getVersion(planId, options.toVersion).version;
+    const results: PlanMigrationResult[] = [];
+
+    const subscriptions = this.stripe.subscriptions.search({
+      query: `metadata['fibonacciPlanId']:'${toSearchString(planId)}' AND metadata['fibonacciPlanVersion']:'${fromVersion}'`,
     });
-    
+
+    for await (const subscription of subscriptions) {
+      if (subscription.status === 'canceled' || subscription.status === 'incomplete_expired') {
+        continue;
+      }
+      results.push(await this.migrateSubscription(subscription.id, { ...options, toVersion }));
+    }
+
+    return results;
+  }
+
+  /**
+   * Pauses a subscription without losing its place in the sequence. Invoices
+   * are voided while paused, the unused part of the current term is credited
+   * to the customer's balance, and the stored cycle is left unchanged so
+   * `resumeSubscription` restarts the same term.
+   * @param subscriptionId - Stripe subscription ID
+   * @param options - When the subscription is expected to resume
+   * @returns Promise resolving to the paused subscription and the pause credit
+   */
+  async pauseSubscription(
+    subscriptionId: string,
+    options: SubscriptionPauseOptions = {}
+  ): Promise<{ subscription: Stripe.Subscription; pause: PauseResult }> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+
+    if (!subscription.metadata?.fibonacciBillingCycle) {
+      throw new Error('Not a Fibonacci billing subscription');
+    }
+
+    if (subscription.pause_collection) {
+      throw new Error(`Subscription ${subscriptionId} is already paused`);
+    }
+
+    const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+    const pause = this.getSubscriptionEngine(subscription).calculatePause({
+      cycle: currentCycle - 1,
+      discountCycle: this.getDiscountCycle(subscription),
+      renewed: this.hasRenewed(subscription),
+      periodStart: new Date(subscription.current_period_start * 1000),
+      periodEnd: new Date(subscription.current_period_end * 1000),
+      resumeDate: options.resumeDate,
+      timeZone: this.timeZone,
+    });
+
+    // Stripe would resume collection on the old period, so resuming is left to resumeSubscription
+    const updatedSubscription = await this.stripe.subscriptions.update(subscriptionId, {
+      pause_collection: { behavior: 'void' },
+      metadata: {
+        fibonacciPausedAt: pause.pauseDate.toISOString(),
+        ...(options.resumeDate && { fibonacciResumeAt: options.resumeDate.toISOString() }),
+      },
+    });
+
+    if (pause.unusedCredit.amount > 0) {
+      // Negative balance transactions are credits applied to future invoices
+      await this.stripe.customers.createBalanceTransaction(subscription.customer as string, {
+        amount: -pause.unusedCredit.amount,
+        currency: pause.unusedCredit.currency.toLowerCase(),
+        description: `Fibonacci pause credit (cycle ${pause.billing.cycle})`,
+      });
+    }
+
+    return {
+      subscription: updatedSubscription,
+      pause,
+    };
+  }
+
+  /**
+   * Resumes a paused subscription at the term it was paused in. The term
+   * starts again in full from now and is invoiced immediately; the pause
+   * credit on the customer's balance is applied to that invoice.
+   * @param subscriptionId - Stripe subscription ID
+   * @returns Promise resolving to the resumed subscription
+   */
+  async resumeSubscription(subscriptionId: string): Promise<Stripe.Subscription> {
+    const subscription = await this.retrieveSubscription(subscriptionId);
+
+    if (!subscription.pause_collection || !subscription.metadata?.fibonacciBillingCycle) {
+      throw new Error(
+        `Subscription ${subscriptionId} is not a paused Fibonacci billing subscription`
+      );
+    }
+
+    // The stored cycle was kept while paused, so this reprices the same term
+    const currentCycle = parseInt(subscription.metadata.fibonacciBillingCycle, 10);
+    const billing = this.getSubscriptionEngine(subscription).calculateNextBilling(
+      currentCycle - 1,
+      undefined,
+      this.getDiscountCycle(subscription)
+    );
+    const currentItem = this.getTermItem(subscription);
+    const newPrice = await this.createTermPrice(currentItem.price.product as string, billing);
+
+    const updatedSubscription = await this.stripe.subscriptions.update(subscriptionId, {
+      items: [
+        {
+          id: currentItem.id,
+          price: newPrice.id,
+          quantity: billing.quantity,
+        },
+      ],
+      pause_collection: '',
+      billing_cycle_anchor: 'now',
+      proration_behavior: 'none',
+      metadata: {
+        ...this.getSubscriptionMetadata(billing),
+        fibonacciPausedAt: '',
+        fibonacciResumeAt: '',
+      },
+    });
+
+    await this.recordBilling(updatedSubscription, billing, 'resume');
     return updatedSubscription;
   }
+
+  /**
+   * Invoices a positive net proration immediately, or credits a negative one
+   * to the customer's balance
+   * @param subscriptionId - Stripe subscription ID
+   * @param customerId - Stripe customer ID
+   * @param proration - Proration to apply
+   * @param description - Description shown on the invoice item or balance transaction
+   * @returns Promise resolving when the proration has been applied
+   */
+  private async applyProration(
+    subscriptionId: string,
+    customerId: string,
+    proration: ProrationResult,
+    description: string
+  ): Promise<void> {
+    const currency = proration.netAmount.currency.toLowerCase();
+
+    if (proration.netAmount.amount > 0) {
+      // Charge the difference now rather than at the end of a long term
+      await this.stripe.invoiceItems.create({
+        customer: customerId,
+        subscription: subscriptionId,
+        amount: proration.netAmount.amount,
+        currency,
+        description,
+      });
+
+      await this.stripe.invoices.create({
+        customer: customerId,
+        subscription: subscriptionId,
+        pending_invoice_items_behavior: 'include',
+        auto_advance: true,
+      });
+    } else if (proration.netAmount.amount < 0) {
+      // Negative balance transactions are credits applied to future invoices
+      await this.stripe.customers.createBalanceTransaction(customerId, {
+        amount: proration.netAmount.amount,
+        currency,
+        description,
+      });
+    }
+  }
+}
+
+/**
+ * Formats a per-unit amount for Stripe's `unit_amount_decimal`
+ * @param amount - Total amount in minor units
+ * @param quantity - Number of units
+ * @returns Decimal string with at most 12 decimal places
+ */
+function toUnitAmountDecimal(amount: number, quantity: number): string {
+  return parseFloat((amount / quantity).toFixed(12)).toString();
+}
+
+/**
+ * Escapes a value for use inside a quoted Stripe search query string
+ * @param value - Value to match
+ * @returns The value with backslashes and single quotes escaped
+ */
+function toSearchString(value: string): string {
+  return value.replace(/[\\']/g, '\\$&');
 }
 
 export default FibonacciStripeIntegration; 
\ No newline at end of file
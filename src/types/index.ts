@@ -25,234 +25,3602 @@ export interface FibonacciBillingOptions {
    * Maximum term length in months if capped
    */
   maxTerm?: number;
+
+  /**
+   * Term sequence strategy or built-in sequence name (defaults to 'fibonacci')
+   */
+  sequence?: TermSequence | TermSequenceName;
+
+  /**
+   * ISO 4217 currency code for all amounts (defaults to 'USD')
+   */
+  currency?: string;
+
+  /**
+   * Rounding mode used when converting to minor units (defaults to 'half-up')
+   */
+  roundingMode?: RoundingMode;
+
+  /**
+   * Discount policy (defaults to a linear policy using discountRate with a 50% ceiling)
+   */
+  discountPolicy?: DiscountPolicy;
+
+  /**
+   * Refund policy for early cancellations (defaults to no refund)
+   */
+  refundPolicy?: RefundPolicy;
+
+  /**
+   * Tax settings (no tax is calculated when omitted)
+   */
+  tax?: TaxOptions;
+
+  /**
+   * Coupons applied on top of (or instead of) the term discount
+   */
+  coupons?: Coupon[];
+
+  /**
+   * Free trial or introductory price before the regular schedule
+   */
+  trial?: TrialOptions;
+
+  /**
+   * Number of seats or units billed (defaults to 1)
+   */
+  quantity?: number;
+
+  /**
+   * Per-seat price tiers; without them each seat costs `basePrice` per month
+   */
+  seats?: SeatPricingOptions;
+
+  /**
+   * Metered usage components billed alongside the prepaid term
+   */
+  usage?: UsageComponent[];
 }
 
 /**
- * Billing information for a specific cycle
+ * When usage is billed: at the end of each month of the term ('monthly'),
+ * or once at the end of the term ('arrears')
  */
-export interface BillingCycleInfo {
+export type UsageBillingMode = 'monthly' | 'arrears';
+
+/**
+ * Metered usage component, e.g. API calls
+ */
+export interface UsageComponent {
   /**
-   * Current billing cycle (1-indexed)
+   * Component identifier, used by usage records
    */
-  cycle: number;
-  
+  id: string;
+
   /**
-   * Term length in months
+   * Display name (defaults to the ID)
    */
-  termMonths: number;
-  
+  name?: string;
+
   /**
-   * Base amount before discounts
+   * Price per unit in major units (may be a fraction of a minor unit)
    */
-  baseAmount: number;
-  
+  unitPrice: number;
+
   /**
-   * Discount percentage applied
+   * Units included free in each usage period (defaults to 0)
    */
-  discount: number;
-  
+  includedUnits?: number;
+
   /**
-   * Final amount after discounts
+   * When usage is billed (defaults to 'monthly')
    */
-  finalAmount: number;
-  
+  billing?: UsageBillingMode;
+}
+
+/**
+ * Usage reported for a component
+ */
+export interface UsageRecord {
   /**
-   * Savings amount compared to base price
+   * Usage component identifier
    */
-  savingsAmount: number;
-  
+  componentId: string;
+
   /**
-   * Effective monthly rate after discounts
+   * Units used
    */
-  effectiveMonthlyRate: number;
+  quantity: number;
+
+  /**
+   * When the usage happened
+   */
+  timestamp: Date;
 }
 
 /**
- * Billing summary over multiple cycles
+ * Charge for a usage component over one usage period
  */
-export interface BillingSummary {
+export interface UsageCharge {
   /**
-   * Number of billing cycles
+   * Usage component identifier
    */
-  cycles: number;
-  
+  componentId: string;
+
   /**
-   * Total months across all cycles
+   * Start of the usage period
    */
-  totalMonths: number;
-  
+  periodStart: Date;
+
   /**
-   * Total amount across all cycles after discounts
+   * End of the usage period (exclusive), when the usage is charged
    */
-  totalAmount: number;
-  
+  periodEnd: Date;
+
   /**
-   * Total base amount before discounts
+   * Units used in the period
    */
-  totalBaseAmount: number;
-  
+  quantity: number;
+
   /**
-   * Total savings across all cycles
+   * Units charged after included units
    */
-  totalSavings: number;
-  
+  billableQuantity: number;
+
   /**
-   * Savings percentage compared to base amount
+   * Amount charged
    */
-  savingsPercentage: number;
-  
+  amount: Money;
+}
+
+/**
+ * Billing period of a prepaid term
+ */
+export interface TermPeriod {
   /**
-   * Effective monthly rate across all cycles
+   * Start of the term
    */
-  effectiveMonthlyRate: number;
+  periodStart: Date;
+
+  /**
+   * End of the term (exclusive)
+   */
+  periodEnd: Date;
 }
 
 /**
- * Base payment integration options
+ * How seat tiers are applied: every seat at the price of the tier the
+ * quantity falls in ('volume'), or each tier's seats at that tier's price ('graduated')
  */
-export interface PaymentIntegrationOptions {
+export type SeatPricingMode = 'volume' | 'graduated';
+
+/**
+ * Per-seat price tier
+ */
+export interface SeatTier {
   /**
-   * Fibonacci billing options
+   * Last seat in the tier (omit for the final, unbounded tier)
    */
-  billingOptions: FibonacciBillingOptions;
+  upTo?: number;
+
+  /**
+   * Monthly price per seat in major units
+   */
+  unitPrice: number;
 }
 
 /**
- * Stripe integration options
+ * Seat pricing settings
  */
-export interface StripeIntegrationOptions extends PaymentIntegrationOptions {
+export interface SeatPricingOptions {
   /**
-   * Stripe secret key
+   * How tiers are applied
    */
-  stripeSecretKey: string;
-  
+  mode: SeatPricingMode;
+
   /**
-   * Webhook secret for verifying events
+   * Tiers in ascending order of `upTo`
    */
-  webhookSecret?: string;
+  tiers: SeatTier[];
 }
 
 /**
- * Paddle integration options
+ * Options for prorating a mid-term change in seats
  */
-export interface PaddleIntegrationOptions extends PaymentIntegrationOptions {
+export interface SeatChangeOptions {
   /**
-   * Paddle API key
+   * Term currently running (0-indexed cycle)
    */
-  apiKey: string;
-  
+  cycle: number;
+
   /**
-   * Paddle vendor ID
+   * Cycle (0-indexed) whose discount the term kept after a hold or step-down
    */
-  vendorId: string;
-  
+  discountCycle?: number;
+
   /**
-   * Paddle vendor auth code
+   * Seats before the change (defaults to the plan quantity)
    */
-  vendorAuthCode: string;
-  
+  fromQuantity?: number;
+
   /**
-   * Whether to use sandbox mode
+   * Seats after the change
    */
-  isSandbox?: boolean;
+  toQuantity: number;
+
+  /**
+   * Start of the current billing period
+   */
+  periodStart: Date;
+
+  /**
+   * End of the current billing period, which added seats are co-termed to
+   */
+  periodEnd: Date;
+
+  /**
+   * When the change takes effect (defaults to now)
+   */
+  changeDate?: Date;
 }
 
 /**
- * Product creation options
+ * Free trial and introductory pricing settings
  */
-export interface ProductCreationOptions {
-  /**
-   * Product name
-   */
-  name: string;
-  
+export interface TrialOptions {
   /**
-   * Product description
+   * Free days before the first term starts
    */
-  description: string;
-  
+  days?: number;
+
   /**
-   * Base price (optional, defaults to billing options)
+   * Price of the whole first term per seat in major units, replacing the term discount
    */
-  basePrice?: number;
+  introPrice?: number;
 }
 
 /**
- * Subscription creation options
+ * Coupon types: a percentage off, or a fixed amount off
  */
-export interface SubscriptionCreationOptions {
+export type CouponType = 'percent' | 'fixed';
+
+/**
+ * How many eligible cycles a coupon applies to
+ */
+export type CouponDuration = 'once' | 'repeating' | 'forever';
+
+/**
+ * How a coupon combines with the term discount.
+ * 'compound' applies the coupon to the amount after the term discount;
+ * 'best-of' applies whichever of the coupon and the term discount saves more.
+ */
+export type CouponStacking = 'compound' | 'best-of';
+
+/**
+ * Conditions a cycle must meet for a coupon to apply
+ */
+export interface CouponEligibility {
   /**
-   * Customer ID in the payment provider
+   * First eligible cycle (1-indexed)
    */
-  customerId: string;
-  
+  minCycle?: number;
+
   /**
-   * Product ID in the payment provider
+   * Last eligible cycle (1-indexed)
    */
-  productId: string;
-  
+  maxCycle?: number;
+
   /**
-   * Payment method ID (Stripe-specific)
+   * Minimum term length in months
    */
-  paymentMethodId?: string;
+  minTermMonths?: number;
+
+  /**
+   * Maximum term length in months
+   */
+  maxTermMonths?: number;
 }
 
 /**
- * Checkout session options
+ * Promotional coupon
  */
-export interface CheckoutSessionOptions {
+export interface Coupon {
   /**
-   * Customer ID in the payment provider
+   * Coupon identifier, e.g. 'WELCOME20'
    */
-  customerId: string;
-  
+  id: string;
+
   /**
-   * Product ID in the payment provider
+   * Display name (defaults to the ID)
    */
-  productId: string;
-  
+  name?: string;
+
   /**
-   * Price ID in the payment provider (for Paddle)
+   * Percentage or fixed amount off
    */
-  priceId?: string;
-  
+  type: CouponType;
+
   /**
-   * URL to redirect on success
+   * Fraction off for percent coupons (0-1), or amount off in major units for fixed coupons
    */
-  successUrl: string;
-  
+  value: number;
+
   /**
-   * URL to redirect on cancel
+   * How many eligible cycles the coupon applies to
    */
-  cancelUrl: string;
-  
+  duration: CouponDuration;
+
   /**
-   * Webhook URL (Paddle-specific)
+   * Number of eligible cycles for repeating coupons
    */
-  webhookUrl?: string;
+  durationInCycles?: number;
+
+  /**
+   * Conditions a cycle must meet (defaults to every cycle)
+   */
+  eligibility?: CouponEligibility;
+
+  /**
+   * How the coupon combines with the term discount (defaults to 'compound')
+   */
+  stacking?: CouponStacking;
 }
 
 /**
- * Webhook processing result
+ * Effect of a coupon on a billing cycle
  */
-export interface WebhookResult {
+export interface CouponLineItem {
   /**
-   * Action type
+   * Coupon identifier
    */
-  action: string;
-  
+  couponId: string;
+
   /**
-   * Customer ID
+   * Human-readable description
    */
-  customerId?: string;
-  
+  description: string;
+
   /**
-   * Subscription ID
+   * Amount taken off by the coupon
    */
-  subscriptionId?: string;
-  
+  amount: Money;
+
   /**
-   * Additional data
+   * Whether the coupon replaced the term discount ('best-of' stacking)
    */
-  [key: string]: any;
-} 
\ No newline at end of file
+  replacedTermDiscount: boolean;
+}
+
+/**
+ * Result of applying coupons to a term
+ */
+export interface CouponApplication {
+  /**
+   * Amount after the term discount (or the base amount if a coupon replaced it)
+   */
+  subtotal: Money;
+
+  /**
+   * Amount charged after every coupon
+   */
+  final: Money;
+
+  /**
+   * Whether a 'best-of' coupon replaced the term discount
+   */
+  termDiscountReplaced: boolean;
+
+  /**
+   * One line per coupon applied
+   */
+  lineItems: CouponLineItem[];
+}
+
+/**
+ * Whether prices already include tax
+ */
+export type TaxMode = 'inclusive' | 'exclusive';
+
+/**
+ * Tax rate for a country or region
+ */
+export interface TaxRate {
+  /**
+   * Country or region code, e.g. 'DE' or 'US-CA'
+   */
+  region: string;
+
+  /**
+   * Tax rate as a fraction (e.g. 0.19 for 19%)
+   */
+  rate: number;
+
+  /**
+   * Date the rate takes effect (defaults to always)
+   */
+  effectiveFrom?: Date | string;
+
+  /**
+   * Display name, e.g. 'VAT'
+   */
+  name?: string;
+}
+
+/**
+ * Tax settings for a billing plan
+ */
+export interface TaxOptions {
+  /**
+   * Customer's country or region code, e.g. 'DE' or 'US-CA'
+   */
+  region: string;
+
+  /**
+   * Rates to choose from, keyed by region and effective date
+   */
+  rates: TaxRate[];
+
+  /**
+   * Whether prices include tax (defaults to 'exclusive')
+   */
+  mode?: TaxMode;
+
+  /**
+   * Whether the customer accounts for tax themselves (B2B reverse charge)
+   */
+  reverseCharge?: boolean;
+}
+
+/**
+ * Tax calculated for a billing cycle
+ */
+export interface TaxBreakdown {
+  /**
+   * Region the rate was taken from
+   */
+  region: string;
+
+  /**
+   * Tax rate applied as a fraction (0 under reverse charge)
+   */
+  rate: number;
+
+  /**
+   * Whether the price included tax
+   */
+  mode: TaxMode;
+
+  /**
+   * Whether the reverse charge applied
+   */
+  reverseCharge: boolean;
+
+  /**
+   * Amount before tax
+   */
+  net: Money;
+
+  /**
+   * Tax amount
+   */
+  tax: Money;
+
+  /**
+   * Amount including tax (what the customer pays)
+   */
+  gross: Money;
+}
+
+/**
+ * Tax totals for a billing summary
+ */
+export interface TaxSummary {
+  /**
+   * Total before tax
+   */
+  totalNet: Money;
+
+  /**
+   * Total tax
+   */
+  totalTax: Money;
+
+  /**
+   * Total including tax
+   */
+  totalGross: Money;
+}
+
+/**
+ * Inputs available to a discount policy for a single term
+ */
+export interface DiscountContext {
+  /**
+   * Position of the term in the sequence (0-indexed)
+   */
+  cycle: number;
+
+  /**
+   * Term length in months
+   */
+  termMonths: number;
+
+  /**
+   * Base price per month in major units
+   */
+  basePrice: number;
+}
+
+/**
+ * Strategy that decides the discount applied to a term
+ */
+export interface DiscountPolicy {
+  /**
+   * Policy name
+   */
+  readonly name: string;
+
+  /**
+   * Gets the discount for a term
+   * @param context - Term being priced
+   * @returns Discount as a fraction (0-1)
+   */
+  discountFor(context: DiscountContext): number;
+
+  /**
+   * Describes the policy for a plan definition (policies without it cannot be serialized)
+   * @returns Discount policy definition
+   */
+  toJSON?(): DiscountPolicyDefinition;
+}
+
+/**
+ * Options for a linear discount policy
+ */
+export interface LinearDiscountPolicyOptions {
+  /**
+   * Discount added per month beyond the first (0-1)
+   */
+  rate: number;
+
+  /**
+   * Maximum discount (0-1, defaults to 0.5)
+   */
+  ceiling?: number;
+}
+
+/**
+ * Discount tier for a stepped discount policy
+ */
+export interface DiscountTier {
+  /**
+   * Minimum term length in months for this tier
+   */
+  minTermMonths: number;
+
+  /**
+   * Discount for terms in this tier (0-1)
+   */
+  discount: number;
+}
+
+/**
+ * Options for an exponential decay discount policy
+ */
+export interface ExponentialDecayDiscountPolicyOptions {
+  /**
+   * Monthly price the effective rate decays towards, in major units
+   */
+  floorPrice: number;
+
+  /**
+   * Decay constant per additional month of term length
+   */
+  decayRate: number;
+}
+
+/**
+ * Rounding modes for minor-unit money arithmetic
+ */
+export type RoundingMode = 'half-even' | 'half-up' | 'floor';
+
+/**
+ * Monetary amount in integer minor units
+ */
+export interface Money {
+  /**
+   * Amount in minor units (e.g. cents for USD, yen for JPY, fils for KWD)
+   */
+  amount: number;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+}
+
+/**
+ * Built-in term sequence names
+ */
+export type TermSequenceName = 'fibonacci' | 'lucas' | 'fibonacci-skip-one';
+
+/**
+ * Strategy that decides the length of each billing term
+ */
+export interface TermSequence {
+  /**
+   * Sequence name
+   */
+  readonly name: string;
+
+  /**
+   * Gets the term length at a position in the sequence
+   * @param index - Position in the sequence (0-indexed)
+   * @returns Term length in months
+   */
+  termAt(index: number): number;
+
+  /**
+   * Describes the sequence for a plan definition (sequences without it cannot be serialized)
+   * @returns Term sequence definition
+   */
+  toJSON?(): TermSequenceDefinition;
+}
+
+/**
+ * Billing information for a specific cycle
+ */
+export interface BillingCycleInfo {
+  /**
+   * Current billing cycle (1-indexed)
+   */
+  cycle: number;
+  
+  /**
+   * Term length in months
+   */
+  termMonths: number;
+  
+  /**
+   * Base amount before discounts
+   */
+  baseAmount: number;
+  
+  /**
+   * Discount percentage applied
+   */
+  discount: number;
+  
+  /**
+   * Final amount after discounts
+   */
+  finalAmount: number;
+  
+  /**
+   * Savings amount compared to base price
+   */
+  savingsAmount: number;
+  
+  /**
+   * Effective monthly rate after discounts
+   */
+  effectiveMonthlyRate: number;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * Exact amounts in minor units
+   */
+  amounts: BillingAmounts;
+
+  /**
+   * Tax on the final amount, when the plan has tax settings
+   */
+  tax?: TaxBreakdown;
+
+  /**
+   * Coupons applied to this cycle, when the plan has coupons
+   */
+  coupons?: CouponLineItem[];
+
+  /**
+   * Whether the term is charged at the introductory price
+   */
+  introductory?: boolean;
+
+  /**
+   * Cycle (1-indexed) whose discount the term keeps, when it was held or
+   * stepped down below the furthest position the subscription reached
+   */
+  discountCycle?: number;
+
+  /**
+   * Number of seats or units billed
+   */
+  quantity: number;
+}
+
+/**
+ * Options for generating a calendar-aware billing schedule
+ */
+export interface CalendarScheduleOptions {
+  /**
+   * When the subscription starts ('YYYY-MM-DD' strings are read in the time zone).
+   * With a free trial, the first billing period starts when the trial ends.
+   */
+  startDate: Date | string;
+
+  /**
+   * Day of the month billing periods renew on (1-31, defaults to the first period's start day).
+   * Months without that day renew on their last day.
+   */
+  anchorDay?: number;
+
+  /**
+   * IANA time zone billing dates are calculated in (defaults to 'UTC')
+   */
+  timeZone?: string;
+
+  /**
+   * Number of cycles to generate (defaults to 10)
+   */
+  cycles?: number;
+
+  /**
+   * First cycle to generate (0-indexed, defaults to 0), e.g. the paused term
+   * when rescheduling from a resume date. Trials only apply from cycle 0.
+   */
+  startCycle?: number;
+}
+
+/**
+ * Wall-clock date and time in a particular time zone
+ */
+export interface ZonedDateTime {
+  year: number;
+
+  /**
+   * Month of the year (1-12)
+   */
+  month: number;
+
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+/**
+ * Billing information for a cycle with real calendar dates
+ */
+export interface CalendarBillingCycleInfo extends BillingCycleInfo {
+  /**
+   * Start of the billing period (local midnight in the schedule time zone)
+   */
+  periodStart: Date;
+
+  /**
+   * End of the billing period (exclusive; equal to the next period start)
+   */
+  periodEnd: Date;
+
+  /**
+   * When the term is charged (terms are billed in advance)
+   */
+  chargeDate: Date;
+}
+
+/**
+ * Exact minor-unit amounts for a billing cycle
+ */
+export interface BillingAmounts {
+  /**
+   * Base amount before discounts
+   */
+  base: Money;
+
+  /**
+   * Amount after the term discount, before coupons
+   */
+  subtotal: Money;
+
+  /**
+   * Final amount after discounts (the amount charged)
+   */
+  final: Money;
+
+  /**
+   * Savings compared to the base amount
+   */
+  savings: Money;
+
+  /**
+   * Effective monthly rate after discounts
+   */
+  effectiveMonthlyRate: Money;
+}
+
+/**
+ * Billing summary over multiple cycles
+ */
+export interface BillingSummary {
+  /**
+   * Number of billing cycles
+   */
+  cycles: number;
+  
+  /**
+   * Total months across all cycles
+   */
+  totalMonths: number;
+  
+  /**
+   * Total amount across all cycles after discounts
+   */
+  totalAmount: number;
+  
+  /**
+   * Total base amount before discounts
+   */
+  totalBaseAmount: number;
+  
+  /**
+   * Total savings across all cycles
+   */
+  totalSavings: number;
+  
+  /**
+   * Savings percentage compared to base amount
+   */
+  savingsPercentage: number;
+  
+  /**
+   * Effective monthly rate across all cycles
+   */
+  effectiveMonthlyRate: number;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * Exact totals in minor units
+   */
+  amounts: BillingSummaryAmounts;
+
+  /**
+   * Tax totals, when the plan has tax settings
+   */
+  tax?: TaxSummary;
+}
+
+/**
+ * Exact minor-unit totals for a billing summary
+ */
+export interface BillingSummaryAmounts {
+  /**
+   * Total amount after discounts
+   */
+  total: Money;
+
+  /**
+   * Total base amount before discounts
+   */
+  totalBase: Money;
+
+  /**
+   * Total savings
+   */
+  totalSavings: Money;
+
+  /**
+   * Effective monthly rate across all cycles
+   */
+  effectiveMonthlyRate: Money;
+}
+
+/**
+ * Inputs for prorating a mid-term plan change
+ */
+export interface ProrationOptions {
+  /**
+   * Billing information for the term currently running, on the current plan
+   */
+  currentBilling: BillingCycleInfo;
+
+  /**
+   * Billing information for the same term, on the new plan
+   */
+  newBilling: BillingCycleInfo;
+
+  /**
+   * Start of the current billing period
+   */
+  periodStart: Date;
+
+  /**
+   * End of the current billing period
+   */
+  periodEnd: Date;
+
+  /**
+   * When the change takes effect (defaults to now)
+   */
+  changeDate?: Date;
+
+  /**
+   * Rounding mode for prorated amounts (defaults to 'half-up')
+   */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * Result of prorating a mid-term plan change
+ */
+export interface ProrationResult {
+  /**
+   * Fraction of the current period left at the change date (0-1)
+   */
+  remainingFraction: number;
+
+  /**
+   * Unused value of the current term at its discounted rate
+   */
+  unusedCredit: Money;
+
+  /**
+   * Cost of the new plan for the rest of the current period
+   */
+  newPlanCharge: Money;
+
+  /**
+   * Amount owed by the customer (positive) or credited to them (negative)
+   */
+  netAmount: Money;
+}
+
+/**
+ * Options for changing the plan of an existing subscription mid-term
+ */
+export interface PlanChangeOptions {
+  /**
+   * Billing options for the new plan, merged over the integration's billing options
+   */
+  billingOptions?: Partial<FibonacciBillingOptions>;
+
+  /**
+   * Product to switch to (defaults to the current product)
+   */
+  productId?: string;
+
+  /**
+   * Catalog plan to switch to (defaults to the subscription's plan)
+   */
+  planId?: string;
+
+  /**
+   * Version of the catalog plan to switch to (defaults to the latest version
+   * when switching plans, or the subscription's version otherwise)
+   */
+  planVersion?: number;
+
+  /**
+   * When the change takes effect (defaults to now)
+   */
+  changeDate?: Date;
+}
+
+/**
+ * Early cancellation of a prepaid term
+ */
+export interface RefundRequest {
+  /**
+   * Position of the cancelled term in the sequence (0-indexed, as passed to calculateNextBilling)
+   */
+  cycle: number;
+
+  /**
+   * Cycle (0-indexed) whose discount the term kept after a hold or step-down
+   */
+  discountCycle?: number;
+
+  /**
+   * Whether the term was reached by renewing, so it cannot be introductory (defaults to false)
+   */
+  renewed?: boolean;
+
+  /**
+   * Start of the cancelled billing period
+   */
+  periodStart: Date;
+
+  /**
+   * End of the cancelled billing period
+   */
+  periodEnd: Date;
+
+  /**
+   * When the subscription was cancelled (defaults to now)
+   */
+  cancelDate?: Date;
+}
+
+/**
+ * Inputs available to a refund policy
+ */
+export interface RefundContext {
+  /**
+   * Billing information for the cancelled term
+   */
+  billing: BillingCycleInfo;
+
+  /**
+   * Fraction of the term used before cancelling (0-1)
+   */
+  usedFraction: number;
+
+  /**
+   * Rounding mode for prorated amounts
+   */
+  roundingMode: RoundingMode;
+}
+
+/**
+ * Single line of a refund breakdown
+ */
+export interface RefundLineItem {
+  /**
+   * Human-readable description
+   */
+  description: string;
+
+  /**
+   * Amount added to (positive) or taken from (negative) the refund
+   */
+  amount: Money;
+}
+
+/**
+ * Itemized refund for an early cancellation
+ */
+export interface RefundBreakdown {
+  /**
+   * Name of the policy that produced the breakdown
+   */
+  policy: string;
+
+  /**
+   * Amount paid for the cancelled term
+   */
+  amountPaid: Money;
+
+  /**
+   * Fraction of the term used before cancelling (0-1)
+   */
+  usedFraction: number;
+
+  /**
+   * Line items that add up to the refund amount
+   */
+  lineItems: RefundLineItem[];
+
+  /**
+   * Amount to refund (never negative)
+   */
+  refundAmount: Money;
+}
+
+/**
+ * Strategy that decides how much of a prepaid term is refunded on cancellation
+ */
+export interface RefundPolicy {
+  /**
+   * Policy name
+   */
+  readonly name: string;
+
+  /**
+   * Calculates the refund for a cancelled term
+   * @param context - Cancelled term and how much of it was used
+   * @returns Itemized refund
+   */
+  calculateRefund(context: RefundContext): RefundBreakdown;
+}
+
+/**
+ * Base payment integration options
+ */
+export interface PaymentIntegrationOptions {
+  /**
+   * Fibonacci billing options
+   */
+  billingOptions: FibonacciBillingOptions;
+
+  /**
+   * Versioned plan definitions; subscriptions sold under a catalog plan keep
+   * its version's pricing until they are migrated
+   */
+  plans?: PlanVersion[];
+
+  /**
+   * Catalog plan new subscriptions are sold under when none is given
+   * (without one, they use `billingOptions` and record no plan version)
+   */
+  planId?: string;
+
+  /**
+   * IANA time zone used for billing dates and reminders (defaults to 'UTC')
+   */
+  timeZone?: string;
+
+  /**
+   * Whether to refund the amount from the plan's refund policy when a subscription is cancelled
+   */
+  refundOnCancel?: boolean;
+
+  /**
+   * Store for subscription state, cycle history, reminders and processed
+   * webhook events (without one, state is only kept in provider metadata)
+   */
+  store?: SubscriptionStore;
+
+  /**
+   * Days before renewal payment reminders are scheduled (defaults to 7 days for every term)
+   */
+  reminderOffsets?: ReminderOffsets;
+}
+
+/**
+ * Stripe integration options
+ */
+export interface StripeIntegrationOptions extends PaymentIntegrationOptions {
+  /**
+   * Stripe secret key
+   */
+  stripeSecretKey: string;
+  
+  /**
+   * Webhook secret for verifying events
+   */
+  webhookSecret?: string;
+}
+
+/**
+ * Paddle integration options
+ */
+export interface PaddleIntegrationOptions extends PaymentIntegrationOptions {
+  /**
+   * Paddle API key
+   */
+  apiKey: string;
+  
+  /**
+   * Paddle vendor ID
+   */
+  vendorId: string;
+  
+  /**
+   * Paddle vendor auth code
+   */
+  vendorAuthCode: string;
+  
+  /**
+   * Whether to use sandbox mode
+   */
+  isSandbox?: boolean;
+}
+
+/**
+ * Start and end of a Paddle billing period or trial. The Paddle SDK returns
+ * camelCase fields; webhook payloads use snake_case.
+ */
+export interface PaddleBillingPeriod {
+  /**
+   * Start date (ISO 8601)
+   */
+  startsAt?: string;
+  starts_at?: string;
+
+  /**
+   * End date (ISO 8601)
+   */
+  endsAt?: string;
+  ends_at?: string;
+}
+
+/**
+ * Item on a Paddle subscription
+ */
+export interface PaddleSubscriptionItem {
+  /**
+   * Number of units (seats)
+   */
+  quantity?: number;
+
+  /**
+   * Price the item is billed at
+   */
+  price?: {
+    id: string;
+    productId?: string;
+  };
+
+  /**
+   * Trial period, while the item is trialing
+   */
+  trialDates?: PaddleBillingPeriod | null;
+  trial_dates?: PaddleBillingPeriod | null;
+}
+
+/**
+ * Paddle subscription, as returned by the Paddle SDK or sent in a webhook
+ */
+export interface PaddleSubscription {
+  /**
+   * Paddle subscription ID
+   */
+  id: string;
+
+  /**
+   * Subscription status, e.g. 'active' or 'paused'
+   */
+  status?: string;
+
+  /**
+   * Paddle customer ID
+   */
+  customerId?: string;
+  customer_id?: string;
+
+  /**
+   * Billing period of the current term
+   */
+  currentBillingPeriod?: PaddleBillingPeriod | null;
+  current_billing_period?: PaddleBillingPeriod | null;
+
+  /**
+   * When the next renewal is charged (ISO 8601)
+   */
+  nextBilledAt?: string | null;
+  next_billed_at?: string | null;
+
+  /**
+   * When the subscription was canceled (ISO 8601)
+   */
+  canceledAt?: string | null;
+  canceled_at?: string | null;
+
+  /**
+   * Subscription items; the first is the Fibonacci term
+   */
+  items?: PaddleSubscriptionItem[];
+
+  /**
+   * Subscription metadata, including the Fibonacci cycle and plan version
+   */
+  metadata?: { [key: string]: string } | null;
+}
+
+/**
+ * Paddle webhook payload. Older payloads are the subscription itself with
+ * the event fields alongside; newer ones nest it under `subscription`.
+ */
+export interface PaddleWebhookPayload extends Partial<PaddleSubscription> {
+  /**
+   * Event type, e.g. 'subscription.created'
+   */
+  type?: string;
+  event_type?: string;
+  alert_name?: string;
+
+  /**
+   * Event ID, used to skip redelivered events
+   */
+  event_id?: string;
+  eventId?: string;
+  alert_id?: string;
+
+  /**
+   * When the event occurred (ISO 8601)
+   */
+  occurredAt?: string;
+  occurred_at?: string;
+
+  /**
+   * Subscription the event is about
+   */
+  subscription?: PaddleSubscription;
+  subscription_id?: string;
+  subscriptionId?: string;
+
+  /**
+   * Customer the event is about
+   */
+  customer?: { id: string };
+}
+
+/**
+ * Completed Paddle transaction that adjustments are issued against
+ */
+export interface PaddleTransaction {
+  /**
+   * Paddle transaction ID
+   */
+  id: string;
+
+  /**
+   * Transaction line items
+   */
+  details?: {
+    lineItems?: { id: string }[];
+  };
+}
+
+/**
+ * Credit or refund adjustment issued against a Paddle transaction
+ */
+export interface PaddleAdjustment {
+  /**
+   * Paddle adjustment ID
+   */
+  id: string;
+
+  /**
+   * Adjustment action ('credit' or 'refund')
+   */
+  action?: string;
+
+  /**
+   * Adjustment status, e.g. 'pending_approval'
+   */
+  status?: string;
+}
+
+/**
+ * Renewal reminder scheduled by the Paddle integration
+ */
+export interface PaddlePaymentReminder {
+  /**
+   * Whether the reminder was saved for delivery
+   */
+  scheduled: boolean;
+
+  /**
+   * Why the reminder was not scheduled
+   */
+  reason?: string;
+
+  /**
+   * Paddle subscription ID
+   */
+  subscription_id: string;
+
+  /**
+   * Paddle customer ID
+   */
+  customer_id?: string;
+
+  /**
+   * When the reminder is sent (ISO 8601)
+   */
+  reminder_date: string;
+
+  /**
+   * When the next term is charged (ISO 8601)
+   */
+  next_billing_date: string;
+
+  /**
+   * Cycle of the next term
+   */
+  next_cycle: number;
+
+  /**
+   * Length of the next term in months
+   */
+  next_term_months: number;
+
+  /**
+   * Amount charged for the next term
+   */
+  next_amount: number;
+
+  /**
+   * Amount charged for the next term in minor units
+   */
+  next_amount_minor: number;
+
+  /**
+   * Currency code
+   */
+  currency: string;
+}
+
+/**
+ * Product creation options
+ */
+export interface ProductCreationOptions {
+  /**
+   * Product name
+   */
+  name: string;
+  
+  /**
+   * Product description
+   */
+  description: string;
+  
+  /**
+   * Base price (optional, defaults to billing options)
+   */
+  basePrice?: number;
+
+  /**
+   * Catalog plan the product sells (optional, defaults to the integration's planId)
+   */
+  planId?: string;
+
+  /**
+   * Version of the catalog plan (optional, defaults to the latest version)
+   */
+  planVersion?: number;
+}
+
+/**
+ * Subscription creation options
+ */
+export interface SubscriptionCreationOptions {
+  /**
+   * Customer ID in the payment provider
+   */
+  customerId: string;
+  
+  /**
+   * Product ID in the payment provider
+   */
+  productId: string;
+  
+  /**
+   * Payment method ID (Stripe-specific)
+   */
+  paymentMethodId?: string;
+
+  /**
+   * Catalog plan to sell (defaults to the integration's planId)
+   */
+  planId?: string;
+
+  /**
+   * Version of the catalog plan to sell (defaults to the latest version)
+   */
+  planVersion?: number;
+
+  /**
+   * Number of seats (defaults to the plan quantity)
+   */
+  quantity?: number;
+}
+
+/**
+ * Checkout session options
+ */
+export interface CheckoutSessionOptions {
+  /**
+   * Customer ID in the payment provider
+   */
+  customerId: string;
+  
+  /**
+   * Product ID in the payment provider
+   */
+  productId: string;
+  
+  /**
+   * Price ID in the payment provider (for Paddle)
+   */
+  priceId?: string;
+
+  /**
+   * Catalog plan to sell (defaults to the integration's planId)
+   */
+  planId?: string;
+
+  /**
+   * Version of the catalog plan to sell (defaults to the latest version)
+   */
+  planVersion?: number;
+
+  /**
+   * Number of seats (defaults to the plan quantity)
+   */
+  quantity?: number;
+
+  /**
+   * URL to redirect on success
+   */
+  successUrl: string;
+  
+  /**
+   * URL to redirect on cancel
+   */
+  cancelUrl: string;
+  
+  /**
+   * Webhook URL (Paddle-specific)
+   */
+  webhookUrl?: string;
+}
+
+/**
+ * Webhook processing result
+ */
+export interface WebhookResult {
+  /**
+   * Action type
+   */
+  action: string;
+  
+  /**
+   * Customer ID
+   */
+  customerId?: string;
+  
+  /**
+   * Subscription ID
+   */
+  subscriptionId?: string;
+  
+  /**
+   * Provider event normalized for the subscription lifecycle, when it affects one
+   */
+  lifecycleEvent?: LifecycleEvent;
+
+  /**
+   * Additional data
+   */
+  [key: string]: any;
+}
+
+/**
+ * Amount billed for a service period, to be recognized as revenue over it
+ */
+export interface RevenueEntry {
+  /**
+   * Identifier used to match refunds, e.g. 'cycle-3' or an invoice ID
+   */
+  id: string;
+
+  /**
+   * Amount billed, excluding tax (negative for credits)
+   */
+  amount: Money;
+
+  /**
+   * When the amount was billed
+   */
+  chargeDate: Date;
+
+  /**
+   * Start of the service period
+   */
+  periodStart: Date;
+
+  /**
+   * End of the service period (exclusive)
+   */
+  periodEnd: Date;
+}
+
+/**
+ * Refund that ends the service period of a revenue entry
+ */
+export interface RevenueRefund {
+  /**
+   * Identifier of the refunded revenue entry
+   */
+  entryId: string;
+
+  /**
+   * When the service ended and the refund was issued
+   */
+  date: Date;
+
+  /**
+   * Amount refunded
+   */
+  amount: Money;
+}
+
+/**
+ * Options for building a revenue recognition schedule
+ */
+export interface RevenueScheduleOptions {
+  /**
+   * Amounts billed and their service periods
+   */
+  entries: RevenueEntry[];
+
+  /**
+   * Refunds for cancelled service periods
+   */
+  refunds?: RevenueRefund[];
+
+  /**
+   * IANA time zone months are counted in (defaults to 'UTC')
+   */
+  timeZone?: string;
+
+  /**
+   * Rounding mode for monthly amounts (defaults to 'half-up')
+   */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * Revenue movements and closing balance for one calendar month
+ */
+export interface RevenueRecognitionPeriod {
+  /**
+   * Month in 'YYYY-MM' form
+   */
+  month: string;
+
+  /**
+   * Start of the month
+   */
+  periodStart: Date;
+
+  /**
+   * End of the month (exclusive)
+   */
+  periodEnd: Date;
+
+  /**
+   * Amount billed in the month
+   */
+  billed: Money;
+
+  /**
+   * Amount refunded in the month
+   */
+  refunded: Money;
+
+  /**
+   * Revenue recognized in the month
+   */
+  recognized: Money;
+
+  /**
+   * Deferred revenue at the end of the month
+   */
+  deferredBalance: Money;
+}
+
+/**
+ * Monthly revenue recognition schedule
+ */
+export interface RevenueSchedule {
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * Consecutive months from the first billing or service date to the last
+   */
+  periods: RevenueRecognitionPeriod[];
+
+  /**
+   * Totals over all months
+   */
+  totals: {
+    billed: Money;
+    refunded: Money;
+    recognized: Money;
+  };
+}
+
+/**
+ * How a cohort simulation models renewals
+ */
+export type CohortSimulationMode = 'deterministic' | 'monte-carlo';
+
+/**
+ * Options for simulating a cohort of customers on a plan
+ */
+export interface CohortSimulationOptions {
+  /**
+   * Billing options of the plan to simulate
+   */
+  plan: Partial<FibonacciBillingOptions>;
+
+  /**
+   * Number of customers starting the first term together
+   */
+  cohortSize: number;
+
+  /**
+   * Probability (0-1) that a customer renews after each term; index 0 is the
+   * renewal into the second term and the last rate repeats for later terms
+   */
+  renewalRates: number[];
+
+  /**
+   * Date the cohort signs up
+   */
+  startDate: Date | string;
+
+  /**
+   * IANA time zone months are counted in (defaults to 'UTC')
+   */
+  timeZone?: string;
+
+  /**
+   * Number of terms to simulate (defaults to 10)
+   */
+  cycles?: number;
+
+  /**
+   * Expected values, or the average of randomized runs (defaults to 'deterministic')
+   */
+  mode?: CohortSimulationMode;
+
+  /**
+   * Number of Monte Carlo runs (defaults to 1000)
+   */
+  runs?: number;
+
+  /**
+   * Seed for the Monte Carlo random number generator (defaults to 1)
+   */
+  seed?: number;
+}
+
+/**
+ * Expected customers and revenue for one term of a cohort simulation
+ */
+export interface CohortForecastCycle {
+  /**
+   * Term number (1-indexed)
+   */
+  cycle: number;
+
+  /**
+   * Length of the term in months
+   */
+  termMonths: number;
+
+  /**
+   * When the term is charged
+   */
+  chargeDate: Date;
+
+  /**
+   * Expected number of customers paying for the term
+   */
+  customers: number;
+
+  /**
+   * Amount each customer pays, excluding tax
+   */
+  pricePerCustomer: Money;
+
+  /**
+   * Expected revenue from the term, excluding tax
+   */
+  revenue: Money;
+}
+
+/**
+ * Expected cash flow and balances for one calendar month of a cohort simulation
+ */
+export interface CohortForecastMonth {
+  /**
+   * Month in 'YYYY-MM' form
+   */
+  month: string;
+
+  /**
+   * Expected number of customers in service at the end of the month
+   */
+  activeCustomers: number;
+
+  /**
+   * Expected cash collected in the month, including tax
+   */
+  cashCollected: Money;
+
+  /**
+   * Expected revenue recognized in the month
+   */
+  recognizedRevenue: Money;
+
+  /**
+   * Expected deferred revenue at the end of the month
+   */
+  deferredRevenue: Money;
+
+  /**
+   * Expected refunds owed at the end of the month if every active customer
+   * cancelled, under the plan's refund policy
+   */
+  refundLiability: Money;
+}
+
+/**
+ * Spread of lifetime value across Monte Carlo runs
+ */
+export interface LtvPercentiles {
+  /**
+   * 10th percentile
+   */
+  p10: Money;
+
+  /**
+   * Median
+   */
+  p50: Money;
+
+  /**
+   * 90th percentile
+   */
+  p90: Money;
+}
+
+/**
+ * Result of a cohort simulation
+ */
+export interface CohortForecast {
+  /**
+   * Mode the forecast was produced with
+   */
+  mode: CohortSimulationMode;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * Number of customers in the cohort
+   */
+  cohortSize: number;
+
+  /**
+   * Expected customers and revenue per term
+   */
+  cycles: CohortForecastCycle[];
+
+  /**
+   * Expected cash flow and balances per month
+   */
+  months: CohortForecastMonth[];
+
+  /**
+   * Expected revenue over all simulated terms, excluding tax
+   */
+  expectedRevenue: Money;
+
+  /**
+   * Expected revenue per customer over all simulated terms
+   */
+  ltv: Money;
+
+  /**
+   * Spread of lifetime value across runs (Monte Carlo mode only)
+   */
+  ltvPercentiles?: LtvPercentiles;
+}
+
+/**
+ * Kind of plan in a plan comparison
+ */
+export type ComparisonPlanType = 'fibonacci' | 'monthly' | 'annual';
+
+/**
+ * Fibonacci plan in a plan comparison, charged at the start of each term
+ */
+export interface FibonacciComparisonPlan {
+  type: 'fibonacci';
+
+  /**
+   * Display name (defaults to 'Fibonacci')
+   */
+  name?: string;
+
+  /**
+   * Billing options of the plan
+   */
+  options: Partial<FibonacciBillingOptions>;
+}
+
+/**
+ * Flat monthly plan in a plan comparison, charged at the start of each month
+ */
+export interface MonthlyComparisonPlan {
+  type: 'monthly';
+
+  /**
+   * Display name (defaults to 'Monthly')
+   */
+  name?: string;
+
+  /**
+   * Price per month in major units
+   */
+  price: number;
+}
+
+/**
+ * Annual plan in a plan comparison, charged at the start of each year
+ */
+export interface AnnualComparisonPlan {
+  type: 'annual';
+
+  /**
+   * Display name (defaults to 'Annual')
+   */
+  name?: string;
+
+  /**
+   * List price per month in major units
+   */
+  monthlyPrice: number;
+
+  /**
+   * Discount off twelve months at the list price (0-1, defaults to 0)
+   */
+  discountRate?: number;
+}
+
+/**
+ * Plan definition in a plan comparison
+ */
+export type ComparisonPlan = FibonacciComparisonPlan | MonthlyComparisonPlan | AnnualComparisonPlan;
+
+/**
+ * Options for comparing plans over a number of months
+ */
+export interface PlanComparisonOptions {
+  /**
+   * Number of months to compare
+   */
+  months: number;
+
+  /**
+   * Plans to compare; the first is the baseline savings are measured against
+   */
+  plans: ComparisonPlan[];
+
+  /**
+   * ISO 4217 currency code shared by all plans (defaults to 'USD')
+   */
+  currency?: string;
+
+  /**
+   * Rounding mode for converting prices to minor units (defaults to 'half-up')
+   */
+  roundingMode?: RoundingMode;
+}
+
+/**
+ * Month-by-month cost of one plan in a plan comparison
+ */
+export interface PlanComparisonSeries {
+  /**
+   * Display name
+   */
+  name: string;
+
+  /**
+   * Kind of plan
+   */
+  type: ComparisonPlanType;
+
+  /**
+   * Amount charged at the start of each month (index 0 is month 1)
+   */
+  payments: Money[];
+
+  /**
+   * Total paid by the end of each month
+   */
+  cumulative: Money[];
+
+  /**
+   * Total paid over the whole comparison
+   */
+  total: Money;
+
+  /**
+   * Baseline total minus this plan's total by the end of each month
+   * (positive when this plan has cost less so far)
+   */
+  savings: Money[];
+
+  /**
+   * Savings over the whole comparison
+   */
+  totalSavings: Money;
+
+  /**
+   * First month (1-indexed) from which this plan has cost no more than the
+   * baseline through the end of the comparison, or null if it costs more at the end
+   */
+  breakEvenMonth: number | null;
+}
+
+/**
+ * Aligned cumulative costs of several plans
+ */
+export interface PlanComparison {
+  /**
+   * Number of months compared
+   */
+  months: number;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * Name of the baseline plan
+   */
+  baseline: string;
+
+  /**
+   * Costs of each plan, in the order given
+   */
+  plans: PlanComparisonSeries[];
+}
+
+/**
+ * One version of a plan definition. Versions are immutable: changing the
+ * price of a plan means adding a new version.
+ */
+export interface PlanVersion {
+  /**
+   * Plan identifier shared by all versions
+   */
+  planId: string;
+
+  /**
+   * Version number (a positive whole number)
+   */
+  version: number;
+
+  /**
+   * Billing options of this version
+   */
+  billingOptions: Partial<FibonacciBillingOptions>;
+
+  /**
+   * Optional description, e.g. what changed in this version
+   */
+  description?: string;
+}
+
+/**
+ * Plan and version a subscription was sold under
+ */
+export interface PlanReference {
+  /**
+   * Plan identifier
+   */
+  planId: string;
+
+  /**
+   * Version number
+   */
+  version: number;
+}
+
+/**
+ * When a plan migration takes effect
+ */
+export type PlanMigrationTiming = 'next-term' | 'immediately';
+
+/**
+ * Options for migrating subscriptions to another version of their plan
+ */
+export interface PlanMigrationOptions {
+  /**
+   * Version to migrate to (defaults to the latest version)
+   */
+  toVersion?: number;
+
+  /**
+   * Reprice from the next term (the default), or immediately with proration
+   */
+  effective?: PlanMigrationTiming;
+
+  /**
+   * When an immediate migration takes effect (defaults to now)
+   */
+  changeDate?: Date;
+}
+
+/**
+ * Outcome of migrating one subscription
+ */
+export interface PlanMigrationResult {
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId: string;
+
+  /**
+   * Plan identifier
+   */
+  planId: string;
+
+  /**
+   * Version the subscription was on
+   */
+  fromVersion: number;
+
+  /**
+   * Version the subscription is on now
+   */
+  toVersion: number;
+
+  /**
+   * Proration applied (immediate migrations only)
+   */
+  proration?: ProrationResult;
+}
+
+/**
+ * One problem found when validating billing options
+ */
+export interface BillingOptionsIssue {
+  /**
+   * Path of the offending option, e.g. 'discountRate' or 'coupons[1]'
+   */
+  path: string;
+
+  /**
+   * What is wrong with it
+   */
+  message: string;
+}
+
+/**
+ * Built-in term sequence in a plan definition
+ */
+export interface NamedTermSequenceDefinition {
+  /**
+   * Built-in sequence name
+   */
+  type: TermSequenceName;
+}
+
+/**
+ * Additive term sequence in a plan definition
+ */
+export interface AdditiveTermSequenceDefinition {
+  /**
+   * Sequence type
+   */
+  type: 'additive';
+
+  /**
+   * First term in months
+   */
+  first: number;
+
+  /**
+   * Second term in months
+   */
+  second: number;
+}
+
+/**
+ * Geometric term sequence in a plan definition
+ */
+export interface GeometricTermSequenceDefinition {
+  /**
+   * Sequence type
+   */
+  type: 'geometric';
+
+  /**
+   * First term in months
+   */
+  initial: number;
+
+  /**
+   * Growth ratio between terms (>= 1)
+   */
+  ratio: number;
+}
+
+/**
+ * Explicit term list in a plan definition
+ */
+export interface CustomTermSequenceDefinition {
+  /**
+   * Sequence type
+   */
+  type: 'custom';
+
+  /**
+   * Term lengths in months; the last term repeats
+   */
+  terms: number[];
+}
+
+/**
+ * Term sequence in a plan definition
+ */
+export type TermSequenceDefinition =
+  | NamedTermSequenceDefinition
+  | AdditiveTermSequenceDefinition
+  | GeometricTermSequenceDefinition
+  | CustomTermSequenceDefinition;
+
+/**
+ * Linear discount policy in a plan definition
+ */
+export interface LinearDiscountPolicyDefinition extends LinearDiscountPolicyOptions {
+  /**
+   * Policy type
+   */
+  type: 'linear';
+}
+
+/**
+ * Stepped discount policy in a plan definition
+ */
+export interface SteppedDiscountPolicyDefinition {
+  /**
+   * Policy type
+   */
+  type: 'stepped';
+
+  /**
+   * Discount tiers
+   */
+  tiers: DiscountTier[];
+}
+
+/**
+ * Cycle table discount policy in a plan definition
+ */
+export interface CycleTableDiscountPolicyDefinition {
+  /**
+   * Policy type
+   */
+  type: 'cycle-table';
+
+  /**
+   * Discount for each cycle (0-indexed); the last entry repeats
+   */
+  discounts: number[];
+}
+
+/**
+ * Exponential decay discount policy in a plan definition
+ */
+export interface ExponentialDecayDiscountPolicyDefinition
+  extends ExponentialDecayDiscountPolicyOptions {
+  /**
+   * Policy type
+   */
+  type: 'exponential-decay';
+}
+
+/**
+ * Discount policy in a plan definition
+ */
+export type DiscountPolicyDefinition =
+  | LinearDiscountPolicyDefinition
+  | SteppedDiscountPolicyDefinition
+  | CycleTableDiscountPolicyDefinition
+  | ExponentialDecayDiscountPolicyDefinition;
+
+/**
+ * Serializable plan definition, validated against the published JSON Schema
+ */
+export interface PlanDefinition {
+  /**
+   * JSON Schema the document follows (optional, ignored when loading)
+   */
+  $schema?: string;
+
+  /**
+   * Version of the plan definition format
+   */
+  schemaVersion: 1;
+
+  /**
+   * Base price per month in major units
+   */
+  basePrice: number;
+
+  /**
+   * ISO 4217 currency code
+   */
+  currency: string;
+
+  /**
+   * Rounding used when converting to minor units (defaults to 'half-up')
+   */
+  roundingMode?: RoundingMode;
+
+  /**
+   * Term sequence (defaults to Fibonacci)
+   */
+  sequence?: TermSequenceDefinition;
+
+  /**
+   * Discount policy (defaults to 5% per extra month, capped at 50%)
+   */
+  discountPolicy?: DiscountPolicyDefinition;
+
+  /**
+   * Maximum term length in months (omit for no cap)
+   */
+  maxTerm?: number;
+}
+
+/**
+ * Subset of JSON Schema (draft-07) used to describe plan definitions
+ */
+export interface JsonSchema {
+  /**
+   * Meta-schema the schema follows
+   */
+  $schema?: string;
+
+  /**
+   * Schema title
+   */
+  title?: string;
+
+  /**
+   * Schema description
+   */
+  description?: string;
+
+  /**
+   * Expected JSON type
+   */
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+  /**
+   * Schemas of known object properties
+   */
+  properties?: { [name: string]: JsonSchema };
+
+  /**
+   * Object properties that must be present
+   */
+  required?: string[];
+
+  /**
+   * Whether object properties other than the known ones are allowed
+   */
+  additionalProperties?: boolean;
+
+  /**
+   * Schema of array items
+   */
+  items?: JsonSchema;
+
+  /**
+   * Minimum array length
+   */
+  minItems?: number;
+
+  /**
+   * Allowed values
+   */
+  enum?: Array<string | number>;
+
+  /**
+   * Only allowed value
+   */
+  const?: string | number;
+
+  /**
+   * Inclusive minimum for numbers
+   */
+  minimum?: number;
+
+  /**
+   * Inclusive maximum for numbers
+   */
+  maximum?: number;
+
+  /**
+   * Regular expression strings must match
+   */
+  pattern?: string;
+
+  /**
+   * Alternatives, exactly one of which must match
+   */
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * Target effective monthly rate for the first term of a given length
+ */
+export interface EffectiveRateTarget {
+  /**
+   * Target type
+   */
+  type: 'effective-rate';
+
+  /**
+   * Term length in months the target applies to
+   */
+  termMonths: number;
+
+  /**
+   * Target effective monthly rate in major units
+   */
+  monthlyRate: number;
+}
+
+/**
+ * Target price for a cycle
+ */
+export interface CyclePriceTarget {
+  /**
+   * Target type
+   */
+  type: 'cycle-price';
+
+  /**
+   * Cycle the target applies to (1-indexed)
+   */
+  cycle: number;
+
+  /**
+   * Target price of the term in major units
+   */
+  price: number;
+}
+
+/**
+ * Target total savings over a number of cycles
+ */
+export interface SavingsTarget {
+  /**
+   * Target type
+   */
+  type: 'total-savings';
+
+  /**
+   * Number of cycles the savings are measured over
+   */
+  cycles: number;
+
+  /**
+   * Target savings percentage compared to the base amount (0-100)
+   */
+  savingsPercentage: number;
+}
+
+/**
+ * Pricing target for the solver
+ */
+export type PricingTarget = EffectiveRateTarget | CyclePriceTarget | SavingsTarget;
+
+/**
+ * Pricing parameters the solver can compute
+ */
+export type PricingSolveFor =
+  | 'basePrice'
+  | 'discountRate'
+  | 'basePriceAndDiscountRate'
+  | 'discountTable';
+
+/**
+ * Options for solving pricing parameters from targets
+ */
+export interface PricingSolverOptions {
+  /**
+   * Targets to meet
+   */
+  targets: PricingTarget[];
+
+  /**
+   * Parameters to compute; everything else comes from billingOptions
+   */
+  solveFor: PricingSolveFor;
+
+  /**
+   * Billing options the solution starts from (sequence, cap, currency, ...)
+   */
+  billingOptions?: Partial<FibonacciBillingOptions>;
+}
+
+/**
+ * How closely a solution meets one target
+ */
+export interface PricingTargetResult {
+  /**
+   * Target
+   */
+  target: PricingTarget;
+
+  /**
+   * Cycle the target was matched to (1-indexed, absent for savings targets)
+   */
+  cycle?: number;
+
+  /**
+   * Value the target asked for
+   */
+  expected: number;
+
+  /**
+   * Value the solution achieves
+   */
+  actual: number;
+
+  /**
+   * Actual minus expected
+   */
+  error: number;
+
+  /**
+   * Error as a fraction of the expected value (the error itself when the expected value is 0)
+   */
+  relativeError: number;
+}
+
+/**
+ * Pricing parameters that best meet a set of targets
+ */
+export interface PricingSolution {
+  /**
+   * Billing options with the solved parameters applied
+   */
+  billingOptions: Partial<FibonacciBillingOptions>;
+
+  /**
+   * Base price per month in major units
+   */
+  basePrice: number;
+
+  /**
+   * Discount rate per extra month (when solving for it)
+   */
+  discountRate?: number;
+
+  /**
+   * Discount for each cycle, 0-indexed (when solving for a discount table)
+   */
+  discountTable?: number[];
+
+  /**
+   * How closely each target is met
+   */
+  targets: PricingTargetResult[];
+
+  /**
+   * Root mean square of the relative errors
+   */
+  residual: number;
+
+  /**
+   * Largest relative error in absolute terms
+   */
+  maxRelativeError: number;
+}
+
+/**
+ * Request to pause a subscription part way through a term
+ */
+export interface PauseRequest {
+  /**
+   * Term running when the subscription is paused (0-indexed, as passed to calculateNextBilling)
+   */
+  cycle: number;
+
+  /**
+   * Cycle (0-indexed) whose discount the term kept after a hold or step-down
+   */
+  discountCycle?: number;
+
+  /**
+   * Whether the term was reached by renewing, so it cannot be introductory (defaults to false)
+   */
+  renewed?: boolean;
+
+  /**
+   * Start of the paused billing period
+   */
+  periodStart: Date;
+
+  /**
+   * End of the paused billing period
+   */
+  periodEnd: Date;
+
+  /**
+   * When the pause starts (defaults to now)
+   */
+  pauseDate?: Date;
+
+  /**
+   * When the subscription resumes, if known
+   */
+  resumeDate?: Date;
+
+  /**
+   * IANA time zone the resumed term is scheduled in (defaults to 'UTC')
+   */
+  timeZone?: string;
+}
+
+/**
+ * Credit and rescheduled term for a paused subscription. The unused part of
+ * the paused term is credited, and the same term starts again in full when
+ * the subscription resumes, so the customer keeps their place in the sequence.
+ */
+export interface PauseResult {
+  /**
+   * Paused term, which is also the term charged on resume
+   */
+  billing: BillingCycleInfo;
+
+  /**
+   * When the pause starts
+   */
+  pauseDate: Date;
+
+  /**
+   * Fraction of the paused term left unused (0-1)
+   */
+  remainingFraction: number;
+
+  /**
+   * Credit for the unused part of the paused term, at the discounted rate paid
+   */
+  unusedCredit: Money;
+
+  /**
+   * Charge for the resumed term after the credit
+   */
+  amountDueOnResume: Money;
+
+  /**
+   * When the subscription resumes, if known
+   */
+  resumeDate?: Date;
+
+  /**
+   * Resumed term, when the resume date is known
+   */
+  resumePeriod?: TermPeriod;
+}
+
+/**
+ * Options for pausing a subscription (pauses start immediately)
+ */
+export interface SubscriptionPauseOptions {
+  /**
+   * When the subscription resumes (omit to resume manually)
+   */
+  resumeDate?: Date;
+}
+
+/**
+ * How a subscription moves through the sequence at renewal: on to the next
+ * term, again at the current term length, or back to a shorter term
+ */
+export type TermProgression = 'advance' | 'hold' | 'step-down';
+
+/**
+ * Choice of the next term when a subscription renews
+ */
+export interface TermChangeOptions {
+  /**
+   * How the next term moves through the sequence (defaults to 'advance')
+   */
+  progression?: TermProgression;
+
+  /**
+   * Positions to step back with 'step-down' (defaults to 1)
+   */
+  steps?: number;
+
+  /**
+   * Whether a held or shorter term keeps the discount earned at the furthest
+   * position reached, or reverts to its own position's discount (defaults to 'keep')
+   */
+  discount?: 'keep' | 'revert';
+}
+
+/**
+ * Request to price the next term of a subscription
+ */
+export interface TermChangeRequest extends TermChangeOptions {
+  /**
+   * Term running now (0-indexed, as passed to calculateNextBilling)
+   */
+  cycle: number;
+
+  /**
+   * Cycle (0-indexed) whose discount the running term kept after a hold or step-down
+   */
+  discountCycle?: number;
+
+  /**
+   * When the next term is charged, used for tax (defaults to now)
+   */
+  chargeDate?: Date;
+}
+
+/**
+ * Where a subscription is in its lifecycle
+ */
+export type SubscriptionState =
+  | 'pending'
+  | 'trialing'
+  | 'active'
+  | 'awaiting-renewal'
+  | 'past-due'
+  | 'paused'
+  | 'canceled'
+  | 'expired';
+
+/**
+ * Provider-agnostic events that move a subscription through its lifecycle
+ */
+export type LifecycleEventType =
+  | 'trial-started'
+  | 'activated'
+  | 'renewal-due'
+  | 'payment-succeeded'
+  | 'payment-failed'
+  | 'paused'
+  | 'resumed'
+  | 'canceled'
+  | 'expired';
+
+/**
+ * Lifecycle event normalized from a provider webhook
+ */
+export interface LifecycleEvent {
+  /**
+   * Event type
+   */
+  type: LifecycleEventType;
+
+  /**
+   * When the event happened at the provider
+   */
+  occurredAt: Date;
+
+  /**
+   * Subscription the event belongs to
+   */
+  subscriptionId?: string;
+
+  /**
+   * Customer the subscription belongs to
+   */
+  customerId?: string;
+
+  /**
+   * Fibonacci cycle stored on the subscription (1-indexed), when known
+   */
+  cycle?: number;
+
+  /**
+   * Provider the event came from, e.g. 'stripe' or 'paddle'
+   */
+  provider?: string;
+
+  /**
+   * Provider event type the event was normalized from, e.g. 'invoice.payment_failed'
+   */
+  providerEventType?: string;
+}
+
+/**
+ * Persistable state of a subscription lifecycle
+ */
+export interface SubscriptionLifecycleSnapshot {
+  /**
+   * Current state
+   */
+  state: SubscriptionState;
+
+  /**
+   * Latest Fibonacci cycle seen in an event (1-indexed)
+   */
+  cycle?: number;
+
+  /**
+   * When the last applied event happened; older events are ignored
+   */
+  updatedAt?: Date;
+}
+
+/**
+ * Decides whether a transition may be taken for an event
+ */
+export type LifecycleGuard = (
+  snapshot: SubscriptionLifecycleSnapshot,
+  event: LifecycleEvent
+) => boolean;
+
+/**
+ * Allowed move between lifecycle states
+ */
+export interface LifecycleTransition {
+  /**
+   * States the transition leaves from
+   */
+  from: SubscriptionState[];
+
+  /**
+   * Event that triggers the transition
+   */
+  event: LifecycleEventType;
+
+  /**
+   * State the transition enters
+   */
+  to: SubscriptionState;
+
+  /**
+   * Extra condition the event must meet, checked in the current state
+   */
+  guard?: LifecycleGuard;
+}
+
+/**
+ * Transition taken by a subscription lifecycle, passed to transition listeners
+ */
+export interface LifecycleTransitionEvent {
+  /**
+   * State before the transition
+   */
+  from: SubscriptionState;
+
+  /**
+   * State after the transition (the same state for self-transitions)
+   */
+  to: SubscriptionState;
+
+  /**
+   * Event that caused the transition
+   */
+  event: LifecycleEvent;
+}
+
+/**
+ * Options for creating a subscription lifecycle
+ */
+export interface SubscriptionLifecycleOptions extends Partial<SubscriptionLifecycleSnapshot> {
+  /**
+   * Allowed transitions (defaults to SUBSCRIPTION_TRANSITIONS)
+   */
+  transitions?: LifecycleTransition[];
+}
+
+/**
+ * Fibonacci state of a subscription, kept in a subscription store
+ */
+export interface SubscriptionRecord {
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId: string;
+
+  /**
+   * Provider the subscription is billed by, e.g. 'stripe' or 'paddle'
+   */
+  provider: string;
+
+  /**
+   * Provider customer ID
+   */
+  customerId?: string;
+
+  /**
+   * Current Fibonacci cycle (1-indexed, as in `fibonacciBillingCycle` metadata)
+   */
+  cycle: number;
+
+  /**
+   * Cycle (1-indexed) whose discount the current term kept after a hold or step-down
+   */
+  discountCycle?: number;
+
+  /**
+   * Plan version the subscription is sold under
+   */
+  plan?: PlanReference;
+
+  /**
+   * Billing for the current term, when it was priced through the integration
+   */
+  billing?: BillingCycleInfo;
+
+  /**
+   * When the record was last written
+   */
+  updatedAt: Date;
+}
+
+/**
+ * Term priced for a subscription, kept as its cycle history
+ */
+export interface CycleHistoryEntry {
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId: string;
+
+  /**
+   * Term billing
+   */
+  billing: BillingCycleInfo;
+
+  /**
+   * Why the term was priced: 'created', 'resume', 'plan-change', 'seat-change', or the
+   * term progression ('advance', 'hold' or 'step-down')
+   */
+  reason: string;
+
+  /**
+   * When the term was priced
+   */
+  recordedAt: Date;
+}
+
+/**
+ * Renewal reminder due for a subscription
+ */
+export interface ReminderRecord {
+  /**
+   * Reminder ID; one reminder is kept per subscription and cycle
+   */
+  id: string;
+
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId: string;
+
+  /**
+   * Provider customer ID
+   */
+  customerId?: string;
+
+  /**
+   * When to send the reminder
+   */
+  remindAt: Date;
+
+  /**
+   * When the renewal is charged
+   */
+  renewalDate: Date;
+
+  /**
+   * Term the customer is reminded about
+   */
+  nextBilling: BillingCycleInfo;
+
+  /**
+   * When the reminder was sent, once it has been
+   */
+  sentAt?: Date;
+}
+
+/**
+ * Storage for Fibonacci subscription state. Integrations read the current
+ * cycle, kept discount and plan version from the store before falling back
+ * to provider metadata, and write every term they price to it.
+ */
+export interface SubscriptionStore {
+  /**
+   * Gets a subscription's state
+   * @param subscriptionId - Provider subscription ID
+   * @returns The stored record, or undefined if the subscription is not stored
+   */
+  getSubscription(subscriptionId: string): Promise<SubscriptionRecord | undefined>;
+
+  /**
+   * Creates or replaces a subscription's state
+   * @param record - Subscription record
+   */
+  saveSubscription(record: SubscriptionRecord): Promise<void>;
+
+  /**
+   * Appends a priced term to a subscription's cycle history
+   * @param entry - Cycle history entry
+   */
+  addCycle(entry: CycleHistoryEntry): Promise<void>;
+
+  /**
+   * Gets a subscription's cycle history
+   * @param subscriptionId - Provider subscription ID
+   * @returns Entries in the order they were added
+   */
+  getCycleHistory(subscriptionId: string): Promise<CycleHistoryEntry[]>;
+
+  /**
+   * Creates or replaces a reminder
+   * @param reminder - Reminder
+   */
+  saveReminder(reminder: ReminderRecord): Promise<void>;
+
+  /**
+   * Gets a subscription's reminders
+   * @param subscriptionId - Provider subscription ID
+   * @returns Reminders ordered by when they are due
+   */
+  getReminders(subscriptionId: string): Promise<ReminderRecord[]>;
+
+  /**
+   * Gets unsent reminders due by a date
+   * @param until - Latest reminder date to include
+   * @returns Reminders ordered by when they are due
+   */
+  getDueReminders(until: Date): Promise<ReminderRecord[]>;
+
+  /**
+   * Records that a reminder was sent
+   * @param reminderId - Reminder ID
+   * @param sentAt - When it was sent
+   */
+  markReminderSent(reminderId: string, sentAt: Date): Promise<void>;
+
+  /**
+   * Checks whether a webhook event was already processed
+   * @param provider - Provider the event came from
+   * @param eventId - Provider event ID
+   * @returns Whether the event was processed
+   */
+  hasProcessedEvent(provider: string, eventId: string): Promise<boolean>;
+
+  /**
+   * Records that a webhook event was processed
+   * @param provider - Provider the event came from
+   * @param eventId - Provider event ID
+   * @param processedAt - When it was processed
+   */
+  markEventProcessed(provider: string, eventId: string, processedAt: Date): Promise<void>;
+}
+
+/**
+ * Prepared statement of a synchronous SQLite driver, such as better-sqlite3
+ */
+export interface SqliteStatement {
+  /**
+   * Runs the statement
+   * @param params - Positional parameters
+   */
+  run(...params: unknown[]): unknown;
+
+  /**
+   * Runs the statement and returns the first row
+   * @param params - Positional parameters
+   * @returns First row, or undefined if there is none
+   */
+  get(...params: unknown[]): unknown;
+
+  /**
+   * Runs the statement and returns every row
+   * @param params - Positional parameters
+   * @returns Rows
+   */
+  all(...params: unknown[]): unknown[];
+}
+
+/**
+ * Open SQLite database of a synchronous driver, such as better-sqlite3
+ */
+export interface SqliteDatabase {
+  /**
+   * Executes one or more statements without parameters
+   * @param sql - SQL to execute
+   */
+  exec(sql: string): unknown;
+
+  /**
+   * Prepares a statement
+   * @param sql - SQL with positional `?` parameters
+   * @returns Prepared statement
+   */
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * How many days before a renewal its reminder is sent
+ */
+export interface ReminderOffsets {
+  /**
+   * Days before renewals whose term length has no offset of its own (defaults to 7)
+   */
+  defaultDays?: number;
+
+  /**
+   * Days before renewal by the renewing term's length in months, e.g. `{ 13: 30 }`
+   * to remind customers a month before a 13-month term
+   */
+  byTermMonths?: { [termMonths: number]: number };
+}
+
+/**
+ * Renewal to schedule a reminder for
+ */
+export interface ReminderRequest {
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId: string;
+
+  /**
+   * Provider customer ID
+   */
+  customerId?: string;
+
+  /**
+   * When the renewal is charged
+   */
+  renewalDate: Date;
+
+  /**
+   * Term the customer is reminded about
+   */
+  nextBilling: BillingCycleInfo;
+
+  /**
+   * Days before renewal to send the reminder, overriding the configured offsets
+   */
+  daysBefore?: number;
+}
+
+/**
+ * Sends a due reminder to the customer; throwing or rejecting leaves the
+ * reminder unsent so it is retried on the next run
+ */
+export type ReminderDelivery = (reminder: ReminderRecord) => void | Promise<void>;
+
+/**
+ * Reminder scheduler options
+ */
+export interface ReminderSchedulerOptions {
+  /**
+   * Store the reminders are kept in
+   */
+  store: SubscriptionStore;
+
+  /**
+   * Sends each due reminder
+   */
+  deliver: ReminderDelivery;
+
+  /**
+   * Days before renewal reminders are scheduled
+   */
+  offsets?: ReminderOffsets;
+
+  /**
+   * IANA time zone reminder dates are counted in (defaults to 'UTC')
+   */
+  timeZone?: string;
+
+  /**
+   * Called when a timer run fails (defaults to logging the error)
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * Reminder whose delivery failed
+ */
+export interface ReminderFailure {
+  /**
+   * Reminder that was not sent
+   */
+  reminder: ReminderRecord;
+
+  /**
+   * Delivery error message
+   */
+  error: string;
+}
+
+/**
+ * Outcome of one reminder run
+ */
+export interface ReminderRunResult {
+  /**
+   * Reminders delivered and marked as sent
+   */
+  sent: ReminderRecord[];
+
+  /**
+   * Reminders whose delivery failed; they stay due for the next run
+   */
+  failed: ReminderFailure[];
+}
+
+/**
+ * Renewal reminder scheduled by a provider integration
+ */
+export interface PaymentReminderResult {
+  /**
+   * Whether the reminder was saved for delivery
+   */
+  scheduled: boolean;
+
+  /**
+   * Why the reminder was not scheduled
+   */
+  reason?: string;
+
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId: string;
+
+  /**
+   * Provider customer ID
+   */
+  customerId: string;
+
+  /**
+   * When the reminder is sent
+   */
+  reminderDate: Date;
+
+  /**
+   * Current Fibonacci cycle (1-indexed)
+   */
+  currentCycle: number;
+
+  /**
+   * Cycle of the term the customer is reminded about
+   */
+  nextCycle: number;
+
+  /**
+   * Length of the next term in months
+   */
+  nextTermMonths: number;
+
+  /**
+   * Amount charged for the next term
+   */
+  nextAmount: number;
+
+  /**
+   * Amount charged for the next term in minor units
+   */
+  nextAmountMinor: number;
+
+  /**
+   * Currency code
+   */
+  currency: string;
+}
+
+/**
+ * Customer notification kinds
+ */
+export type NotificationType = 'renewal-notice' | 'receipt' | 'payment-failed' | 'term-advanced';
+
+/**
+ * What a notification is about. Renewal notices and term changes need the
+ * `next` term; receipts and payment failures need the `current` one.
+ */
+export interface NotificationContext {
+  /**
+   * Customer's name, used in the greeting
+   */
+  customerName?: string;
+
+  /**
+   * Product name (defaults to the renderer's product name)
+   */
+  productName?: string;
+
+  /**
+   * Provider subscription ID
+   */
+  subscriptionId?: string;
+
+  /**
+   * Term being paid, or the term being left for a term change
+   */
+  current?: BillingCycleInfo;
+
+  /**
+   * Term being renewed into
+   */
+  next?: BillingCycleInfo;
+
+  /**
+   * When the next term is charged
+   */
+  renewalDate?: Date;
+
+  /**
+   * When the payment was taken
+   */
+  paidAt?: Date;
+
+  /**
+   * When a failed payment is retried
+   */
+  retryDate?: Date;
+
+  /**
+   * Why a payment failed
+   */
+  failureReason?: string;
+}
+
+/**
+ * Term billing formatted for display
+ */
+export interface FormattedTerm {
+  /**
+   * Billing cycle (1-indexed)
+   */
+  cycle: number;
+
+  /**
+   * Term length in months
+   */
+  termMonths: number;
+
+  /**
+   * Amount charged for the term
+   */
+  amount: string;
+
+  /**
+   * Effective monthly rate
+   */
+  monthlyRate: string;
+
+  /**
+   * Discount off the monthly price, e.g. '20%'
+   */
+  discount: string;
+
+  /**
+   * Saving against paying the monthly price
+   */
+  savings: string;
+}
+
+/**
+ * Notification values formatted for the renderer's locale and time zone.
+ * Values are plain text; HTML templates must escape them.
+ */
+export interface NotificationView {
+  /**
+   * Notification kind
+   */
+  type: NotificationType;
+
+  /**
+   * Customer's name, or an empty string if unknown
+   */
+  customerName: string;
+
+  /**
+   * Product name
+   */
+  productName: string;
+
+  /**
+   * Term being paid, or the term being left for a term change
+   */
+  current?: FormattedTerm;
+
+  /**
+   * Term being renewed into
+   */
+  next?: FormattedTerm;
+
+  /**
+   * When the next term is charged
+   */
+  renewalDate?: string;
+
+  /**
+   * When the payment was taken
+   */
+  paidAt?: string;
+
+  /**
+   * When a failed payment is retried
+   */
+  retryDate?: string;
+
+  /**
+   * Why a payment failed
+   */
+  failureReason?: string;
+
+  /**
+   * Unformatted context the view was built from
+   */
+  context: NotificationContext;
+}
+
+/**
+ * Renders one kind of notification
+ */
+export interface NotificationTemplate {
+  /**
+   * Renders the subject line
+   * @param view - Formatted notification values
+   * @returns Subject line
+   */
+  subject(view: NotificationView): string;
+
+  /**
+   * Renders the plain text body
+   * @param view - Formatted notification values
+   * @returns Plain text body
+   */
+  text(view: NotificationView): string;
+
+  /**
+   * Renders the HTML body
+   * @param view - Formatted notification values
+   * @returns HTML body
+   */
+  html(view: NotificationView): string;
+}
+
+/**
+ * Content of a template built from paragraphs with `createNotificationTemplate`
+ */
+export interface NotificationTemplateContent {
+  /**
+   * Renders the subject line
+   */
+  subject: (view: NotificationView) => string;
+
+  /**
+   * Renders the body paragraphs, after the greeting
+   */
+  paragraphs: (view: NotificationView) => string[];
+
+  /**
+   * Term shown as a summary table below the paragraphs
+   */
+  summary?: (view: NotificationView) => FormattedTerm | undefined;
+
+  /**
+   * Renders the greeting (defaults to 'Hi <name>,')
+   */
+  greeting?: (view: NotificationView) => string;
+
+  /**
+   * Summary table labels replacing the English ones
+   */
+  labels?: Partial<NotificationSummaryLabels>;
+}
+
+/**
+ * Labels of a notification's summary table
+ */
+export interface NotificationSummaryLabels {
+  /**
+   * Term length row
+   */
+  term: string;
+
+  /**
+   * Unit after the term length
+   */
+  months: string;
+
+  /**
+   * Amount row
+   */
+  amount: string;
+
+  /**
+   * Effective monthly rate row
+   */
+  monthlyRate: string;
+
+  /**
+   * Discount row
+   */
+  discount: string;
+
+  /**
+   * Savings row
+   */
+  savings: string;
+}
+
+/**
+ * Notification renderer options
+ */
+export interface NotificationRendererOptions {
+  /**
+   * BCP 47 locale amounts and dates are formatted in (defaults to 'en-US')
+   */
+  locale?: string;
+
+  /**
+   * IANA time zone dates are shown in (defaults to 'UTC')
+   */
+  timeZone?: string;
+
+  /**
+   * Product name used when the context has none (defaults to 'Fibonacci Billing')
+   */
+  productName?: string;
+
+  /**
+   * Templates replacing the default ones, by notification kind
+   */
+  templates?: Partial<Record<NotificationType, NotificationTemplate>>;
+}
+
+/**
+ * Rendered notification
+ */
+export interface RenderedNotification {
+  /**
+   * Notification kind
+   */
+  type: NotificationType;
+
+  /**
+   * Subject line
+   */
+  subject: string;
+
+  /**
+   * Plain text body
+   */
+  text: string;
+
+  /**
+   * HTML body
+   */
+  html: string;
+}
+
+/**
+ * Rendered notification addressed to a recipient
+ */
+export interface NotificationMessage extends RenderedNotification {
+  /**
+   * Recipient, e.g. an email address
+   */
+  to?: string;
+}
+
+/**
+ * Delivers rendered notifications, e.g. through an email provider
+ */
+export interface NotificationTransport {
+  /**
+   * Sends a notification
+   * @param message - Rendered notification and its recipient
+   * @returns Promise resolving once the notification is sent
+   */
+  send(message: NotificationMessage): Promise<void>;
+}
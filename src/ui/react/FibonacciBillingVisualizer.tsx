@@ -1,6 +1,17 @@
 import React, { useState, useEffect } from 'react';
 import FibonacciBilling from '../../core/fibonacci-billing';
-import { BillingCycleInfo, BillingSummary } from '../../types';
+import { comparePlans } from '../../core/plan-comparison';
+import { toMajorUnits } from '../../core/money';
+import { validateBillingOptions } from '../../core/validation';
+import {
+  BillingCycleInfo,
+  BillingOptionsIssue,
+  BillingSummary,
+  ComparisonPlan,
+  Money,
+  PlanComparison,
+  SeatPricingOptions,
+} from '../../types';
 
 interface FibonacciBillingVisualizerProps {
   /**
@@ -27,6 +38,26 @@ interface FibonacciBillingVisualizerProps {
    * Number of cycles to display
    */
   cycles?: number;
+
+  /**
+   * Number of seats
+   */
+  quantity?: number;
+
+  /**
+   * Per-seat price tiers
+   */
+  seats?: SeatPricingOptions;
+
+  /**
+   * Plans to compare the Fibonacci plan against; the first is the baseline
+   */
+  comparisonPlans?: ComparisonPlan[];
+
+  /**
+   * Number of months to compare plans over
+   */
+  comparisonMonths?: number;
 }
 
 // CSS styles
@@ -84,9 +115,21 @@ const styles = {
   },
   rowHover: {
     backgroundColor: '#f1f5f9',
+  },
+  comparison: {
+    marginTop: '30px',
+  },
+  error: {
+    backgroundColor: '#fef2f2',
+    border: '1px solid #fecaca',
+    borderRadius: '8px',
+    padding: '20px',
+    color: '#b91c1c',
   }
 };
 
+const formatMoney = (money: Money) => `$${toMajorUnits(money).toFixed(2)}`;
+
 /**
  * Component for visualizing Fibonacci billing schedules
  */
@@ -95,27 +138,106 @@ const FibonacciBillingVisualizer: React.FC<FibonacciBillingVisualizerProps> = ({
   discountRate = 0.08,
   capTerm = false,
   maxTerm = 0,
-  cycles = 8
+  cycles = 8,
+  quantity = 1,
+  seats,
+  comparisonPlans,
+  comparisonMonths = 24,
 }) => {
   const [schedule, setSchedule] = useState<BillingCycleInfo[]>([]);
   const [summary, setSummary] = useState<BillingSummary | null>(null);
+  const [comparison, setComparison] = useState<PlanComparison | null>(null);
+
+  // Validate props the same way the billing engine validates its options
+  const issues: BillingOptionsIssue[] = validateBillingOptions({
+    basePrice,
+    discountRate,
+    capTerm,
+    maxTerm,
+    quantity,
+    seats,
+  });
+  if (!Number.isInteger(cycles) || cycles < 1) {
+    issues.push({
+      path: 'cycles',
+      message: `cycles must be a positive whole number, got ${cycles}`,
+    });
+  }
+  if (comparisonPlans && (!Number.isInteger(comparisonMonths) || comparisonMonths < 1)) {
+    issues.push({
+      path: 'comparisonMonths',
+      message: `comparisonMonths must be a positive whole number, got ${comparisonMonths}`,
+    });
+  }
+  const valid = issues.length === 0;
 
   useEffect(() => {
+    if (!valid) {
+      return;
+    }
+
     const billing = new FibonacciBilling({
       basePrice,
       discountRate,
       capTerm,
-      maxTerm
+      maxTerm,
+      quantity,
+      seats,
     });
 
     setSchedule(billing.generateBillingSchedule(cycles));
     setSummary(billing.getBillingSummary(cycles));
-  }, [basePrice, discountRate, capTerm, maxTerm, cycles]);
+
+    if (comparisonPlans && comparisonPlans.length > 0) {
+      setComparison(
+        comparePlans({
+          months: comparisonMonths,
+          plans: [
+            ...comparisonPlans,
+            {
+              type: 'fibonacci',
+              options: { basePrice, discountRate, capTerm, maxTerm, quantity, seats },
+            },
+          ],
+        })
+      );
+    } else {
+      setComparison(null);
+    }
+  }, [
+    valid,
+    basePrice,
+    discountRate,
+    capTerm,
+    maxTerm,
+    cycles,
+    quantity,
+    seats,
+    comparisonPlans,
+    comparisonMonths,
+  ]);
+
+  if (!valid) {
+    return (
+      <div style={styles.container}>
+        <div style={styles.error} role="alert">
+          <h3>Invalid billing options</h3>
+          <ul>
+            {issues.map((issue) => (
+              <li key={`${issue.path}: ${issue.message}`}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      </div>
+    );
+  }
 
   if (schedule.length === 0 || !summary) {
     return <div>Loading billing information...</div>;
   }
 
+  const showSeats = quantity > 1 || seats !== undefined;
+
   return (
     <div style={styles.container}>
       <div style={styles.billingSummary}>
@@ -137,6 +259,12 @@ const FibonacciBillingVisualizer: React.FC<FibonacciBillingVisualizerProps> = ({
             <span style={styles.label}>Effective Monthly Rate:</span>
             <span style={styles.value}>${summary.effectiveMonthlyRate.toFixed(2)}</span>
           </div>
+          {showSeats && (
+            <div style={styles.stat}>
+              <span style={styles.label}>Seats:</span>
+              <span style={styles.value}>{quantity}</span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -152,6 +280,7 @@ const FibonacciBillingVisualizer: React.FC<FibonacciBillingVisualizerProps> = ({
               <th style={styles.headerCell}>Final Amount</th>
               <th style={styles.headerCell}>Savings</th>
               <th style={styles.headerCell}>Monthly Rate</th>
+              {showSeats && <th style={styles.headerCell}>Per Seat / Month</th>}
             </tr>
           </thead>
           <tbody>
@@ -169,11 +298,69 @@ const FibonacciBillingVisualizer: React.FC<FibonacciBillingVisualizerProps> = ({
                 <td style={styles.cell}>${cycle.finalAmount.toFixed(2)}</td>
                 <td style={styles.cell}>${cycle.savingsAmount.toFixed(2)}</td>
                 <td style={styles.cell}>${cycle.effectiveMonthlyRate.toFixed(2)}</td>
+                {showSeats && (
+                  <td style={styles.cell}>
+                    ${(cycle.effectiveMonthlyRate / cycle.quantity).toFixed(2)}
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
         </table>
       </div>
+
+      {comparison && (
+        <div style={styles.comparison}>
+          <h3>Plan Comparison ({comparison.months} Months)</h3>
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.headerCell}>Plan</th>
+                <th style={styles.headerCell}>Total Cost</th>
+                <th style={styles.headerCell}>Savings vs {comparison.baseline}</th>
+                <th style={styles.headerCell}>Break-even Month</th>
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.plans.map((plan) => (
+                <tr key={plan.name}>
+                  <td style={styles.cell}>{plan.name}</td>
+                  <td style={styles.cell}>{formatMoney(plan.total)}</td>
+                  <td style={styles.cell}>{formatMoney(plan.totalSavings)}</td>
+                  <td style={styles.cell}>
+                    {plan.breakEvenMonth === null ? '-' : plan.breakEvenMonth}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <table style={styles.table}>
+            <thead>
+              <tr>
+                <th style={styles.headerCell}>Month</th>
+                {comparison.plans.map((plan) => (
+                  <th key={plan.name} style={styles.headerCell}>
+                    {plan.name} (Cumulative)
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {comparison.plans[0].cumulative.map((_, month) => (
+                <tr key={month}>
+                  <td style={styles.cell}>{month + 1}</td>
+                  {comparison.plans.map((plan) => (
+                    <td key={plan.name} style={styles.cell}>
+                      {formatMoney(plan.cumulative[month])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };